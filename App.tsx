@@ -1,234 +1,1156 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Search, Volume2, Loader2, ExternalLink, RefreshCw, X, Play, Square, Globe, BrainCircuit, AudioWaveform as Waveform, Sparkles, ChevronRight, Dices, Hammer, History, Home, Plus } from 'lucide-react';
-import { GeminiService } from './services/geminiService';
-import { AppStatus, SearchResponse } from './types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Search, Volume2, Loader2, RefreshCw, X, Play, Pause, Square, Globe, BrainCircuit, AudioWaveform as Waveform, Sparkles, ChevronRight, Dices, Hammer, History, Home, Plus, Trash2, Mic, Download, Package, MessagesSquare, CornerDownRight, Keyboard, Languages, ListMusic, Newspaper, Share2, ShieldAlert, Columns3, Settings as SettingsIcon } from 'lucide-react';
+import { AppStatus, BriefingEpisode, ComparisonResponse, SearchResponse, Session, SessionTurn, Settings } from './types';
 import { decodeBase64, decodeAudioData } from './services/audio';
-import { Visualizer } from './components/Visualizer';
+import { AudioPlayer, PlayerState } from './services/audioPlayer';
+import { parseTurn } from './services/sentences';
+import { Visualizer, VisualizerStyle } from './components/Visualizer';
+import { MicLevelMeter } from './components/MicLevelMeter';
+import { PlayerControls } from './components/PlayerControls';
+import { SettingsDrawer } from './components/SettingsDrawer';
+import { ShortcutsHelp } from './components/ShortcutsHelp';
+import { QueuePanel } from './components/QueuePanel';
+import { BriefingPanel } from './components/BriefingPanel';
+import { Shortcut, useKeyboardShortcuts } from './components/useKeyboardShortcuts';
+import { useMediaSession } from './components/useMediaSession';
+import { DialogueTranscript } from './components/DialogueTranscript';
+import { ReadAlongText } from './components/ReadAlongText';
+import { SessionTurnCard } from './components/SessionTurnCard';
+import { SourceCard } from './components/SourceCard';
+import { ComparisonView } from './components/ComparisonView';
+import { SummaryInsights } from './components/SummaryInsights';
+import { HistoryStore } from './services/historyStore';
+import { MicRecorder } from './services/recorder';
+import { buildBundle, buildPlaylistBundle, buildWav, downloadFile, exportFileName } from './services/export';
+import { languageName, loadSettings, OUTPUT_LANGUAGES, saveSettings } from './services/settings';
+import { describeError, ErrorDescription } from './services/errors';
+import { AIProvider } from './services/provider';
+import { createTranslator, MessageKey } from './services/i18n';
+import { navigate, parseRoute, Route, routeUrl } from './services/routing';
+import { decodeSharedAnswer, encodeSharedAnswer } from './services/shareLink';
+import { isQueued, QueueItem, ResearchQueue } from './services/researchQueue';
+import { SearchHooks, SearchPipeline, VoicedAnswer } from './services/searchPipeline';
+import { splitComparison } from './services/comparison';
+import { BriefingProgress, formatBriefingDate, generateBriefing, isBriefingDue, loadBriefingConfig, saveBriefingConfig } from './services/briefing';
+import { isThinlySourced, rateSource } from './services/sourceFilter';
+import { sourceDomain } from './services/sources';
+import { TranslationContext } from './components/useTranslation';
 
-const gemini = new GeminiService();
+const historyStore = new HistoryStore();
 
-interface HistoryItem {
-  id: string;
-  query: string;
-  results: SearchResponse;
+// What a failure in each step is reported as, unless the error says more.
+const STEP_ERRORS: Partial<Record<AppStatus, MessageKey>> = {
+  [AppStatus.TRANSCRIBING]: 'error.voice',
+  [AppStatus.TWEAKING]: 'error.workshop',
+  [AppStatus.INSPIRING]: 'error.inspire',
+  [AppStatus.REFINING]: 'error.refine',
+  [AppStatus.TRANSLATING]: 'error.translate',
+  [AppStatus.COMPARING]: 'error.compare',
+  [AppStatus.SEARCHING]: 'error.search',
+  [AppStatus.SYNTHESIZING]: 'error.search',
+  [AppStatus.GENERATING_AUDIO]: 'error.audio',
+  [AppStatus.PLAYING]: 'error.audio',
+};
+
+const STEP_LABELS: Partial<Record<AppStatus, MessageKey>> = {
+  [AppStatus.TRANSCRIBING]: 'step.transcribing',
+  [AppStatus.TWEAKING]: 'step.workshop',
+  [AppStatus.INSPIRING]: 'step.inspiring',
+  [AppStatus.REFINING]: 'step.refining',
+  [AppStatus.TRANSLATING]: 'step.translating',
+  [AppStatus.COMPARING]: 'step.comparing',
+  [AppStatus.SEARCHING]: 'step.searching',
+  [AppStatus.SYNTHESIZING]: 'step.synthesizing',
+  [AppStatus.GENERATING_AUDIO]: 'step.generatingAudio',
+};
+
+function sessionFromTurn(turn: SessionTurn): Session {
+  return { id: turn.id, title: turn.query, createdAt: turn.timestamp, updatedAt: turn.timestamp, turns: [turn] };
 }
 
-const App: React.FC = () => {
+interface AppProps {
+  /** Backend for search, summaries and speech; see createProvider. */
+  provider: AIProvider;
+}
+
+const App: React.FC<AppProps> = ({ provider }) => {
   const [query, setQuery] = useState('');
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [results, setResults] = useState<SearchResponse | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Shown instead of `results` after a compare; not part of any session.
+  const [comparison, setComparison] = useState<ComparisonResponse | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [currentTurn, setCurrentTurn] = useState<SessionTurn | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
   const [playbackFinished, setPlaybackFinished] = useState(false);
-  const [isLuckyLoading, setIsLuckyLoading] = useState(false);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [micLevel, setMicLevel] = useState(0);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('bars');
+  const [player, setPlayer] = useState<AudioPlayer | null>(null);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
+  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+  const [playlistId, setPlaylistId] = useState<string | null>(null);
+  const [highlightedSource, setHighlightedSource] = useState<number | null>(null);
+  const [isBriefingOpen, setIsBriefingOpen] = useState(false);
+  const [briefingConfig, setBriefingConfig] = useState(loadBriefingConfig);
+  const [episodes, setEpisodes] = useState<BriefingEpisode[]>([]);
+  const [briefingProgress, setBriefingProgress] = useState<BriefingProgress | null>(null);
+  const [briefingError, setBriefingError] = useState<unknown>(null);
+  const [episodeId, setEpisodeId] = useState<string | null>(null);
   
   const audioContextRef = useRef<AudioContext | null>(null);
-  const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const playerRef = useRef<AudioPlayer | null>(null);
+  // Mirrors `session` for callbacks that outlive a render, e.g. voice input.
+  const sessionRef = useRef<Session | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const historyListRef = useRef<HTMLDivElement>(null);
+  const recorderRef = useRef<MicRecorder | null>(null);
+  const micPressedAtRef = useRef(0);
+  const previewPlayerRef = useRef<AudioPlayer | null>(null);
+  const previewCacheRef = useRef(new Map<string, string>());
+  // The summary being voiced: its flow's signal, its player, when synthesis started,
+  // and the cache outcomes of its segments, for the log.
+  const speechRef = useRef<{ signal?: AbortSignal; player?: AudioPlayer; startedAt: number; chunks: number; hits: number; total: number }>({ startedAt: 0, chunks: 0, hits: 0, total: 0 });
+  // The running briefing's requests, whose cache events stay out of the log.
+  const briefingSignalRef = useRef<AbortSignal | null>(null);
+  // The queue item the playlist is playing; cleared by anything else that takes over playback.
+  const playlistIdRef = useRef<string | null>(null);
+  const queueEventsRef = useRef({ onDone: (_item: QueueItem) => {}, onEnded: () => {} });
+  const queueRef = useRef<ResearchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new ResearchQueue(provider, setQueueItems, item => queueEventsRef.current.onDone(item));
+  }
+  const queue = queueRef.current;
+  // Runs each flow's provider calls; its `flow` owns `status` and the
+  // AbortSignal of whatever the app is currently doing.
+  const pipelineRef = useRef<SearchPipeline | null>(null);
+  if (!pipelineRef.current) {
+    pipelineRef.current = new SearchPipeline(provider);
+    pipelineRef.current.flow.onChange = setStatus;
+  }
+  const pipeline = pipelineRef.current;
+  const flow = pipeline.flow;
 
   useEffect(() => {
     logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
+  useEffect(() => {
+    return () => { recorderRef.current?.cancel(); };
+  }, []);
+
+  useEffect(() => {
+    provider.updateSettings(settings);
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    saveBriefingConfig(briefingConfig);
+  }, [briefingConfig]);
+
+  const t = useMemo(() => createTranslator(settings.interfaceLanguage), [settings.interfaceLanguage]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.interfaceLanguage;
+  }, [settings.interfaceLanguage]);
+
   const addLog = (msg: string) => setLogs(prev => [...prev, msg]);
 
+  useEffect(() => {
+    flow.onStepTimed = (step, seconds) => {
+      const label = STEP_LABELS[step];
+      if (label) addLog(t('log.stepTiming', { step: t(label), seconds: seconds.toFixed(1) }));
+    };
+  }, [flow, t]);
+
+  useEffect(() => {
+    // The queue and briefings share the cache but run in the background, so
+    // only the current flow's requests count.
+    provider.onCacheEvent = ({ operation, outcome, signal }) => {
+      if (operation === 'speech') {
+        if (!signal || signal !== speechRef.current.signal) return;
+        speechRef.current.total++;
+        if (outcome !== 'miss') speechRef.current.hits++;
+        return;
+      }
+      if (signal && (queue.owns(signal) || signal === briefingSignalRef.current)) return;
+      addLog(t(outcome === 'hit' ? 'log.searchCacheHit' : outcome === 'shared' ? 'log.searchCacheShared' : 'log.searchCacheMiss'));
+    };
+    return () => { provider.onCacheEvent = undefined; };
+  }, [provider, queue, t]);
+
   const stopAudio = useCallback(() => {
-    if (currentSourceRef.current) {
-      currentSourceRef.current.stop();
-      currentSourceRef.current = null;
+    flow.cancel();
+    playlistIdRef.current = null;
+    setPlaylistId(null);
+    setEpisodeId(null);
+    if (playerRef.current) {
+      playerRef.current.dispose();
+      playerRef.current = null;
+      setPlayer(null);
     }
-    if (status === AppStatus.PLAYING) setStatus(AppStatus.IDLE);
-  }, [status]);
-
-  const performSearchFlow = async (searchQuery: string) => {
-    setError(null);
-    setPlaybackFinished(false);
-    
-    try {
-      setStatus(AppStatus.ANALYZING);
-      addLog(`Analyzing request: "${searchQuery}"`);
-      
-      await new Promise(r => setTimeout(r, 600));
-      setStatus(AppStatus.SEARCHING);
-      addLog(`Consulting Google Search for real-time information...`);
-      
-      const searchRes = await gemini.searchAndSummarize(searchQuery);
-      addLog(`Found ${searchRes.sources.length} relevant sources.`);
-      addLog(`Model used search term: "${searchRes.actualQuery}"`);
-      
-      setStatus(AppStatus.SYNTHESIZING);
-      addLog(`Synthesizing search results into concise summary...`);
-      setResults(searchRes);
+  }, [flow]);
 
-      // Add to history
-      const newItem: HistoryItem = {
-        id: Date.now().toString(),
-        query: searchQuery,
-        results: searchRes
-      };
-      setHistory(prev => [newItem, ...prev.slice(0, 19)]); // Keep last 20
+  const reportError = (err: unknown, fallback: string) => {
+    console.error(err);
+    const description = describeError(err, fallback, t);
+    setError(description);
+    flow.fail();
+    addLog(err instanceof Error && err.message
+      ? t('log.errorDetail', { title: description.title, detail: err.message })
+      : t('log.error', { title: description.title }));
+  };
 
-      setStatus(AppStatus.GENERATING_AUDIO);
-      addLog(`Converting summary to speech using Gemini TTS...`);
-      const audioBase64 = await gemini.generateSpeech(searchRes.summary);
+  // All playback goes through one AnalyserNode so the Visualizer can read
+  // it whether or not a source is currently connected.
+  const getAudioContext = () => {
+    if (!audioContextRef.current) {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      const node = ctx.createAnalyser();
+      node.fftSize = 256;
+      node.smoothingTimeConstant = 0.75;
+      node.connect(ctx.destination);
+      audioContextRef.current = ctx;
+      analyserRef.current = node;
+      setAnalyser(node);
+    }
+    return audioContextRef.current;
+  };
 
-      setStatus(AppStatus.PLAYING);
-      addLog(`Playing audio summary.`);
-      
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  const createPlayer = () => {
+    const ctx = getAudioContext();
+    const player = new AudioPlayer(ctx, analyserRef.current ?? ctx.destination);
+    player.onStateChange = (state: PlayerState) => {
+      flow.playback(state);
+      switch (state) {
+        case 'stopped':
+          setPlaybackFinished(true);
+          break;
+        case 'ended':
+          setPlaybackFinished(true);
+          addLog(t('log.playbackFinished'));
+          queueEventsRef.current.onEnded();
+          break;
       }
+    };
+    playerRef.current = player;
+    setPlayer(player);
+    return player;
+  };
 
-      const audioBuffer = await decodeAudioData(
-        decodeBase64(audioBase64),
-        audioContextRef.current,
-        24000,
-        1
-      );
-
-      const source = audioContextRef.current.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContextRef.current.destination);
-      source.onended = () => {
-        setStatus(AppStatus.IDLE);
-        currentSourceRef.current = null;
-        setPlaybackFinished(true);
-        addLog(`Playback finished.`);
-      };
+  // Stored audio is one PCM blob; splitting it back into the segments it was
+  // synthesized from keeps turn highlighting working on replays.
+  const playAudio = async (audioBase64: string, segments?: number[]) => {
+    const ctx = getAudioContext();
+    const pcm = decodeBase64(audioBase64);
+    const player = createPlayer();
+    const sampleCounts = segments?.length ? segments : [pcm.length / 2];
+    let offset = 0;
+    for (const samples of sampleCounts) {
+      const bytes = pcm.slice(offset, offset + samples * 2);
+      offset += samples * 2;
+      if (bytes.length > 0) player.enqueue(await decodeAudioData(bytes, ctx, 24000, 1));
+    }
+    player.finish();
+  };
 
-      currentSourceRef.current = source;
-      source.start();
+  const activateSession = (next: Session | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  };
 
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || 'Search failed. Please try again.');
-      setStatus(AppStatus.ERROR);
-      addLog(`Error: ${err.message}`);
+  // Keeps the sidebar list and IndexedDB in step with a changed session.
+  const storeSession = (next: Session) => {
+    setSessions(prev => [next, ...prev.filter(s => s.id !== next.id)]);
+    historyStore.save(next).catch(err => console.error('Failed to save session', err));
+  };
+
+  const attachTurnAudio = (sessionId: string, turnId: string, audioBase64: string, audioSegments: number[]) => {
+    const patch = (s: Session): Session => s.id !== sessionId ? s : {
+      ...s,
+      turns: s.turns.map(turn => turn.id === turnId ? { ...turn, audioBase64, audioSegments } : turn),
+    };
+    setSessions(prev => prev.map(patch));
+    if (sessionRef.current) activateSession(patch(sessionRef.current));
+    setCurrentTurn(prev => prev?.id === turnId ? { ...prev, audioBase64, audioSegments } : prev);
+    historyStore.attachAudio(sessionId, turnId, audioBase64, audioSegments).catch(err => console.error('Failed to save audio', err));
+  };
+
+  // Each sentence (or podcast turn) is voiced as soon as it streams in; the
+  // player lines the chunks up into one continuous summary.
+  const startSpeech = (signal: AbortSignal) => {
+    speechRef.current = { signal, player: createPlayer(), startedAt: performance.now(), chunks: 0, hits: 0, total: 0 };
+  };
+
+  const playSpeechChunk = async (pcm: Uint8Array) => {
+    const speech = speechRef.current;
+    const { player } = speech;
+    if (!player) return;
+    const buffer = await decodeAudioData(pcm, getAudioContext(), 24000, 1);
+    // Stopped while decoding.
+    if (playerRef.current !== player) return;
+    player.enqueue(buffer);
+    if (++speech.chunks === 1) {
+      addLog(t('log.playing', { seconds: ((performance.now() - speech.startedAt) / 1000).toFixed(1) }));
     }
   };
 
+  // Lets the player end once the last chunk has played.
+  const finishSpeech = () => {
+    const { player, hits, total } = speechRef.current;
+    player?.finish();
+    if (total > 0) addLog(t('log.speechCache', { hits, count: total }));
+  };
+
+  const handleStepFailure = (err: unknown, step: AppStatus) => {
+    if (step === AppStatus.TWEAKING) addLog(t('log.workshopFailed'));
+    if (step === AppStatus.INSPIRING) addLog(t('log.inspireFailed'));
+    stopAudio();
+    reportError(err, t(STEP_ERRORS[step] ?? 'error.search'));
+  };
+  pipeline.onSpeaking = startSpeech;
+  pipeline.onError = handleStepFailure;
+
+  const logExcludedSources = (response: SearchResponse) => {
+    const excluded = response.excludedSources ?? [];
+    if (excluded.length === 0) return;
+    addLog(t('log.sourcesExcluded', { count: excluded.length, domains: [...new Set(excluded.map(sourceDomain))].join(', ') }));
+    if (isThinlySourced(response)) addLog(t('log.thinlySourced'));
+  };
+
+  /**
+   * What a search shows as it runs. A follow-up is asked within the open
+   * session, with its earlier turns as context; otherwise a new session
+   * starts. `finish` stores the audio once the whole answer is voiced.
+   */
+  const searchHooks = (followUp: boolean) => {
+    const base = followUp ? sessionRef.current : null;
+    const isPodcast = settings.mode === 'podcast';
+    const segments: string[] = [];
+    let asked = '';
+    let saved: { sessionId: string; turnId: string } | null = null;
+
+    const hooks: SearchHooks = {
+      onSearching: searchQuery => {
+        asked = searchQuery;
+        if (!base) {
+          activateSession(null);
+          navigate({ view: 'search', query: searchQuery });
+        }
+        setError(null);
+        setComparison(null);
+        setResults(null);
+        setCurrentTurn(null);
+        setPlaybackFinished(false);
+        setHighlightedSource(null);
+        addLog(base
+          ? t('log.analyzingFollowUp', { count: base.turns.length, query: searchQuery })
+          : t('log.analyzing', { query: searchQuery }));
+        addLog(t('log.searching'));
+      },
+      onSegment: segment => {
+        if (segments.length === 0) addLog(t(isPodcast ? 'log.streamingPodcast' : 'log.streamingSummary'));
+        segments.push(segment);
+        setResults({
+          summary: segments.join(isPodcast ? '\n' : ' '),
+          sources: [],
+          actualQuery: asked,
+          dialogue: isPodcast ? segments.map(parseTurn) : undefined,
+        });
+      },
+      onResults: searchRes => {
+        addLog(t('log.sources', { count: searchRes.sources.length }));
+        logExcludedSources(searchRes);
+        const searchQueries = searchRes.searchQueries?.length ? searchRes.searchQueries : [searchRes.actualQuery];
+        addLog(t('log.searchTerms', { count: searchQueries.length, terms: searchQueries.map(q => `"${q}"`).join(', ') }));
+        if (searchRes.confidence !== undefined) addLog(t('log.confidence', { percent: Math.round(searchRes.confidence * 100) }));
+        if (searchRes.language) addLog(t('log.language', { language: languageName(searchRes.language, settings.interfaceLanguage) }));
+        setResults(searchRes);
+
+        const turn: SessionTurn = {
+          id: Date.now().toString(),
+          query: asked,
+          timestamp: Date.now(),
+          results: searchRes
+        };
+        const nextSession: Session = base
+          ? { ...base, turns: [...base.turns, turn], updatedAt: turn.timestamp }
+          : sessionFromTurn(turn);
+        activateSession(nextSession);
+        setCurrentTurn(turn);
+        storeSession(nextSession);
+        // Reloading or going back to this entry now reopens the saved session instead of searching again.
+        navigate({ view: 'session', sessionId: nextSession.id, query: nextSession.title }, true);
+        saved = { sessionId: nextSession.id, turnId: turn.id };
+      },
+      onAudio: playSpeechChunk,
+    };
+
+    const finish = (answer: VoicedAnswer | null) => {
+      if (!answer || !saved) return;
+      finishSpeech();
+      attachTurnAudio(saved.sessionId, saved.turnId, answer.audio.audioBase64, answer.audio.audioSegments);
+    };
+    return { request: { context: base?.turns, podcast: isPodcast }, hooks, finish };
+  };
+
+  const performSearchFlow = async (searchQuery: string, followUp = false) => {
+    const { request, hooks, finish } = searchHooks(followUp);
+    finish(await pipeline.search(searchQuery, request, hooks));
+  };
+
+  // Synthesizes audio for a stored turn that has none, e.g. when synthesis
+  // failed or was stopped before it finished.
+  const voiceTurn = async (turn: SessionTurn) => {
+    const owner = sessionRef.current;
+    setError(null);
+    setPlaybackFinished(false);
+    addLog(t('log.generatingAudio', { query: turn.query }));
+    const audio = await pipeline.voice(turn.results, { onAudio: playSpeechChunk });
+    if (!audio) return;
+    finishSpeech();
+    if (owner) attachTurnAudio(owner.id, turn.id, audio.audioBase64, audio.audioSegments);
+  };
+
   const handleSearch = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!query.trim() || (status !== AppStatus.IDLE && status !== AppStatus.ERROR)) return;
+    // Searching again while a search runs replaces it; stopAudio aborts its requests.
+    if (!query.trim() || status === AppStatus.LISTENING || status === AppStatus.TRANSCRIBING) return;
     
-    setResults(null);
-    setLogs([]);
+    // With a session open, the search box asks a follow-up.
+    const followUp = !!sessionRef.current;
+    if (!followUp) setLogs([]);
+    stopAudio();
+    await performSearchFlow(query, followUp);
+  };
+
+  // Suggested follow-ups are asked within the open session, like typed ones.
+  const handleSuggestedFollowUp = async (question: string) => {
+    if (status === AppStatus.LISTENING || status === AppStatus.TRANSCRIBING) return;
+    setQuery(question);
     stopAudio();
-    await performSearchFlow(query);
+    await performSearchFlow(question, !!sessionRef.current);
   };
 
   const handleWorkshop = async () => {
-    if (!query.trim() || isSearching || isLuckyLoading) return;
+    if (!query.trim() || flow.busy) return;
     
     setResults(null);
     setLogs([]);
     stopAudio();
-    setStatus(AppStatus.TWEAKING);
-    addLog(`Gemini Workshop is optimizing your prompt: "${query}"...`);
-    
-    try {
-      const tweaked = await gemini.tweakQuery(query);
-      setQuery(tweaked);
-      addLog(`Workshop output: "${tweaked}"`);
-      await performSearchFlow(tweaked);
-    } catch (err: any) {
-      addLog("Workshop failed to optimize the prompt.");
-      setError("Workshop optimization failed.");
-      setStatus(AppStatus.ERROR);
-    }
+    addLog(t('log.workshop', { query }));
+    const { request, hooks, finish } = searchHooks(false);
+    finish(await pipeline.workshop(query, request, {
+      ...hooks,
+      onQuery: tweaked => {
+        setQuery(tweaked);
+        addLog(t('log.workshopOutput', { query: tweaked }));
+      },
+    }));
   };
 
   const handleFeelingLucky = async () => {
-    if (isLuckyLoading || isSearching) return;
+    if (flow.busy) return;
     
-    setIsLuckyLoading(true);
     setResults(null);
     setLogs([]);
     stopAudio();
-    addLog("Gemini is brainstorming a unique topic for you...");
+    addLog(t('log.inspiring'));
+    const { request, hooks, finish } = searchHooks(false);
+    finish(await pipeline.inspire(request, {
+      ...hooks,
+      onQuery: randomPrompt => {
+        setQuery(randomPrompt);
+        addLog(t('log.inspired', { query: randomPrompt }));
+      },
+    }));
+  };
+
+  const handleFindMore = async () => {
+    if (!results || flow.busy) return;
     
+    const original = currentTurn?.query ?? query;
+    stopAudio();
+    addLog(t('log.refining'));
+    const { request, hooks, finish } = searchHooks(true);
+    finish(await pipeline.refine(original, results.summary, request, {
+      ...hooks,
+      onQuery: deeperQuery => {
+        setQuery(deeperQuery);
+        addLog(t('log.refined', { query: deeperQuery }));
+      },
+    }));
+  };
+
+  // Replaces the open turn with a translation of its answer and voices it again.
+  const handleTranslate = async (language: string) => {
+    const turn = currentTurn;
+    const owner = sessionRef.current;
+    if (!turn || !owner || flow.busy) return;
+    const name = languageName(language, settings.interfaceLanguage);
+
+    stopAudio();
+    setError(null);
+    addLog(t('log.translating', { language: name }));
+    const answer = await pipeline.translate(turn.results, language, {
+      onTranslated: translated => {
+        const nextTurn: SessionTurn = { ...turn, results: translated, audioBase64: undefined, audioSegments: undefined };
+        const next: Session = { ...owner, turns: owner.turns.map(item => item.id === turn.id ? nextTurn : item) };
+        activateSession(next);
+        storeSession(next);
+        setResults(translated);
+        setCurrentTurn(nextTurn);
+        setPlaybackFinished(false);
+        addLog(t('log.translated', { language: name }));
+        addLog(t('log.generatingAudio', { query: turn.query }));
+      },
+      onAudio: playSpeechChunk,
+    });
+    if (!answer) return;
+    finishSpeech();
+    attachTurnAudio(owner.id, turn.id, answer.audio.audioBase64, answer.audio.audioSegments);
+  };
+
+  const handleStop = () => {
+    playerRef.current?.stop();
+  };
+
+  const handlePlayPause = () => {
+    const current = playerRef.current;
+    if (!current) return;
+    if (current.state === 'playing') current.pause();
+    else current.play();
+  };
+
+  // Replays the audio we already have instead of searching and synthesizing again.
+  const handleReplay = () => {
+    const current = playerRef.current;
+    if (current && current.duration > 0) {
+      setPlaybackFinished(false);
+      addLog(t('log.replaying'));
+      current.replay();
+      return;
+    }
+    if (comparison?.audioBase64) playComparison(comparison.audioBase64);
+    else if (currentTurn) voiceTurn(currentTurn);
+  };
+
+  const playComparison = async (audioBase64: string) => {
+    setPlaybackFinished(false);
+    flow.playback('playing');
     try {
-      const randomPrompt = await gemini.generateRandomPrompt();
-      setQuery(randomPrompt);
-      addLog(`Inspired query: "${randomPrompt}"`);
-      setIsLuckyLoading(false);
-      await performSearchFlow(randomPrompt);
+      await playAudio(audioBase64);
     } catch (err: any) {
-      addLog("Failed to generate a random prompt.");
-      setIsLuckyLoading(false);
-      setError("Inspiration failed. Please try a manual search.");
-      setStatus(AppStatus.ERROR);
+      reportError(err, t('error.audio'));
     }
   };
 
-  const handleFindMore = async () => {
-    if (!results) return;
-    
-    const original = query;
-    const currentSummary = results.summary;
-    
-    setStatus(AppStatus.ANALYZING);
-    addLog("Generating a deeper research query...");
-    
+  /**
+   * Researches each option of a "Rust vs Go" style question in parallel,
+   * lays the answers side by side and speaks the verdict.
+   */
+  const performCompareFlow = async (question: string) => {
+    const labels = splitComparison(question);
+    if (labels.length < 2 || flow.busy) return;
+
+    showHome();
+    navigate({ view: 'compare', query: question });
+    addLog(t('log.comparing', { count: labels.length, items: labels.join(', ') }));
+    const next = await pipeline.compare(question, labels, {
+      onItem: item => {
+        addLog(t('log.compareItemReady', { item: item.label, count: item.results.sources.length }));
+        logExcludedSources(item.results);
+      },
+      onCompared: compared => {
+        setComparison(compared);
+        addLog(t('log.compared', { count: compared.rows.length }));
+      },
+    });
+    if (!next?.audioBase64) return;
+
+    setComparison(next);
+    setPlaybackFinished(false);
+    try {
+      await playAudio(next.audioBase64);
+    } catch (err: any) {
+      stopAudio();
+      reportError(err, t('error.compare'));
+    }
+  };
+
+  const handleCompare = () => performCompareFlow(query);
+
+  const finishListening = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setMicLevel(0);
+
+    const { request, hooks, finish } = searchHooks(!!sessionRef.current);
+    finish(await pipeline.transcribe(async () => {
+      const wav = await recorder.stop();
+      addLog(t('log.transcribing'));
+      return wav;
+    }, request, {
+      ...hooks,
+      onQuery: transcript => {
+        setQuery(transcript);
+        addLog(t('log.heard', { query: transcript }));
+      },
+    }));
+  };
+
+  const startListening = async () => {
+    stopAudio();
+    setError(null);
+    if (!sessionRef.current) setLogs([]);
+
+    const recorder = new MicRecorder({
+      onLevel: setMicLevel,
+      onSilence: () => { finishListening(); },
+    });
+    recorderRef.current = recorder;
+
+    try {
+      await recorder.start();
+      flow.begin(AppStatus.LISTENING);
+      addLog(t('log.listening'));
+    } catch (err: any) {
+      recorderRef.current = null;
+      await recorder.cancel();
+      reportError(err, t('error.microphone'));
+    }
+  };
+
+  // A quick tap starts hands-free listening that ends on silence;
+  // holding the button down behaves as push-to-talk.
+  const handleMicDown = () => {
+    micPressedAtRef.current = Date.now();
+    if (status === AppStatus.LISTENING) {
+      finishListening();
+      micPressedAtRef.current = 0;
+      return;
+    }
+    if (flow.busy) return;
+    startListening();
+  };
+
+  const handleMicUp = () => {
+    const heldFor = Date.now() - micPressedAtRef.current;
+    if (micPressedAtRef.current && heldFor > 400 && recorderRef.current?.isRecording) {
+      finishListening();
+    }
+    micPressedAtRef.current = 0;
+  };
+
+  const handlePreviewVoice = async (voiceName: string) => {
+    const cacheKey = `${voiceName}|${settings.ttsModel}|${settings.interfaceLanguage}`;
+    let audioBase64 = previewCacheRef.current.get(cacheKey);
+    if (!audioBase64) {
+      audioBase64 = await provider.generateSpeech(t('settings.previewText', { voice: voiceName }), voiceName);
+      previewCacheRef.current.set(cacheKey, audioBase64);
+    }
+
+    const ctx = getAudioContext();
+    previewPlayerRef.current?.dispose();
+    const preview = new AudioPlayer(ctx);
+    previewPlayerRef.current = preview;
+    preview.enqueue(await decodeAudioData(decodeBase64(audioBase64), ctx, 24000, 1));
+    preview.finish();
+  };
+
+  const handleExportWav = () => {
+    if (!currentTurn?.audioBase64) return;
     try {
-      const deeperQuery = await gemini.refineQuery(original, currentSummary);
-      setQuery(deeperQuery);
-      addLog(`New exploration path: "${deeperQuery}"`);
-      await performSearchFlow(deeperQuery);
+      downloadFile(buildWav(currentTurn), exportFileName(currentTurn, 'wav'), 'audio/wav');
     } catch (err: any) {
-      setError("Failed to generate a deeper query.");
-      setStatus(AppStatus.ERROR);
+      setError(describeError(err, t('error.export'), t));
+    }
+  };
+
+  const handleExportBundle = () => {
+    if (!currentTurn) return;
+    try {
+      downloadFile(buildBundle(currentTurn), exportFileName(currentTurn, 'zip'), 'application/zip');
+      addLog(t('log.exported', { query: currentTurn.query }));
+    } catch (err: any) {
+      setError(describeError(err, t('error.export'), t));
+    }
+  };
+
+  const handleShare = async () => {
+    if (!currentTurn) return;
+    try {
+      const payload = await encodeSharedAnswer(currentTurn.query, currentTurn.results);
+      await navigator.clipboard.writeText(routeUrl({ view: 'shared', payload }));
+      addLog(t('log.shareCopied'));
+    } catch (err: any) {
+      setError(describeError(err, t('error.share'), t));
     }
   };
 
   const handleGoBack = () => {
+    showHome();
+    navigate({ view: 'home' });
+  };
+
+  const showHome = () => {
     stopAudio();
     setResults(null);
-    setStatus(AppStatus.IDLE);
+    setComparison(null);
+    setCurrentTurn(null);
+    activateSession(null);
     setLogs([]);
     setPlaybackFinished(false);
   };
 
-  const handleHistoryClick = (item: HistoryItem) => {
+  // Opens one turn of the active session and plays its saved audio.
+  const handleTurnClick = async (turn: SessionTurn) => {
     stopAudio();
-    setResults(item.results);
-    setQuery(item.query);
-    setLogs([`Restored search results for: "${item.query}"`]);
-    setStatus(AppStatus.IDLE);
-    setPlaybackFinished(true);
+    setComparison(null);
+    setResults(turn.results);
+    setCurrentTurn(turn);
+    setQuery(turn.query);
+    setError(null);
+    setHighlightedSource(null);
+
+    if (!turn.audioBase64) {
+      setPlaybackFinished(true);
+      return;
+    }
+
+    setPlaybackFinished(false);
+    flow.playback('playing');
+    addLog(t('log.replayingSaved', { query: turn.query }));
+    try {
+      await playAudio(turn.audioBase64, turn.audioSegments);
+    } catch (err: any) {
+      reportError(err, t('error.savedAudio'));
+    }
+  };
+
+  const handleSessionClick = (item: Session) => {
+    openSession(item);
+    navigate({ view: 'session', sessionId: item.id, query: item.title });
+  };
+
+  const openSession = (item: Session) => {
+    activateSession(item);
+    setLogs([t('log.restored', { title: item.title, count: item.turns.length })]);
+    handleTurnClick(item.turns[item.turns.length - 1]);
+  };
+
+  // Shows an answer decoded from a share link; it is saved like any other
+  // session, and its audio is only synthesized if the user presses Replay.
+  const openSharedAnswer = async (payload: string) => {
+    showHome();
+    try {
+      const shared = await decodeSharedAnswer(payload);
+      const turn: SessionTurn = {
+        id: Date.now().toString(),
+        query: shared.query,
+        timestamp: Date.now(),
+        results: shared.results,
+      };
+      const next = sessionFromTurn(turn);
+      activateSession(next);
+      storeSession(next);
+      setQuery(shared.query);
+      setResults(shared.results);
+      setCurrentTurn(turn);
+      setPlaybackFinished(true);
+      addLog(t('log.openedShared', { query: shared.query }));
+      navigate({ view: 'session', sessionId: next.id, query: next.title }, true);
+    } catch (err: any) {
+      reportError(err, t('error.invalidLinkMessage'));
+    }
+  };
+
+  // Shows whatever the address bar points at, e.g. on load or Back/Forward.
+  const applyRoute = (route: Route, list: Session[] = sessions) => {
+    switch (route.view) {
+      case 'home':
+        showHome();
+        break;
+      case 'search':
+        showHome();
+        setQuery(route.query);
+        performSearchFlow(route.query);
+        break;
+      case 'compare':
+        showHome();
+        setQuery(route.query);
+        performCompareFlow(route.query);
+        break;
+      case 'session': {
+        const item = list.find(s => s.id === route.sessionId);
+        if (item) openSession(item);
+        else applyRoute(route.query ? { view: 'search', query: route.query } : { view: 'home' }, list);
+        break;
+      }
+      case 'shared':
+        openSharedAnswer(route.payload);
+        break;
+    }
+  };
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  // The address bar is read once history has loaded, since it may point at a saved session.
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.list()
+      .catch(err => {
+        console.error('Failed to load history', err);
+        return [];
+      })
+      .then(list => {
+        if (cancelled) return;
+        setSessions(list);
+        applyRouteRef.current(parseRoute(), list);
+      });
+    const onPopState = () => applyRouteRef.current(parseRoute());
+    window.addEventListener('popstate', onPopState);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('popstate', onPopState);
+    };
+  }, []);
+
+  const handleQueueAdd = (queries: string[]) => {
+    if (queries.length === 0) return;
+    queue.add(queries);
+    addLog(t('log.queueAdded', { count: queries.length }));
+  };
+
+  // Finished items are saved like any other search, so they also show up in history.
+  const handleQueueItemDone = (item: QueueItem) => {
+    storeSession(sessionFromTurn(item.turn!));
+    addLog(t('log.queueReady', { query: item.query }));
+    logExcludedSources(item.turn!.results);
+  };
+
+  const playQueueItem = (id: string) => {
+    const turn = queue.items.find(item => item.id === id)?.turn;
+    if (!turn) return;
+    activateSession(sessions.find(s => s.id === turn.id) ?? sessionFromTurn(turn));
+    handleTurnClick(turn);
+    // After handleTurnClick, whose stopAudio ends any earlier playlist.
+    playlistIdRef.current = id;
+    setPlaylistId(id);
+    addLog(t('log.playlistPlaying', { query: turn.query }));
+  };
+
+  // Moves on to the next finished item once one ends; items still being
+  // researched are skipped.
+  const advancePlaylist = () => {
+    const items = queue.items;
+    const index = items.findIndex(item => item.id === playlistIdRef.current);
+    const next = index < 0 ? undefined : items.slice(index + 1).find(item => item.turn);
+    if (next) {
+      playQueueItem(next.id);
+    } else {
+      playlistIdRef.current = null;
+      setPlaylistId(null);
+    }
+  };
+  queueEventsRef.current = { onDone: handleQueueItemDone, onEnded: advancePlaylist };
+
+  const handlePlayAll = () => {
+    const first = queue.items.find(item => item.turn);
+    if (first) playQueueItem(first.id);
+  };
+
+  const handleExportPlaylist = () => {
+    const turns = queue.items.flatMap(item => item.turn ? [item.turn] : []);
+    if (turns.length === 0) return;
+    try {
+      downloadFile(buildPlaylistBundle(turns), `playlist-${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+      addLog(t('log.playlistExported'));
+    } catch (err: any) {
+      setError(describeError(err, t('error.export'), t));
+    }
+  };
+
+  // Briefings run in the background like the queue, so they never touch `flow`
+  // and a failure only shows up in the panel and the log.
+  const handleGenerateBriefing = async () => {
+    const { topics } = briefingConfig;
+    if (briefingProgress || topics.length === 0) return;
+    setBriefingError(null);
+    addLog(t('log.briefingGenerating', { count: topics.length }));
+    const controller = new AbortController();
+    briefingSignalRef.current = controller.signal;
+    try {
+      const episode = await generateBriefing(provider, topics, t, settings.interfaceLanguage, setBriefingProgress, controller.signal);
+      setEpisodes(prev => [episode, ...prev]);
+      historyStore.saveEpisode(episode).catch(err => console.error('Failed to save briefing', err));
+      if (episode.skippedTopics.length > 0) addLog(t('log.briefingSkipped', { topics: episode.skippedTopics.join(', ') }));
+      addLog(t('log.briefingReady', { date: formatBriefingDate(episode.date, settings.interfaceLanguage) }));
+    } catch (err) {
+      console.error(err);
+      setBriefingError(err);
+      addLog(t('log.error', { title: describeError(err, t('error.briefing'), t).title }));
+    } finally {
+      briefingSignalRef.current = null;
+      setBriefingProgress(null);
+    }
+  };
+  const generateBriefingRef = useRef(handleGenerateBriefing);
+  generateBriefingRef.current = handleGenerateBriefing;
+
+  const playEpisode = async (episode: BriefingEpisode) => {
+    // The open answer would otherwise follow the briefing's player.
+    showHome();
+    navigate({ view: 'home' });
+    setEpisodeId(episode.id);
+    flow.playback('playing');
+    addLog(t('log.briefingPlaying', { date: formatBriefingDate(episode.date, settings.interfaceLanguage) }));
+    try {
+      await playAudio(episode.audioBase64, episode.audioSegments);
+    } catch (err: any) {
+      reportError(err, t('error.savedAudio'));
+    }
+  };
+
+  const handleRemoveEpisode = (id: string) => {
+    if (id === episodeId) stopAudio();
+    setEpisodes(prev => prev.filter(episode => episode.id !== id));
+    historyStore.removeEpisode(id).catch(err => console.error('Failed to delete briefing', err));
+  };
+
+  // Today's episode is generated on open only once we know it doesn't exist yet.
+  useEffect(() => {
+    let cancelled = false;
+    historyStore.listEpisodes()
+      .catch(err => {
+        console.error('Failed to load briefings', err);
+        return [];
+      })
+      .then(list => {
+        if (cancelled) return;
+        setEpisodes(list);
+        if (isBriefingDue(loadBriefingConfig(), list)) generateBriefingRef.current();
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleClearHistory = async () => {
+    if (sessions.length === 0 || !window.confirm(t('history.confirmClear'))) return;
+    setSessions([]);
+    try {
+      await historyStore.clear();
+    } catch (err) {
+      console.error('Failed to clear history', err);
+    }
+  };
+
+  const isSearching = status !== AppStatus.IDLE && status !== AppStatus.PLAYING && status !== AppStatus.PAUSED && status !== AppStatus.ERROR;
+  const isAudioActive = status === AppStatus.PLAYING || status === AppStatus.PAUSED;
+  const canCompare = splitComparison(query).length >= 2;
+  const citedSources = new Set(results?.citations?.flatMap(c => c.sourceIndices) ?? []);
+  const hasResults = !!(results || session || comparison);
+  // Turns other than the open one collapse into cards around it; while a
+  // follow-up streams, every stored turn sits above it.
+  const openTurnIndex = session && currentTurn ? session.turns.findIndex(turn => turn.id === currentTurn.id) : -1;
+  const earlierTurns = session ? (openTurnIndex >= 0 ? session.turns.slice(0, openTurnIndex) : session.turns) : [];
+  const laterTurns = session && openTurnIndex >= 0 ? session.turns.slice(openTurnIndex + 1) : [];
+
+  // Plays what's loaded: resumes a pause, or starts over once stopped or ended.
+  const handleResume = () => {
+    const current = playerRef.current;
+    if (current?.state === 'paused') current.play();
+    else if (current?.state !== 'playing' && !isSearching) handleReplay();
+  };
+
+  const handleTogglePlayback = () => {
+    if (!currentTurn && !comparison) return false;
+    if (playerRef.current?.state === 'playing') playerRef.current.pause();
+    else handleResume();
+  };
+
+  const handleEscape = () => {
+    if (isShortcutsOpen) setIsShortcutsOpen(false);
+    else if (isSettingsOpen) setIsSettingsOpen(false);
+    else if (isQueueOpen) setIsQueueOpen(false);
+    else if (isBriefingOpen) setIsBriefingOpen(false);
+    else if (document.activeElement === searchInputRef.current) searchInputRef.current?.blur();
+    else handleStop();
+  };
+
+  // The sidebar lists the newest session first, so -1 steps to a newer one.
+  // Only while the history list has focus; elsewhere the arrows scroll the page.
+  const openAdjacentSession = (step: number) => {
+    const list = historyListRef.current;
+    if (!list?.contains(document.activeElement) || sessions.length === 0 || isSearching) return false;
+    const index = session ? sessions.findIndex(s => s.id === session.id) : -1;
+    const next = sessions[index < 0 ? 0 : index + step];
+    if (!next || next.id === session?.id) return;
+    handleSessionClick(next);
+    list.querySelector<HTMLElement>(`[data-session-id="${next.id}"]`)?.focus();
   };
 
-  const isSearching = status !== AppStatus.IDLE && status !== AppStatus.PLAYING && status !== AppStatus.ERROR;
+  const shortcuts: Shortcut[] = [
+    { keys: ['/'], label: 'shortcuts.focusSearch', run: () => searchInputRef.current?.focus() },
+    { keys: [' '], label: 'shortcuts.playPause', run: handleTogglePlayback },
+    { keys: ['Escape'], label: 'shortcuts.stop', run: handleEscape, whileTyping: true },
+    { keys: ['l'], label: 'shortcuts.lucky', run: () => { handleFeelingLucky(); } },
+    { keys: ['d'], label: 'shortcuts.diveDeeper', run: () => { if (results && !isSearching) handleFindMore(); } },
+    { keys: ['ArrowUp'], label: 'shortcuts.previousSession', run: () => openAdjacentSession(-1) },
+    { keys: ['ArrowDown'], label: 'shortcuts.nextSession', run: () => openAdjacentSession(1) },
+    { keys: ['?'], label: 'shortcuts.help', run: () => setIsShortcutsOpen(open => !open) },
+  ];
+  useKeyboardShortcuts(shortcuts);
+
+  const playingEpisode = episodeId ? episodes.find(episode => episode.id === episodeId) : undefined;
+  useMediaSession(
+    playingEpisode
+      ? formatBriefingDate(playingEpisode.date, settings.interfaceLanguage)
+      : currentTurn && player ? currentTurn.query : null,
+    t(playingEpisode ? 'briefing.title' : 'summary.title'),
+    status === AppStatus.PLAYING ? 'playing' : status === AppStatus.PAUSED ? 'paused' : 'none',
+    {
+      play: handleResume,
+      pause: () => playerRef.current?.pause(),
+      stop: handleStop,
+      seekBy: seconds => playerRef.current?.skip(seconds),
+    },
+  );
+
+  const renderTurnCard = (turn: SessionTurn) => (
+    <SessionTurnCard
+      key={turn.id}
+      turn={turn}
+      index={session!.turns.indexOf(turn)}
+      onSelect={() => handleTurnClick(turn)}
+    />
+  );
 
   return (
+    <TranslationContext.Provider value={t}>
     <div className="min-h-screen flex dark:bg-[#202124] bg-white transition-colors duration-300">
+
+      <button
+        onClick={() => setIsSettingsOpen(true)}
+        className="fixed top-4 right-4 z-[70] p-2 bg-[#303134] rounded-full hover:bg-[#3c4043] transition-all text-[#9aa0a6]"
+        title={t('app.settings')}
+      >
+        <SettingsIcon className="w-5 h-5" />
+      </button>
+
+      <button
+        onClick={() => setIsShortcutsOpen(true)}
+        className="fixed top-4 right-16 z-[70] p-2 bg-[#303134] rounded-full hover:bg-[#3c4043] transition-all text-[#9aa0a6]"
+        title={t('shortcuts.open')}
+      >
+        <Keyboard className="w-5 h-5" />
+      </button>
+
+      <button
+        onClick={() => setIsQueueOpen(true)}
+        className="fixed top-4 right-28 z-[70] p-2 bg-[#303134] rounded-full hover:bg-[#3c4043] transition-all text-[#9aa0a6]"
+        title={t('queue.open')}
+      >
+        <ListMusic className="w-5 h-5" />
+        {queueItems.some(item => isQueued(item) || item.status === AppStatus.SEARCHING || item.status === AppStatus.GENERATING_AUDIO) && (
+          <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
+        )}
+      </button>
+
+      <QueuePanel
+        isOpen={isQueueOpen}
+        items={queueItems}
+        playingId={playlistId}
+        onAdd={handleQueueAdd}
+        onRetry={id => queue.retry(id)}
+        onRemove={id => queue.remove(id)}
+        onPlay={playQueueItem}
+        onPlayAll={handlePlayAll}
+        onExport={handleExportPlaylist}
+        onClear={() => queue.clear()}
+        onClose={() => setIsQueueOpen(false)}
+      />
+
+      <button
+        onClick={() => setIsBriefingOpen(true)}
+        className="fixed top-4 right-40 z-[70] p-2 bg-[#303134] rounded-full hover:bg-[#3c4043] transition-all text-[#9aa0a6]"
+        title={t('briefing.open')}
+      >
+        <Newspaper className="w-5 h-5" />
+        {briefingProgress && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-500 animate-pulse" />}
+      </button>
+
+      <BriefingPanel
+        isOpen={isBriefingOpen}
+        config={briefingConfig}
+        episodes={episodes}
+        playingId={isAudioActive ? episodeId : null}
+        progress={briefingProgress}
+        error={briefingError}
+        locale={settings.interfaceLanguage}
+        onConfigChange={setBriefingConfig}
+        onGenerate={handleGenerateBriefing}
+        onPlay={playEpisode}
+        onStop={handleStop}
+        onRemove={handleRemoveEpisode}
+        onClose={() => setIsBriefingOpen(false)}
+      />
+
+      <ShortcutsHelp isOpen={isShortcutsOpen} shortcuts={shortcuts} onClose={() => setIsShortcutsOpen(false)} />
+
+      <SettingsDrawer
+        isOpen={isSettingsOpen}
+        settings={settings}
+        onChange={setSettings}
+        onClose={() => setIsSettingsOpen(false)}
+        onPreviewVoice={handlePreviewVoice}
+      />
       
       {/* Sidebar - Search History */}
       <aside className={`fixed left-0 top-0 h-full bg-[#171717] border-r border-[#303134] transition-all duration-300 z-[60] flex flex-col ${isSidebarOpen ? 'w-64' : 'w-0 overflow-hidden'}`}>
         <div className="p-4 flex items-center justify-between border-b border-[#303134]">
           <h2 className="text-sm font-bold text-[#9aa0a6] uppercase tracking-wider flex items-center gap-2">
-            <History className="w-4 h-4" /> History
+            <History className="w-4 h-4" /> {t('history.title')}
           </h2>
-          <button onClick={handleGoBack} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6]" title="New Search">
-            <Plus className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-1">
+            <button onClick={handleClearHistory} disabled={sessions.length === 0} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6] disabled:opacity-30" title={t('history.clear')}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button onClick={handleGoBack} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6]" title={t('history.new')}>
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
         </div>
-        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
-          {history.length === 0 ? (
+        <div ref={historyListRef} className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {sessions.length === 0 ? (
             <div className="p-4 text-xs text-[#5f6368] text-center italic mt-10">
-              No recent searches
+              {t('history.empty')}
             </div>
           ) : (
-            history.map((item) => (
+            sessions.map((item) => (
               <button
                 key={item.id}
-                onClick={() => handleHistoryClick(item)}
-                className={`w-full text-left p-3 rounded-lg text-sm transition-all hover:bg-[#303134] group truncate ${results === item.results ? 'bg-[#303134] text-blue-400' : 'text-[#e8eaed]'}`}
+                data-session-id={item.id}
+                onClick={() => handleSessionClick(item)}
+                className={`w-full text-left p-3 rounded-lg text-sm transition-all hover:bg-[#303134] group ${session?.id === item.id ? 'bg-[#303134] text-blue-400' : 'text-[#e8eaed]'}`}
               >
-                {item.query}
+                <div className="truncate">{item.title}</div>
+                <div className="text-[10px] text-[#5f6368] mt-0.5 flex items-center gap-1">
+                  {new Date(item.updatedAt).toLocaleString()}
+                  {item.turns.length > 1 && (
+                    <span className="flex items-center gap-0.5"><MessagesSquare className="w-3 h-3" /> {item.turns.length}</span>
+                  )}
+                  {item.turns.some(turn => turn.audioBase64) && <Volume2 className="w-3 h-3" />}
+                </div>
               </button>
             ))
           )}
@@ -239,7 +1161,7 @@ const App: React.FC = () => {
              className="text-xs text-[#9aa0a6] hover:text-white transition-colors flex items-center gap-2"
            >
              <ChevronRight className={`w-4 h-4 transition-transform ${isSidebarOpen ? 'rotate-180' : ''}`} />
-             {isSidebarOpen ? 'Collapse' : 'Expand'}
+             {t(isSidebarOpen ? 'history.collapse' : 'history.expand')}
            </button>
         </div>
       </aside>
@@ -248,20 +1170,21 @@ const App: React.FC = () => {
       <div className={`flex-1 flex flex-col transition-all duration-300 ${isSidebarOpen ? 'ml-64' : 'ml-0'}`}>
         
         {/* Search Header / Top Bar */}
-        <div className={`w-full flex flex-col items-center transition-all duration-700 ease-in-out ${results ? 'pt-6 pb-6 border-b border-[#3c4043] bg-[#202124] sticky top-0 z-50' : 'pt-[15vh] pb-8'}`}>
-          <div className={`flex ${results ? 'flex-row items-center gap-6' : 'flex-col items-center'} w-full max-w-4xl px-4 md:px-8 relative`}>
+        <div className={`w-full flex flex-col items-center transition-all duration-700 ease-in-out ${hasResults ? 'pt-6 pb-6 border-b border-[#3c4043] bg-[#202124] sticky top-0 z-50' : 'pt-[15vh] pb-8'}`}>
+          <div className={`flex ${hasResults ? 'flex-row items-center gap-6' : 'flex-col items-center'} w-full max-w-4xl px-4 md:px-8 relative`}>
             
             {/* Sidebar toggle button when closed */}
             {!isSidebarOpen && (
               <button 
                 onClick={() => setIsSidebarOpen(true)}
                 className="absolute -left-12 p-2 bg-[#303134] rounded-full hover:bg-[#3c4043] transition-all text-[#9aa0a6]"
+                title={t('history.show')}
               >
                 <History className="w-5 h-5" />
               </button>
             )}
 
-            <div className={`flex items-baseline gap-1 transition-all ${results ? 'scale-75 origin-left' : 'hidden'}`}>
+            <div className={`flex items-baseline gap-1 transition-all ${hasResults ? 'scale-75 origin-left' : 'hidden'}`}>
               <span className="text-3xl font-bold tracking-tight text-[#4285F4]">G</span>
               <span className="text-3xl font-bold tracking-tight text-[#EA4335]">e</span>
               <span className="text-3xl font-bold tracking-tight text-[#FBBC05]">m</span>
@@ -270,7 +1193,7 @@ const App: React.FC = () => {
               <span className="text-3xl font-bold tracking-tight text-[#EA4335]">i</span>
             </div>
 
-            {!results && (
+            {!hasResults && (
               <div className="flex flex-col items-center gap-2 mb-10 w-full animate-in fade-in duration-700">
                 <div className="flex items-baseline gap-1">
                   <span className="text-4xl md:text-6xl font-bold tracking-tight text-[#4285F4]">G</span>
@@ -282,41 +1205,58 @@ const App: React.FC = () => {
                   <span className="ml-2 px-2 py-0.5 rounded bg-blue-600 text-white text-xs font-bold uppercase self-center">Sonic</span>
                 </div>
                 <p className="text-sm text-slate-400 font-medium flex items-center gap-2">
-                  Powered by Gemini TTS & Search Grounding
+                  {t('app.tagline')}
                 </p>
               </div>
             )}
 
-            <div className={`transition-all duration-500 ${results ? 'flex-1' : 'w-full max-w-2xl'}`}>
+            <div className={`transition-all duration-500 ${hasResults ? 'flex-1' : 'w-full max-w-2xl'}`}>
               <form onSubmit={handleSearch} className="relative w-full group">
                 <div className={`relative flex items-center bg-[#303134] border border-[#5f6368] rounded-full px-5 py-2.5 search-shadow transition-all group-focus-within:border-transparent group-focus-within:bg-[#3c4043]`}>
-                  <Search className="w-4 h-4 text-[#9aa0a6] mr-3" />
+                  {status === AppStatus.LISTENING ? (
+                    <div className="mr-3"><MicLevelMeter level={micLevel} /></div>
+                  ) : (
+                    <Search className="w-4 h-4 text-[#9aa0a6] mr-3" />
+                  )}
                   <input
+                    ref={searchInputRef}
                     type="text"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
-                    placeholder="Ask anything..."
-                    disabled={isSearching || isLuckyLoading}
+                    placeholder={t(status === AppStatus.LISTENING ? 'search.listening' : session ? 'search.placeholderFollowUp' : 'search.placeholder')}
+                    disabled={status === AppStatus.LISTENING || status === AppStatus.TRANSCRIBING}
                     className="flex-1 bg-transparent outline-none text-white text-base placeholder:text-[#9aa0a6]"
                   />
-                  {query && !isSearching && !isLuckyLoading && (
-                    <button type="button" onClick={() => setQuery('')} className="p-1 hover:bg-[#5f6368]/20 rounded-full">
+                  {query && !isSearching && (
+                    <button type="button" onClick={() => setQuery('')} className="p-1 hover:bg-[#5f6368]/20 rounded-full" title={t('search.clear')}>
                       <X className="w-4 h-4 text-[#9aa0a6]" />
                     </button>
                   )}
-                  {(isSearching || isLuckyLoading) && <Loader2 className="w-4 h-4 text-blue-400 animate-spin ml-2" />}
+                  {isSearching && status !== AppStatus.LISTENING && <Loader2 className="w-4 h-4 text-blue-400 animate-spin ml-2" />}
+                  {(status === AppStatus.LISTENING || !isSearching) && (
+                    <button
+                      type="button"
+                      onPointerDown={handleMicDown}
+                      onPointerUp={handleMicUp}
+                      onPointerLeave={handleMicUp}
+                      className={`p-1 ml-1 rounded-full transition-colors ${status === AppStatus.LISTENING ? 'bg-red-500/20 text-red-400 animate-pulse' : 'text-[#9aa0a6] hover:bg-[#5f6368]/20'}`}
+                      title={t(status === AppStatus.LISTENING ? 'search.stopListening' : 'search.voice')}
+                    >
+                      <Mic className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </form>
             </div>
 
             {/* Go Back to Search Button */}
-            {results && (
+            {hasResults && (
               <button 
                 onClick={handleGoBack}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-[#9aa0a6] hover:text-white hover:bg-[#303134] transition-all ml-4 shrink-0"
               >
                 <Home className="w-4 h-4" />
-                <span className="hidden md:inline">Go back to search</span>
+                <span className="hidden md:inline">{t('app.goBack')}</span>
               </button>
             )}
           </div>
@@ -324,10 +1264,10 @@ const App: React.FC = () => {
 
         <main className="w-full max-w-4xl mx-auto px-4 md:px-8 mt-8 flex flex-col gap-10 animate-in fade-in duration-500 pb-20">
           
-          {!results && !isSearching && !error && !isLuckyLoading && status === AppStatus.IDLE && (
+          {!hasResults && !isSearching && !error && status === AppStatus.IDLE && (
             <div className="flex justify-center gap-3">
               <button onClick={handleSearch} className="bg-[#303134] text-[#e8eaed] px-4 py-2 rounded border border-transparent hover:border-[#5f6368] hover:bg-[#3c4043] transition-all text-sm">
-                Gemini Search
+                {t('home.search')}
               </button>
               
               <div className="relative group/workshop">
@@ -338,50 +1278,91 @@ const App: React.FC = () => {
                   className="bg-[#303134] text-[#e8eaed] px-4 py-2 rounded border border-transparent hover:border-[#5f6368] hover:bg-[#3c4043] transition-all text-sm flex items-center gap-2 disabled:opacity-50"
                 >
                   <Hammer className="w-4 h-4 text-[#34A853]" />
-                  Workshop
+                  {t('home.workshop')}
                 </button>
                 {/* Custom Tooltip */}
                 <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 px-3 py-2 bg-[#171717] text-white text-[11px] rounded-lg opacity-0 group-hover/workshop:opacity-100 transition-all duration-300 whitespace-nowrap pointer-events-none border border-[#303134] shadow-xl z-[70] transform scale-95 group-hover/workshop:scale-100">
-                  Start typing then press this button to have gemini work on it for you
+                  {t('home.workshopHint')}
                   {/* Tooltip Arrow */}
                   <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-[#171717]"></div>
                 </div>
               </div>
 
+              <button
+                type="button"
+                onClick={handleCompare}
+                disabled={!canCompare}
+                className="bg-[#303134] text-[#e8eaed] px-4 py-2 rounded border border-transparent hover:border-[#5f6368] hover:bg-[#3c4043] transition-all text-sm flex items-center gap-2 disabled:opacity-50"
+                title={t('home.compareHint')}
+              >
+                <Columns3 className="w-4 h-4 text-[#4285F4]" />
+                {t('home.compare')}
+              </button>
+
               <button 
                 type="button" 
                 onClick={handleFeelingLucky} 
                 className="bg-[#303134] text-[#e8eaed] px-4 py-2 rounded border border-transparent hover:border-[#5f6368] hover:bg-[#3c4043] transition-all text-sm flex items-center gap-2"
               >
                 <Dices className="w-4 h-4 text-[#FBBC05]" />
-                I'm Feeling Lucky
+                {t('home.lucky')}
               </button>
             </div>
           )}
 
+          {comparison && (
+            <ComparisonView
+              comparison={comparison}
+              isPlaying={status === AppStatus.PLAYING}
+              isAudioActive={isAudioActive}
+              busy={isSearching}
+              onReplay={handleReplay}
+              onPlayPause={handlePlayPause}
+              onStop={handleStop}
+            />
+          )}
+
+          {/* Earlier turns of the session */}
+          {earlierTurns.length > 0 && (
+            <div className="flex flex-col gap-3">
+              {earlierTurns.map(renderTurnCard)}
+            </div>
+          )}
+
           {/* 1. Grounding Sources */}
           {results && (
             <div className="animate-in fade-in slide-in-from-top-4 duration-500">
+              {session && (earlierTurns.length > 0 || laterTurns.length > 0) && (
+                <div className="flex items-center gap-2 text-lg text-[#e8eaed] mb-6 px-1">
+                  <CornerDownRight className="w-5 h-5 shrink-0 text-blue-400" />
+                  <span className="truncate">{currentTurn?.query ?? query}</span>
+                </div>
+              )}
               <h3 className="text-sm font-bold text-[#9aa0a6] uppercase tracking-wider mb-6 px-1 flex items-center gap-2">
-                <Globe className="w-4 h-4" /> Grounding Sources
+                <Globe className="w-4 h-4" /> {t('sources.title')}
               </h3>
+              {isThinlySourced(results) && (
+                <div className="mb-4 px-4 py-3 rounded-2xl border border-yellow-500/30 bg-yellow-500/5 text-sm text-yellow-300 flex items-start gap-2">
+                  <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" /> {t('sources.thinlySourced')}
+                </div>
+              )}
+              {!!results.excludedSources?.length && (
+                <p className="mb-4 px-1 text-xs text-[#9aa0a6]" title={results.excludedSources.map(source => source.uri).join('\n')}>
+                  {t('sources.excluded', { count: results.excludedSources.length, domains: [...new Set(results.excludedSources.map(sourceDomain))].join(', ') })}
+                </p>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {results.sources.map((source, i) => (
-                  <a
+                  <SourceCard
                     key={i}
-                    href={source.uri}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="group flex flex-col gap-1 p-5 rounded-2xl bg-[#202124] border border-[#3c4043] hover:border-[#5f6368] transition-all hover:bg-[#303134]"
-                  >
-                    <div className="text-xs text-[#9aa0a6] truncate mb-1 flex items-center gap-1">
-                      {new URL(source.uri).hostname}
-                      <ExternalLink className="w-2.5 h-2.5 opacity-0 group-hover:opacity-100 transition-opacity" />
-                    </div>
-                    <div className="text-[#8ab4f8] text-lg font-medium group-hover:underline truncate">
-                      {source.title}
-                    </div>
-                  </a>
+                    source={source}
+                    index={i}
+                    highlighted={highlightedSource === i}
+                    uncited={!!results.citations && !citedSources.has(i)}
+                    onHighlight={setHighlightedSource}
+                    credibility={rateSource(source, settings.sourceFilter)}
+                    language={results.language}
+                  />
                 ))}
               </div>
             </div>
@@ -396,40 +1377,141 @@ const App: React.FC = () => {
                     <Waveform className="w-8 h-8 text-white" />
                   </div>
                   <div>
-                    <h2 className="text-2xl font-medium text-white">Audio Summary</h2>
-                    <p className="text-sm text-[#9aa0a6]">Generative Insight powered by Gemini TTS</p>
+                    <h2 className="text-2xl font-medium text-white">{t('summary.title')}</h2>
+                    <p className="text-sm text-[#9aa0a6]">{t('summary.subtitle')}</p>
                   </div>
                 </div>
                 
                 <div className="flex items-center gap-2">
-                  {status === AppStatus.PLAYING ? (
-                    <button onClick={stopAudio} className="flex items-center gap-2 bg-red-500 hover:bg-red-600 text-white px-6 py-3 rounded-full font-bold transition-all shadow-lg active:scale-95">
-                      <Square className="w-4 h-4 fill-current" /> Stop
-                    </button>
+                  {isAudioActive ? (
+                    <>
+                      <button onClick={handlePlayPause} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-full font-bold transition-all shadow-lg active:scale-95">
+                        {status === AppStatus.PLAYING
+                          ? <><Pause className="w-4 h-4 fill-current" /> {t('summary.pause')}</>
+                          : <><Play className="w-4 h-4 fill-current" /> {t('summary.resume')}</>}
+                      </button>
+                      <button onClick={handleStop} className="p-3 bg-red-500 hover:bg-red-600 text-white rounded-full transition-all shadow-lg active:scale-95" title={t('summary.stop')}>
+                        <Square className="w-4 h-4 fill-current" />
+                      </button>
+                    </>
                   ) : (
-                    <button onClick={() => performSearchFlow(query)} disabled={isSearching} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-full font-bold transition-all shadow-lg active:scale-95 disabled:opacity-50">
-                      <Play className="w-4 h-4 fill-current" /> Replay
+                    <button onClick={handleReplay} disabled={isSearching} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-full font-bold transition-all shadow-lg active:scale-95 disabled:opacity-50">
+                      <Play className="w-4 h-4 fill-current" /> {t('summary.replay')}
                     </button>
                   )}
                 </div>
               </div>
 
               <div className="mb-8">
-                 <Visualizer isActive={status === AppStatus.PLAYING} />
+                 <Visualizer analyser={analyser} isActive={status === AppStatus.PLAYING} variant={visualizerStyle} />
+                 <div className="flex justify-center gap-1 mt-3">
+                   {(['bars', 'waveform', 'radial'] as VisualizerStyle[]).map(style => (
+                     <button
+                       key={style}
+                       onClick={() => setVisualizerStyle(style)}
+                       className={`px-2 py-0.5 rounded text-[10px] uppercase tracking-wider transition-colors ${visualizerStyle === style ? 'bg-[#202124] text-blue-400' : 'text-[#5f6368] hover:text-[#9aa0a6]'}`}
+                     >
+                       {t(`visualizer.${style}`)}
+                     </button>
+                   ))}
+                 </div>
+                 {player && (
+                   <div className="mt-6">
+                     <PlayerControls player={player} isPlaying={status === AppStatus.PLAYING} />
+                   </div>
+                 )}
               </div>
 
-              <p className="text-xl md:text-2xl text-[#e8eaed] leading-relaxed font-light text-center">
-                "{results.summary}"
-              </p>
+              {results.dialogue ? (
+                <DialogueTranscript
+                  dialogue={results.dialogue}
+                  player={player}
+                  isPlaying={status === AppStatus.PLAYING}
+                  summary={results.summary}
+                  citations={results.citations}
+                  highlightedSource={highlightedSource}
+                  onHighlightSource={setHighlightedSource}
+                />
+              ) : (
+                <p lang={results.language} className="text-xl md:text-2xl text-[#e8eaed] leading-relaxed font-light text-center">
+                  "<ReadAlongText
+                    summary={results.summary}
+                    citations={results.citations}
+                    player={player}
+                    isPlaying={status === AppStatus.PLAYING}
+                    highlightedSource={highlightedSource}
+                    onHighlightSource={setHighlightedSource}
+                  />"
+                </p>
+              )}
+
+              <SummaryInsights
+                results={results}
+                onFollowUp={handleSuggestedFollowUp}
+                disabled={status === AppStatus.LISTENING || status === AppStatus.TRANSCRIBING}
+              />
+
+              {currentTurn && (
+                <div className="flex justify-center gap-2 mt-8">
+                  <button
+                    onClick={handleExportWav}
+                    disabled={!currentTurn.audioBase64}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm text-[#e8eaed] bg-[#202124] border border-[#3c4043] hover:border-[#5f6368] transition-all disabled:opacity-40"
+                    title={t(currentTurn.audioBase64 ? 'summary.exportWav' : 'summary.exportWavPending')}
+                  >
+                    <Download className="w-4 h-4" /> WAV
+                  </button>
+                  <button
+                    onClick={handleExportBundle}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm text-[#e8eaed] bg-[#202124] border border-[#3c4043] hover:border-[#5f6368] transition-all"
+                    title={t('summary.exportBundle')}
+                  >
+                    <Package className="w-4 h-4" /> {t('summary.bundle')}
+                  </button>
+                  <button
+                    onClick={handleShare}
+                    className="flex items-center gap-2 px-4 py-2 rounded-full text-sm text-[#e8eaed] bg-[#202124] border border-[#3c4043] hover:border-[#5f6368] transition-all"
+                    title={t('summary.shareHint')}
+                  >
+                    <Share2 className="w-4 h-4" /> {t('summary.share')}
+                  </button>
+                  {session && (
+                    <label
+                      className="flex items-center gap-2 px-4 py-2 rounded-full text-sm text-[#e8eaed] bg-[#202124] border border-[#3c4043] hover:border-[#5f6368] transition-all"
+                      title={t('summary.translateHint')}
+                    >
+                      <Languages className="w-4 h-4" />
+                      <select
+                        value=""
+                        onChange={e => e.target.value && handleTranslate(e.target.value)}
+                        disabled={isSearching}
+                        className="bg-transparent outline-none cursor-pointer"
+                      >
+                        <option value="" disabled>{t('summary.translate')}</option>
+                        {OUTPUT_LANGUAGES.filter(l => l.code !== results.language).map(l => (
+                          <option key={l.code} value={l.code}>{l.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Later turns, when an earlier one is open */}
+          {laterTurns.length > 0 && (
+            <div className="flex flex-col gap-3">
+              {laterTurns.map(renderTurnCard)}
             </div>
           )}
 
           {/* 3. Live Activity Log */}
-          {(logs.length > 0 || isSearching || isLuckyLoading) && (
+          {(logs.length > 0 || isSearching) && (
             <div className="bg-[#171717] border border-[#303134] rounded-2xl p-6 overflow-hidden animate-in fade-in slide-in-from-bottom-4 duration-700">
                <div className="flex items-center gap-2 mb-4 text-xs font-bold text-[#9aa0a6] uppercase tracking-wider">
                  <BrainCircuit className="w-4 h-4 text-blue-400" />
-                 Live Activity Log
+                 {t('activity.title')}
                </div>
                <div className="space-y-3 max-h-48 overflow-y-auto pr-2 custom-scrollbar">
                  {logs.map((log, i) => (
@@ -438,10 +1520,10 @@ const App: React.FC = () => {
                      {log}
                    </div>
                  ))}
-                 {(isSearching || isLuckyLoading) && (
+                 {isSearching && (
                    <div className="text-sm text-blue-400 flex items-center gap-3">
                       <Loader2 className="w-3 h-3 animate-spin" />
-                      Processing next step...
+                      {t('activity.processing')}
                    </div>
                  )}
                  <div ref={logsEndRef} />
@@ -452,17 +1534,17 @@ const App: React.FC = () => {
           {/* 4. Find More Button */}
           {playbackFinished && results && status === AppStatus.IDLE && (
             <div className="flex flex-col items-center gap-4 animate-in slide-in-from-bottom-4 duration-700">
-              <div className="text-xs text-[#9aa0a6] font-bold uppercase tracking-[0.2em] mb-2">Continue Exploration</div>
+              <div className="text-xs text-[#9aa0a6] font-bold uppercase tracking-[0.2em] mb-2">{t('explore.title')}</div>
               <button 
                 onClick={handleFindMore}
                 className="flex items-center gap-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white px-8 py-4 rounded-full font-bold text-lg shadow-xl shadow-blue-900/20 active:scale-95 transition-all group"
               >
                 <Sparkles className="w-5 h-5 group-hover:animate-pulse" />
-                Dive Deeper into Topic
+                {t('explore.button')}
                 <ChevronRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
               </button>
               <p className="text-xs text-slate-500 italic max-w-xs text-center">
-                Gemini will generate a new, more detailed search prompt to expand your knowledge.
+                {t('explore.hint')}
               </p>
             </div>
           )}
@@ -471,22 +1553,22 @@ const App: React.FC = () => {
             <div className="p-6 bg-red-900/10 border border-red-500/20 rounded-2xl text-red-400 flex items-center gap-4">
               <X className="w-6 h-6 shrink-0" />
               <div className="flex-1">
-                <p className="font-bold">Execution Error</p>
-                <p className="text-sm opacity-80">{error}</p>
+                <p className="font-bold">{error.title}</p>
+                <p className="text-sm opacity-80">{error.message}</p>
               </div>
-              <button onClick={() => performSearchFlow(query)} className="p-2 hover:bg-red-500/10 rounded-lg">
+              <button onClick={() => performSearchFlow(query, !!sessionRef.current)} className="p-2 hover:bg-red-500/10 rounded-lg" title={t('error.retry')}>
                 <RefreshCw className="w-5 h-5" />
               </button>
             </div>
           )}
 
-          {!results && !isSearching && !error && !isLuckyLoading && status === AppStatus.IDLE && (
+          {!hasResults && !isSearching && !error && status === AppStatus.IDLE && (
             <div className="flex flex-col items-center justify-center py-20 text-[#9aa0a6]">
               <div className="w-20 h-20 rounded-full bg-[#303134] flex items-center justify-center mb-4 border border-[#3c4043]">
                 <Search className="w-8 h-8 opacity-40" />
               </div>
               <p className="text-center max-w-xs text-sm">
-                Search for anything and Gemini will scour the web to synthesize an audio response for you.
+                {t('home.empty')}
               </p>
             </div>
           )}
@@ -495,12 +1577,13 @@ const App: React.FC = () => {
         <footer className="w-full bg-[#171717] border-t border-[#303134] py-6 mt-auto">
            <div className="max-w-4xl mx-auto px-8 text-center">
              <p className="text-[10px] text-[#5f6368] font-medium tracking-wide uppercase">
-               I'm not affiliated with Google and this is just a side project for no monetary gain.
+               {t('app.footer')}
              </p>
            </div>
         </footer>
       </div>
     </div>
+    </TranslationContext.Provider>
   );
 };
 
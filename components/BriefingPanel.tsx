@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, Newspaper, Play, Plus, Square, Trash2, X } from 'lucide-react';
+import { BriefingEpisode } from '../types';
+import { BriefingConfig, BriefingProgress, formatBriefingDate } from '../services/briefing';
+import { describeError } from '../services/errors';
+import { useTranslation } from './useTranslation';
+
+interface BriefingPanelProps {
+  isOpen: boolean;
+  config: BriefingConfig;
+  episodes: BriefingEpisode[];
+  /** The episode whose audio is playing, if any. */
+  playingId: string | null;
+  /** Set while an episode is being generated. */
+  progress: BriefingProgress | null;
+  /** Why the last generation failed, until the next one starts. */
+  error: unknown;
+  /** Interface language, for dates. */
+  locale: string;
+  onConfigChange: (config: BriefingConfig) => void;
+  onGenerate: () => void;
+  onPlay: (episode: BriefingEpisode) => void;
+  onStop: () => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+export const BriefingPanel: React.FC<BriefingPanelProps> = ({ isOpen, config, episodes, playingId, progress, error, locale, onConfigChange, onGenerate, onPlay, onStop, onRemove, onClose }) => {
+  const t = useTranslation();
+  const [draft, setDraft] = useState('');
+
+  const addTopic = (e: React.FormEvent) => {
+    e.preventDefault();
+    const topic = draft.trim();
+    if (topic && !config.topics.includes(topic)) onConfigChange({ ...config, topics: [...config.topics, topic] });
+    setDraft('');
+  };
+
+  const removeTopic = (topic: string) => {
+    onConfigChange({ ...config, topics: config.topics.filter(item => item !== topic) });
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/40 z-[80]" onClick={onClose} />}
+      <aside
+        className={`fixed right-0 top-0 h-full w-full max-w-sm bg-[#171717] border-l border-[#303134] z-[90] flex flex-col transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+        aria-hidden={!isOpen}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-[#303134]">
+          <h2 className="text-sm font-bold text-[#9aa0a6] uppercase tracking-wider flex items-center gap-2">
+            <Newspaper className="w-4 h-4" /> {t('briefing.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6]" title={t('briefing.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-[#303134] space-y-3">
+          <form onSubmit={addTopic} className="flex gap-2">
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={t('briefing.placeholder')}
+              className="flex-1 bg-[#202124] border border-[#3c4043] rounded-lg px-3 py-2 text-sm text-[#e8eaed] outline-none focus:border-blue-500"
+            />
+            <button type="submit" disabled={!draft.trim()} className="px-3 rounded-lg bg-[#303134] hover:bg-[#3c4043] text-[#e8eaed] transition-colors disabled:opacity-40" title={t('briefing.addTopic')}>
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+          {config.topics.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {config.topics.map(topic => (
+                <span key={topic} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-[#202124] border border-[#3c4043] text-xs text-[#e8eaed]">
+                  {topic}
+                  <button onClick={() => removeTopic(topic)} className="p-0.5 rounded-full hover:bg-[#3c4043] text-[#9aa0a6] hover:text-red-400 transition-colors" title={t('briefing.removeTopic')}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-[#5f6368]">{t('briefing.noTopics')}</p>
+          )}
+          <label className="flex items-center gap-2 text-xs text-[#9aa0a6] cursor-pointer">
+            <input type="checkbox" checked={config.onOpen} onChange={(e) => onConfigChange({ ...config, onOpen: e.target.checked })} className="accent-blue-500" />
+            {t('briefing.onOpen')}
+          </label>
+          <button
+            onClick={onGenerate}
+            disabled={progress !== null || config.topics.length === 0}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-colors disabled:opacity-40"
+          >
+            {progress ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {t(progress.stage === 'searching' ? 'briefing.searching' : 'briefing.voicing', { done: progress.done, count: progress.total })}
+              </>
+            ) : t('briefing.generate')}
+          </button>
+          {error !== null && error !== undefined && !progress && (
+            <p className="flex items-center gap-2 text-xs text-red-400">
+              <AlertCircle className="w-3.5 h-3.5 shrink-0" /> {describeError(error, t('error.briefing'), t).message}
+            </p>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {episodes.length === 0 ? (
+            <p className="p-4 text-sm text-[#5f6368] text-center">{t('briefing.empty')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {episodes.map(episode => (
+                <li key={episode.id} className={`group p-3 rounded-lg transition-colors ${playingId === episode.id ? 'bg-[#202124]' : 'hover:bg-[#202124]'}`}>
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-[#e8eaed] truncate">{formatBriefingDate(episode.date, locale)}</div>
+                      <div className="text-[11px] text-[#9aa0a6] mt-0.5 truncate" title={episode.skippedTopics.length > 0 ? t('briefing.skipped', { topics: episode.skippedTopics.join(', ') }) : undefined}>
+                        {episode.segments.map(segment => segment.topic).join(' · ')}
+                        {episode.skippedTopics.length > 0 && <span className="text-yellow-400"> · {t('briefing.skippedCount', { count: episode.skippedTopics.length })}</span>}
+                      </div>
+                    </div>
+                    {playingId === episode.id ? (
+                      <button onClick={onStop} className="p-1.5 rounded-full hover:bg-[#3c4043] text-blue-400 hover:text-white transition-colors" title={t('summary.stop')}>
+                        <Square className="w-4 h-4 fill-current" />
+                      </button>
+                    ) : (
+                      <button onClick={() => onPlay(episode)} className="p-1.5 rounded-full hover:bg-[#3c4043] text-[#9aa0a6] hover:text-white transition-colors" title={t('briefing.play')}>
+                        <Play className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button onClick={() => onRemove(episode.id)} className="p-1.5 rounded-full opacity-0 group-hover:opacity-100 hover:bg-[#3c4043] text-[#9aa0a6] hover:text-red-400 transition-all" title={t('briefing.remove')}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <details className="mt-2">
+                    <summary className="text-[11px] text-[#5f6368] cursor-pointer hover:text-[#9aa0a6]">{t('briefing.script')}</summary>
+                    <div className="mt-2 space-y-2 text-xs text-[#bdc1c6] leading-relaxed">
+                      {episode.script.map((part, i) => <p key={i}>{part}</p>)}
+                    </div>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Citation, TextSpan } from '../types';
+
+interface CitedTextProps {
+  /** The full summary the citation offsets refer to. */
+  text: string;
+  citations: Citation[];
+  /** Optional slice of `text` to render, e.g. one dialogue turn. */
+  from?: number;
+  to?: number;
+  /** The word being read aloud, if it falls within the rendered slice. */
+  activeRange?: TextSpan | null;
+  highlightedSource: number | null;
+  onHighlightSource: (index: number | null) => void;
+}
+
+export const sourceElementId = (index: number) => `source-${index}`;
+
+/** Renders summary text with numbered footnote markers after each cited span. */
+export const CitedText: React.FC<CitedTextProps> = ({
+  text,
+  citations,
+  from = 0,
+  to = text.length,
+  activeRange,
+  highlightedSource,
+  onHighlightSource,
+}) => {
+  const breakpoints = new Set([from, to]);
+  citations.forEach(c => {
+    if (c.start > from && c.start < to) breakpoints.add(c.start);
+    if (c.end > from && c.end < to) breakpoints.add(c.end);
+  });
+  if (activeRange) {
+    if (activeRange.start > from && activeRange.start < to) breakpoints.add(activeRange.start);
+    if (activeRange.end > from && activeRange.end < to) breakpoints.add(activeRange.end);
+  }
+  const points = [...breakpoints].sort((a, b) => a - b);
+
+  const pieces: React.ReactNode[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    const covering = citations.filter(c => c.start <= a && c.end >= b);
+    const isHighlighted = highlightedSource !== null && covering.some(c => c.sourceIndices.includes(highlightedSource));
+    const isActive = !!activeRange && activeRange.start <= a && activeRange.end >= b;
+
+    pieces.push(
+      <span key={`t${a}`} className={`transition-colors rounded ${isActive ? 'bg-blue-500/40 text-white' : isHighlighted ? 'bg-blue-500/25 text-white' : ''}`}>
+        {text.slice(a, b)}
+      </span>
+    );
+
+    const endingHere = Array.from(new Set<number>(citations.filter(c => c.end === b).flatMap(c => c.sourceIndices))).sort((x, y) => x - y);
+    endingHere.forEach(sourceIndex => {
+      pieces.push(
+        <sup key={`m${b}-${sourceIndex}`}>
+          <a
+            href={`#${sourceElementId(sourceIndex)}`}
+            onMouseEnter={() => onHighlightSource(sourceIndex)}
+            onMouseLeave={() => onHighlightSource(null)}
+            onFocus={() => onHighlightSource(sourceIndex)}
+            onBlur={() => onHighlightSource(null)}
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              document.getElementById(sourceElementId(sourceIndex))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            }}
+            className={`mx-0.5 px-1 rounded text-[0.6em] font-medium no-underline transition-colors ${highlightedSource === sourceIndex ? 'bg-blue-500 text-white' : 'bg-[#202124] text-[#8ab4f8] hover:bg-[#3c4043]'}`}
+          >
+            {sourceIndex + 1}
+          </a>
+        </sup>
+      );
+    });
+  }
+
+  return <>{pieces}</>;
+};
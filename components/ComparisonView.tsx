@@ -0,0 +1,119 @@
+import React from 'react';
+import { Columns3, ExternalLink, Pause, Play, Square } from 'lucide-react';
+import { ComparisonResponse } from '../types';
+import { sourceDomain } from '../services/sources';
+import { useTranslation } from './useTranslation';
+
+interface ComparisonViewProps {
+  comparison: ComparisonResponse;
+  isPlaying: boolean;
+  /** Playing or paused; stopped and finished audio show Replay instead. */
+  isAudioActive: boolean;
+  /** Replay is unavailable while a request runs. */
+  busy: boolean;
+  onReplay: () => void;
+  onPlayPause: () => void;
+  onStop: () => void;
+}
+
+const COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-2 lg:grid-cols-4',
+};
+
+/** A comparison's table and spoken verdict, with each option's own answer and sources in a column. */
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ comparison, isPlaying, isAudioActive, busy, onReplay, onPlayPause, onStop }) => {
+  const t = useTranslation();
+  const { items, rows } = comparison;
+
+  return (
+    <div className="flex flex-col gap-8 animate-in fade-in slide-in-from-top-4 duration-500">
+      <div className="bg-[#303134] rounded-3xl p-6 md:p-10 border border-[#3c4043] shadow-2xl">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className={`p-4 rounded-2xl shrink-0 ${isPlaying ? 'bg-blue-600 animate-pulse' : 'bg-[#202124]'}`}>
+              <Columns3 className="w-8 h-8 text-white" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-2xl font-medium text-white">{t('compare.title')}</h2>
+              <p className="text-sm text-[#9aa0a6] truncate">{comparison.query}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {isAudioActive ? (
+              <>
+                <button onClick={onPlayPause} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-full font-bold transition-all shadow-lg active:scale-95">
+                  {isPlaying
+                    ? <><Pause className="w-4 h-4 fill-current" /> {t('summary.pause')}</>
+                    : <><Play className="w-4 h-4 fill-current" /> {t('summary.resume')}</>}
+                </button>
+                <button onClick={onStop} className="p-3 bg-red-500 hover:bg-red-600 text-white rounded-full transition-all shadow-lg active:scale-95" title={t('summary.stop')}>
+                  <Square className="w-4 h-4 fill-current" />
+                </button>
+              </>
+            ) : (
+              <button onClick={onReplay} disabled={busy || !comparison.audioBase64} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-full font-bold transition-all shadow-lg active:scale-95 disabled:opacity-50">
+                <Play className="w-4 h-4 fill-current" /> {t('summary.replay')}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="text-xs font-bold text-[#9aa0a6] uppercase tracking-wider mb-2">{t('compare.verdict')}</div>
+        <p lang={comparison.language} className="text-xl text-[#e8eaed] leading-relaxed font-light mb-8">{comparison.verdict}</p>
+
+        {rows.length > 0 && (
+          <div className="overflow-x-auto custom-scrollbar">
+            <table lang={comparison.language} className="w-full text-sm text-left border-collapse">
+              <thead>
+                <tr>
+                  <th className="py-2 pr-4 text-xs font-bold text-[#9aa0a6] uppercase tracking-wider">{t('compare.dimension')}</th>
+                  {items.map(item => (
+                    <th key={item.label} className="py-2 px-4 text-[#8ab4f8] font-medium">{item.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.dimension} className="border-t border-[#3c4043] align-top">
+                    <th scope="row" className="py-3 pr-4 font-medium text-[#e8eaed]">{row.dimension}</th>
+                    {row.values.map((value, i) => (
+                      <td key={i} className="py-3 px-4 text-[#bdc1c6] leading-relaxed">{value}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className={`grid grid-cols-1 gap-4 ${COLUMNS[items.length] ?? 'md:grid-cols-2'}`}>
+        {items.map(item => (
+          <div key={item.label} className="flex flex-col gap-4 p-5 rounded-2xl bg-[#202124] border border-[#3c4043]">
+            <h3 className="text-lg font-medium text-[#8ab4f8]">{item.label}</h3>
+            <p lang={item.results.language} className="text-sm text-[#bdc1c6] leading-relaxed">{item.results.summary}</p>
+            <div>
+              <div className="text-xs font-bold text-[#9aa0a6] uppercase tracking-wider mb-2">
+                {t('turn.sources', { count: item.results.sources.length })}
+              </div>
+              <ul className="space-y-2">
+                {item.results.sources.map((source, i) => (
+                  <li key={i}>
+                    <a href={source.uri} target="_blank" rel="noopener noreferrer" className="group flex items-center gap-2 text-xs text-[#9aa0a6] hover:text-[#e8eaed]" title={source.title}>
+                      {source.favicon && <img src={source.favicon} alt="" loading="lazy" className="shrink-0 w-3.5 h-3.5 rounded-sm" />}
+                      <span className="shrink-0">{sourceDomain(source)}</span>
+                      <span className="truncate text-[#8ab4f8] group-hover:underline">{source.title}</span>
+                      <ExternalLink className="shrink-0 w-2.5 h-2.5 opacity-0 group-hover:opacity-100 transition-opacity" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Citation, DialogueTurn, TextSpan } from '../types';
+import { AudioPlayer } from '../services/audioPlayer';
+import { wordAt, wordSpans } from '../services/readAlong';
+import { CitedText } from './CitedText';
+import { activeSegmentIndex, usePlaybackPosition } from './usePlaybackPosition';
+
+const SPEAKER_COLORS = ['text-[#8ab4f8]', 'text-[#81c995]'];
+
+interface DialogueTranscriptProps {
+  dialogue: DialogueTurn[];
+  player: AudioPlayer | null;
+  isPlaying: boolean;
+  /** The "Speaker: text" script the citation offsets refer to. */
+  summary: string;
+  citations?: Citation[];
+  highlightedSource: number | null;
+  onHighlightSource: (index: number | null) => void;
+}
+
+// Each turn is synthesized as its own audio segment, so segment i of the
+// player is turn i of the script.
+export const DialogueTranscript: React.FC<DialogueTranscriptProps> = ({ dialogue, player, isPlaying, summary, citations, highlightedSource, onHighlightSource }) => {
+  const speakers = [...new Set(dialogue.map(turn => turn.speaker))];
+
+  // Where each turn's text starts within the summary, i.e. past "Speaker: ".
+  let lineStart = 0;
+  const textStarts = dialogue.map(turn => {
+    const start = lineStart + turn.speaker.length + 2;
+    lineStart = start + turn.text.length + 1;
+    return start;
+  });
+  const { position, refresh } = usePlaybackPosition(player, isPlaying);
+  const active = player && player.state !== 'stopped' && player.state !== 'ended'
+    ? activeSegmentIndex(player, position)
+    : -1;
+
+  // The word being heard is estimated from how far into its turn's segment
+  // playback is. Offsets are within the turn's own text.
+  let activeWord: TextSpan | null = null;
+  if (active >= 0 && player && dialogue[active]) {
+    const segment = player.segments[active];
+    const text = dialogue[active].text;
+    const words = wordSpans(text, { start: 0, end: text.length });
+    activeWord = words[wordAt(text, words, position - segment.start, segment.duration)] ?? null;
+  }
+
+  const seekTo = (index: number) => {
+    const segment = player?.segments[index];
+    if (!player || !segment) return;
+    player.seek(segment.start);
+    if (player.state === 'stopped' || player.state === 'ended') player.play();
+    refresh();
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-left">
+      {dialogue.map((turn, i) => {
+        const colorIndex = Math.max(0, speakers.indexOf(turn.speaker));
+        const canSeek = !!player?.segments[i];
+        return (
+          <div
+            key={i}
+            onClick={() => seekTo(i)}
+            className={`flex gap-4 p-3 rounded-xl text-left transition-all ${i === active ? 'bg-[#202124] ring-1 ring-blue-500/60' : 'hover:bg-[#202124]/60'} ${canSeek ? 'cursor-pointer' : ''}`}
+          >
+            <span className={`w-16 shrink-0 text-xs font-bold uppercase tracking-wider pt-1.5 ${SPEAKER_COLORS[colorIndex % SPEAKER_COLORS.length]}`}>
+              {turn.speaker}
+            </span>
+            <span className={`text-lg leading-relaxed font-light ${i === active ? 'text-white' : 'text-[#bdc1c6]'}`}>
+              {citations?.length ? (
+                <CitedText
+                  text={summary}
+                  citations={citations}
+                  from={textStarts[i]}
+                  to={textStarts[i] + turn.text.length}
+                  activeRange={i === active && activeWord ? { start: textStarts[i] + activeWord.start, end: textStarts[i] + activeWord.end } : null}
+                  highlightedSource={highlightedSource}
+                  onHighlightSource={onHighlightSource}
+                />
+              ) : (
+                <CitedText
+                  text={turn.text}
+                  citations={[]}
+                  activeRange={i === active ? activeWord : null}
+                  highlightedSource={highlightedSource}
+                  onHighlightSource={onHighlightSource}
+                />
+              )}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+
+const BAR_WEIGHTS = [0.5, 0.8, 1, 0.8, 0.5];
+
+export const MicLevelMeter: React.FC<{ level: number }> = ({ level }) => {
+  return (
+    <div className="flex items-center justify-center gap-0.5 h-4 w-6" aria-hidden="true">
+      {BAR_WEIGHTS.map((weight, i) => (
+        <div
+          key={i}
+          className="w-0.5 bg-red-400 rounded-full transition-all duration-75"
+          style={{ height: `${Math.max(3, Math.min(16, level * weight * 16 + 3))}px` }}
+        />
+      ))}
+    </div>
+  );
+};
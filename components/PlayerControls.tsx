@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { AudioPlayer } from '../services/audioPlayer';
+import { usePlaybackPosition } from './usePlaybackPosition';
+import { useTranslation } from './useTranslation';
+
+const RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+const SKIP_SECONDS = 10;
+
+function formatTime(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+interface PlayerControlsProps {
+  player: AudioPlayer;
+  isPlaying: boolean;
+}
+
+export const PlayerControls: React.FC<PlayerControlsProps> = ({ player, isPlaying }) => {
+  const t = useTranslation();
+  const { position, duration, refresh } = usePlaybackPosition(player, isPlaying);
+  const [rate, setRate] = useState(player.rate);
+
+  const seek = (seconds: number) => {
+    player.seek(seconds);
+    refresh();
+  };
+
+  const skip = (delta: number) => {
+    player.skip(delta);
+    refresh();
+  };
+
+  const changeRate = (value: number) => {
+    player.setRate(value);
+    setRate(value);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={Math.min(position, duration)}
+        onChange={(e) => seek(Number(e.target.value))}
+        disabled={duration === 0}
+        className="w-full accent-blue-500 cursor-pointer disabled:cursor-default"
+        aria-label={t('player.seek')}
+      />
+      <div className="flex items-center justify-between text-xs text-[#9aa0a6]">
+        <span className="tabular-nums w-20">{formatTime(position)} / {formatTime(duration)}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => skip(-SKIP_SECONDS)} className="p-1.5 rounded-full hover:bg-[#202124] hover:text-white transition-colors" title={t('player.back', { seconds: SKIP_SECONDS })}>
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <button onClick={() => skip(SKIP_SECONDS)} className="p-1.5 rounded-full hover:bg-[#202124] hover:text-white transition-colors" title={t('player.forward', { seconds: SKIP_SECONDS })}>
+            <RotateCw className="w-4 h-4" />
+          </button>
+        </div>
+        <select
+          value={rate}
+          onChange={(e) => changeRate(Number(e.target.value))}
+          className="w-20 bg-[#202124] border border-[#3c4043] rounded px-2 py-1 text-xs text-[#e8eaed] outline-none"
+          aria-label={t('player.speed')}
+        >
+          {RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
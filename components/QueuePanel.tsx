@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Clock, Download, ListMusic, Loader2, Play, RotateCcw, Trash2, Upload, Volume2, X } from 'lucide-react';
+import { AppStatus } from '../types';
+import { describeError } from '../services/errors';
+import { MessageKey } from '../services/i18n';
+import { isQueued, QueueItem } from '../services/researchQueue';
+import { useTranslation } from './useTranslation';
+
+interface QueuePanelProps {
+  isOpen: boolean;
+  items: QueueItem[];
+  /** The item the playlist is currently playing, if any. */
+  playingId: string | null;
+  onAdd: (queries: string[]) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onPlay: (id: string) => void;
+  onPlayAll: () => void;
+  onExport: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const STAGE_LABELS: Partial<Record<AppStatus, MessageKey>> = {
+  [AppStatus.SEARCHING]: 'queue.searching',
+  [AppStatus.GENERATING_AUDIO]: 'queue.voicing',
+  [AppStatus.ERROR]: 'queue.failed',
+};
+
+const splitLines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({ isOpen, items, playingId, onAdd, onRetry, onRemove, onPlay, onPlayAll, onExport, onClear, onClose }) => {
+  const t = useTranslation();
+  const [draft, setDraft] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const ready = items.filter(item => item.turn).length;
+
+  const add = () => {
+    onAdd(splitLines(draft));
+    setDraft('');
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    onAdd(splitLines(await file.text()));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const renderStatus = (item: QueueItem) => {
+    if (item.turn) {
+      return item.id === playingId
+        ? <span className="flex items-center gap-1 text-blue-400"><Volume2 className="w-3 h-3" /> {t('queue.playing')}</span>
+        : <span className="flex items-center gap-1 text-green-400"><CheckCircle2 className="w-3 h-3" /> {t('queue.ready')}</span>;
+    }
+    if (isQueued(item)) {
+      return <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {t('queue.queued')}</span>;
+    }
+    if (item.status === AppStatus.ERROR) {
+      return (
+        <span className="flex items-center gap-1 text-red-400" title={describeError(item.error, t('error.queueItem'), t).message}>
+          <AlertCircle className="w-3 h-3" /> {t('queue.failed')}
+        </span>
+      );
+    }
+    return <span className="flex items-center gap-1 text-blue-400"><Loader2 className="w-3 h-3 animate-spin" /> {t(STAGE_LABELS[item.status] ?? 'queue.searching')}</span>;
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/40 z-[80]" onClick={onClose} />}
+      <aside
+        className={`fixed right-0 top-0 h-full w-full max-w-sm bg-[#171717] border-l border-[#303134] z-[90] flex flex-col transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+        aria-hidden={!isOpen}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-[#303134]">
+          <h2 className="text-sm font-bold text-[#9aa0a6] uppercase tracking-wider flex items-center gap-2">
+            <ListMusic className="w-4 h-4" /> {t('queue.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6]" title={t('queue.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-[#303134] space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('queue.placeholder')}
+            rows={4}
+            className="w-full bg-[#202124] border border-[#3c4043] rounded-lg px-3 py-2 text-sm text-[#e8eaed] outline-none focus:border-blue-500 resize-none custom-scrollbar"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={add}
+              disabled={!draft.trim()}
+              className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium transition-colors disabled:opacity-40"
+            >
+              {t('queue.add')}
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-3 rounded-lg bg-[#303134] hover:bg-[#3c4043] text-[#e8eaed] text-sm transition-colors"
+            >
+              <Upload className="w-4 h-4" /> {t('queue.import')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".txt,text/plain" className="hidden" onChange={(e) => importFile(e.target.files?.[0])} />
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <div className="px-4 py-3 flex items-center justify-between gap-2 border-b border-[#303134] text-xs text-[#9aa0a6]">
+            <span>{t('queue.progress', { ready, count: items.length })}</span>
+            <div className="flex items-center gap-1">
+              <button onClick={onPlayAll} disabled={ready === 0} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-[#303134] hover:text-white transition-colors disabled:opacity-40">
+                <Play className="w-3.5 h-3.5" /> {t('queue.playAll')}
+              </button>
+              <button onClick={onExport} disabled={ready === 0} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-[#303134] hover:text-white transition-colors disabled:opacity-40" title={t('queue.exportHint')}>
+                <Download className="w-3.5 h-3.5" /> {t('queue.export')}
+              </button>
+              <button onClick={onClear} className="p-1 rounded hover:bg-[#303134] hover:text-red-400 transition-colors" title={t('queue.clear')}>
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {items.length === 0 ? (
+            <p className="p-4 text-sm text-[#5f6368] text-center">{t('queue.empty')}</p>
+          ) : (
+            <ol className="space-y-1">
+              {items.map((item, i) => (
+                <li
+                  key={item.id}
+                  className={`group flex items-center gap-3 p-3 rounded-lg transition-colors ${item.id === playingId ? 'bg-[#303134]' : 'hover:bg-[#202124]'}`}
+                >
+                  <span className="w-5 shrink-0 text-xs text-[#5f6368] tabular-nums">{i + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-[#e8eaed] truncate">{item.query}</div>
+                    <div className="text-[11px] text-[#9aa0a6] mt-0.5">{renderStatus(item)}</div>
+                  </div>
+                  {item.turn && (
+                    <button onClick={() => onPlay(item.id)} className="p-1.5 rounded-full hover:bg-[#3c4043] text-[#9aa0a6] hover:text-white transition-colors" title={t('queue.play')}>
+                      <Play className="w-4 h-4" />
+                    </button>
+                  )}
+                  {item.status === AppStatus.ERROR && (
+                    <button onClick={() => onRetry(item.id)} className="p-1.5 rounded-full hover:bg-[#3c4043] text-[#9aa0a6] hover:text-white transition-colors" title={t('queue.retry')}>
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => onRemove(item.id)} className="p-1.5 rounded-full opacity-0 group-hover:opacity-100 hover:bg-[#3c4043] text-[#9aa0a6] hover:text-red-400 transition-all" title={t('queue.remove')}>
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
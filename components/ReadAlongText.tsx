@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Citation, TextSpan } from '../types';
+import { AudioPlayer } from '../services/audioPlayer';
+import { sentenceAt, timeSentences, wordAt, wordSpans } from '../services/readAlong';
+import { sentenceSpans } from '../services/sentences';
+import { CitedText } from './CitedText';
+import { usePlaybackPosition } from './usePlaybackPosition';
+import { useTranslation } from './useTranslation';
+
+interface ReadAlongTextProps {
+  summary: string;
+  citations?: Citation[];
+  player: AudioPlayer | null;
+  isPlaying: boolean;
+  highlightedSource: number | null;
+  onHighlightSource: (index: number | null) => void;
+}
+
+/**
+ * The summary, following the audio sentence by sentence and word by word.
+ * Clicking a sentence plays from it.
+ */
+export const ReadAlongText: React.FC<ReadAlongTextProps> = ({ summary, citations, player, isPlaying, highlightedSource, onHighlightSource }) => {
+  const t = useTranslation();
+  const spans = useMemo(() => sentenceSpans(summary), [summary]);
+  const { position, refresh } = usePlaybackPosition(player, isPlaying);
+  const sentences = timeSentences(summary, spans, player?.segments ?? [], player?.complete ?? false);
+  const active = player && player.state !== 'stopped' && player.state !== 'ended'
+    ? sentenceAt(sentences, position)
+    : -1;
+
+  let activeWord: TextSpan | null = null;
+  if (active >= 0) {
+    const timing = sentences[active].timing!;
+    const words = wordSpans(summary, sentences[active]);
+    activeWord = words[wordAt(summary, words, position - timing.start, timing.duration)] ?? null;
+  }
+
+  const seekTo = (index: number) => {
+    const timing = sentences[index].timing;
+    if (!player || !timing) return;
+    player.seek(timing.start);
+    if (player.state === 'stopped' || player.state === 'ended') player.play();
+    refresh();
+  };
+
+  return (
+    <>
+      {sentences.map((sentence, i) => (
+        // Each sentence owns the whitespace after it, so nothing between them is lost.
+        <span
+          key={sentence.start}
+          onClick={() => seekTo(i)}
+          className={`rounded transition-colors ${i === active ? 'bg-[#202124] text-white' : ''} ${sentence.timing ? 'cursor-pointer hover:bg-[#202124]/60' : ''}`}
+          title={sentence.timing ? t('summary.playFromHere') : undefined}
+          aria-current={i === active ? 'true' : undefined}
+        >
+          <CitedText
+            text={summary}
+            citations={citations ?? []}
+            from={i === 0 ? 0 : sentence.start}
+            to={sentences[i + 1]?.start ?? summary.length}
+            activeRange={i === active ? activeWord : null}
+            highlightedSource={highlightedSource}
+            onHighlightSource={onHighlightSource}
+          />
+        </span>
+      ))}
+    </>
+  );
+};
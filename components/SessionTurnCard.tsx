@@ -0,0 +1,39 @@
+import React from 'react';
+import { CornerDownRight, Globe, Volume2 } from 'lucide-react';
+import { SessionTurn } from '../types';
+import { useTranslation } from './useTranslation';
+
+interface SessionTurnCardProps {
+  turn: SessionTurn;
+  /** Position of the turn within its session, starting at 0. */
+  index: number;
+  onSelect: () => void;
+}
+
+/** Collapsed view of a session turn that isn't the one currently open. */
+export const SessionTurnCard: React.FC<SessionTurnCardProps> = ({ turn, index, onSelect }) => {
+  const t = useTranslation();
+  const { results } = turn;
+  const preview = results.dialogue
+    ? results.dialogue.map(line => `${line.speaker}: ${line.text}`).join(' ')
+    : results.summary;
+
+  return (
+    <button
+      onClick={onSelect}
+      className="w-full text-left p-5 rounded-2xl bg-[#202124] border border-[#3c4043] hover:border-[#5f6368] hover:bg-[#303134] transition-all"
+      title={t('turn.open')}
+    >
+      <div className="flex items-center gap-2 text-sm text-[#e8eaed] mb-2">
+        {index > 0 && <CornerDownRight className="w-4 h-4 shrink-0 text-[#9aa0a6]" />}
+        <span className="truncate font-medium">{turn.query}</span>
+      </div>
+      <p lang={results.language} className="text-sm text-[#9aa0a6] leading-relaxed line-clamp-3">{preview}</p>
+      <div className="flex items-center gap-3 mt-3 text-[11px] text-[#5f6368]">
+        <span className="flex items-center gap-1"><Globe className="w-3 h-3" /> {t('turn.sources', { count: results.sources.length })}</span>
+        {turn.audioBase64 && <span className="flex items-center gap-1"><Volume2 className="w-3 h-3" /> {t('turn.audio')}</span>}
+        <span>{new Date(turn.timestamp).toLocaleTimeString()}</span>
+      </div>
+    </button>
+  );
+};
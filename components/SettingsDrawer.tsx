@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import { Loader2, Play, RotateCcw, Settings as SettingsIcon, X } from 'lucide-react';
+import { PodcastHost, Settings, SourceFilter, SourcePreset, SummaryLength, SummaryMode, UiLanguage } from '../types';
+import { CACHE_TTL_MINUTES, DEFAULT_SETTINGS, KNOWN_MODELS, MODELS_FIXED, OUTPUT_LANGUAGES, PREBUILT_VOICES } from '../services/settings';
+import { SOURCE_PRESETS } from '../services/sourceFilter';
+import { MessageKey, Translate, UI_LANGUAGES } from '../services/i18n';
+import { useTranslation } from './useTranslation';
+
+interface SettingsDrawerProps {
+  isOpen: boolean;
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+  /** Plays a short sample of the given voice. */
+  onPreviewVoice: (voiceName: string) => Promise<void>;
+}
+
+const TEMPERATURE_LABELS: Record<keyof Settings['temperatures'], MessageKey> = {
+  inspire: 'settings.temperatureInspire',
+  workshop: 'settings.temperatureWorkshop',
+  diveDeeper: 'settings.temperatureDiveDeeper',
+  search: 'settings.temperatureSearch',
+};
+
+const MODES: { value: SummaryMode; label: MessageKey }[] = [
+  { value: 'summary', label: 'settings.modeSummary' },
+  { value: 'podcast', label: 'settings.modePodcast' },
+];
+
+const LENGTH_LABELS: Record<SummaryLength, MessageKey> = {
+  'brief': 'settings.lengthBrief',
+  'standard': 'settings.lengthStandard',
+  'deep-dive': 'settings.lengthDeepDive',
+};
+
+const PRESET_LABELS: Record<SourcePreset, MessageKey> = {
+  'any': 'settings.sourcesAny',
+  'no-social': 'settings.sourcesNoSocial',
+  'academic': 'settings.sourcesAcademic',
+  'allowed-only': 'settings.sourcesAllowedOnly',
+};
+
+function cacheTtlLabel(minutes: number, t: Translate): string {
+  if (minutes === 0) return t('settings.cacheOff');
+  if (minutes % 1440 === 0) return t('settings.cacheDays', { count: minutes / 1440 });
+  if (minutes % 60 === 0) return t('settings.cacheHours', { count: minutes / 60 });
+  return t('settings.cacheMinutes', { count: minutes });
+}
+
+// Empty lines are kept while typing; the filter skips them.
+const splitDomains = (text: string) => text.split('\n');
+
+const labelClass = "text-xs font-bold text-[#9aa0a6] uppercase tracking-wider mb-2 block";
+const inputClass = "w-full bg-[#202124] border border-[#3c4043] rounded-lg px-3 py-2 text-sm text-[#e8eaed] outline-none focus:border-blue-500";
+
+export const SettingsDrawer: React.FC<SettingsDrawerProps> = ({ isOpen, settings, onChange, onClose, onPreviewVoice }) => {
+  const t = useTranslation();
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const update = <K extends keyof Settings>(key: K, value: Settings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const updateHost = (index: 0 | 1, host: Partial<PodcastHost>) => {
+    const hosts: Settings['podcastHosts'] = [settings.podcastHosts[0], settings.podcastHosts[1]];
+    hosts[index] = { ...hosts[index], ...host };
+    update('podcastHosts', hosts);
+  };
+
+  const updateSourceFilter = (filter: Partial<SourceFilter>) => {
+    update('sourceFilter', { ...settings.sourceFilter, ...filter });
+  };
+
+  const preview = async () => {
+    setPreviewing(settings.voiceName);
+    setPreviewError(null);
+    try {
+      await onPreviewVoice(settings.voiceName);
+    } catch (err: any) {
+      setPreviewError(err.message || t('settings.previewFailed'));
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  return (
+    <>
+      {isOpen && <div className="fixed inset-0 bg-black/40 z-[80]" onClick={onClose} />}
+      <aside
+        className={`fixed right-0 top-0 h-full w-full max-w-sm bg-[#171717] border-l border-[#303134] z-[90] flex flex-col transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+        aria-hidden={!isOpen}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-[#303134]">
+          <h2 className="text-sm font-bold text-[#9aa0a6] uppercase tracking-wider flex items-center gap-2">
+            <SettingsIcon className="w-4 h-4" /> {t('settings.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6]" title={t('settings.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-7">
+          <section>
+            <label className={labelClass}>{t('settings.voice')}</label>
+            <div className="flex gap-2">
+              <select
+                value={settings.voiceName}
+                onChange={(e) => update('voiceName', e.target.value)}
+                className={inputClass}
+              >
+                {PREBUILT_VOICES.map(voice => (
+                  <option key={voice.name} value={voice.name}>{voice.name} — {voice.style}</option>
+                ))}
+              </select>
+              <button
+                onClick={preview}
+                disabled={previewing !== null}
+                className="shrink-0 px-3 rounded-lg bg-[#303134] hover:bg-[#3c4043] text-[#e8eaed] transition-colors disabled:opacity-50"
+                title={t('settings.previewVoice')}
+              >
+                {previewing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              </button>
+            </div>
+            {previewError && <p className="text-xs text-red-400 mt-2">{previewError}</p>}
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.format')}</label>
+            <div className="grid grid-cols-2 gap-1 bg-[#202124] p-1 rounded-lg border border-[#3c4043]">
+              {MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => update('mode', mode.value)}
+                  className={`py-1.5 rounded-md text-sm transition-colors ${settings.mode === mode.value ? 'bg-blue-600 text-white' : 'text-[#9aa0a6] hover:text-white'}`}
+                >
+                  {t(mode.label)}
+                </button>
+              ))}
+            </div>
+            {settings.mode === 'podcast' && (
+              <div className="mt-3 space-y-2">
+                <p className="text-[11px] text-[#5f6368]">{t('settings.podcastHint')}</p>
+                {([0, 1] as const).map(index => (
+                  <div key={index} className="flex gap-2">
+                    <input
+                      value={settings.podcastHosts[index].name}
+                      onChange={(e) => updateHost(index, { name: e.target.value.replace(/[:\n]/g, '') })}
+                      className={`${inputClass} w-1/2`}
+                      aria-label={t('settings.hostName', { number: index + 1 })}
+                    />
+                    <select
+                      value={settings.podcastHosts[index].voiceName}
+                      onChange={(e) => updateHost(index, { voiceName: e.target.value })}
+                      className={`${inputClass} w-1/2`}
+                      aria-label={t('settings.hostVoice', { number: index + 1 })}
+                    >
+                      {PREBUILT_VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.length')}</label>
+            <div className="grid grid-cols-3 gap-1 bg-[#202124] p-1 rounded-lg border border-[#3c4043]">
+              {(Object.keys(LENGTH_LABELS) as SummaryLength[]).map(length => (
+                <button
+                  key={length}
+                  onClick={() => update('summaryLength', length)}
+                  className={`py-1.5 rounded-md text-sm transition-colors ${settings.summaryLength === length ? 'bg-blue-600 text-white' : 'text-[#9aa0a6] hover:text-white'}`}
+                >
+                  {t(LENGTH_LABELS[length])}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.language')}</label>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="w-24 shrink-0 text-xs text-[#9aa0a6]">{t('settings.outputLanguage')}</span>
+                <select
+                  value={settings.outputLanguage}
+                  onChange={(e) => update('outputLanguage', e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="auto">{t('settings.outputLanguageAuto')}</option>
+                  {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-24 shrink-0 text-xs text-[#9aa0a6]">{t('settings.interfaceLanguage')}</span>
+                <select
+                  value={settings.interfaceLanguage}
+                  onChange={(e) => update('interfaceLanguage', e.target.value as UiLanguage)}
+                  className={inputClass}
+                >
+                  {UI_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="text-[11px] text-[#5f6368] mt-1">{t('settings.languageHint')}</p>
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.sources')}</label>
+            <div className="space-y-2">
+              <select
+                value={settings.sourceFilter.preset}
+                onChange={(e) => updateSourceFilter({ preset: e.target.value as SourcePreset })}
+                className={inputClass}
+                aria-label={t('settings.sourcesPreset')}
+              >
+                {SOURCE_PRESETS.map(preset => <option key={preset} value={preset}>{t(PRESET_LABELS[preset])}</option>)}
+              </select>
+              <textarea
+                value={settings.sourceFilter.allow.join('\n')}
+                onChange={(e) => updateSourceFilter({ allow: splitDomains(e.target.value) })}
+                rows={2}
+                placeholder={t('settings.sourcesAllow')}
+                aria-label={t('settings.sourcesAllow')}
+                className={`${inputClass} resize-none`}
+              />
+              <textarea
+                value={settings.sourceFilter.block.join('\n')}
+                onChange={(e) => updateSourceFilter({ block: splitDomains(e.target.value) })}
+                rows={2}
+                placeholder={t('settings.sourcesBlock')}
+                aria-label={t('settings.sourcesBlock')}
+                className={`${inputClass} resize-none`}
+              />
+            </div>
+            <p className="text-[11px] text-[#5f6368] mt-1">{t('settings.sourcesHint')}</p>
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.speakingStyle')}</label>
+            <textarea
+              value={settings.speakingStyle}
+              onChange={(e) => update('speakingStyle', e.target.value)}
+              rows={3}
+              placeholder={DEFAULT_SETTINGS.speakingStyle}
+              className={`${inputClass} resize-none`}
+            />
+            <p className="text-[11px] text-[#5f6368] mt-1">{t('settings.speakingStyleHint')}</p>
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.models')}</label>
+            {MODELS_FIXED ? (
+              <div className="space-y-2">
+                <select value={settings.searchModel} onChange={(e) => update('searchModel', e.target.value)} className={inputClass} aria-label={t('settings.searchModel')}>
+                  {KNOWN_MODELS.search.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+                <select value={settings.ttsModel} onChange={(e) => update('ttsModel', e.target.value)} className={inputClass} aria-label={t('settings.ttsModel')}>
+                  {KNOWN_MODELS.tts.map(m => <option key={m} value={m}>{m}</option>)}
+                </select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <input list="search-models" value={settings.searchModel} onChange={(e) => update('searchModel', e.target.value)} className={inputClass} aria-label={t('settings.searchModel')} />
+                <input list="tts-models" value={settings.ttsModel} onChange={(e) => update('ttsModel', e.target.value)} className={inputClass} aria-label={t('settings.ttsModel')} />
+                <datalist id="search-models">{KNOWN_MODELS.search.map(m => <option key={m} value={m} />)}</datalist>
+                <datalist id="tts-models">{KNOWN_MODELS.tts.map(m => <option key={m} value={m} />)}</datalist>
+              </div>
+            )}
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.temperatures')}</label>
+            <div className="space-y-3">
+              {(Object.keys(TEMPERATURE_LABELS) as (keyof Settings['temperatures'])[]).map(key => (
+                <div key={key}>
+                  <div className="flex justify-between text-xs text-[#9aa0a6] mb-1">
+                    <span>{t(TEMPERATURE_LABELS[key])}</span>
+                    <span className="tabular-nums">{settings.temperatures[key].toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={settings.temperatures[key]}
+                    onChange={(e) => update('temperatures', { ...settings.temperatures, [key]: Number(e.target.value) })}
+                    className="w-full accent-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <label className={labelClass}>{t('settings.cache')}</label>
+            <select
+              value={settings.cacheTtlMinutes}
+              onChange={(e) => update('cacheTtlMinutes', Number(e.target.value))}
+              className={inputClass}
+              aria-label={t('settings.cacheLabel')}
+            >
+              {CACHE_TTL_MINUTES.map(minutes => <option key={minutes} value={minutes}>{cacheTtlLabel(minutes, t)}</option>)}
+            </select>
+            <p className="text-[11px] text-[#5f6368] mt-1">{t('settings.cacheHint')}</p>
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-[#303134]">
+          <button
+            onClick={() => onChange({ ...DEFAULT_SETTINGS, interfaceLanguage: settings.interfaceLanguage })}
+            className="text-xs text-[#9aa0a6] hover:text-white transition-colors flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" /> {t('settings.reset')}
+          </button>
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { Shortcut } from './useKeyboardShortcuts';
+import { useTranslation } from './useTranslation';
+
+const KEY_LABELS: Record<string, MessageKey> = {
+  ' ': 'shortcuts.space',
+  'Escape': 'shortcuts.escape',
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  'ArrowUp': '↑',
+  'ArrowDown': '↓',
+};
+
+interface ShortcutsHelpProps {
+  isOpen: boolean;
+  shortcuts: Shortcut[];
+  onClose: () => void;
+}
+
+export const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ isOpen, shortcuts, onClose }) => {
+  const t = useTranslation();
+  if (!isOpen) return null;
+
+  const keyName = (key: string) => KEY_LABELS[key] ? t(KEY_LABELS[key]) : KEY_SYMBOLS[key] ?? key.toUpperCase();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className="w-full max-w-md bg-[#171717] border border-[#303134] rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-[#303134]">
+          <h2 id="shortcuts-title" className="text-sm font-bold text-[#9aa0a6] uppercase tracking-wider flex items-center gap-2">
+            <Keyboard className="w-4 h-4" /> {t('shortcuts.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-[#303134] rounded transition-colors text-[#9aa0a6]" title={t('shortcuts.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <ul className="p-5 space-y-3">
+          {shortcuts.map(shortcut => (
+            <li key={shortcut.label} className="flex items-center justify-between gap-4 text-sm text-[#e8eaed]">
+              <span>{t(shortcut.label)}</span>
+              <span className="flex gap-1 shrink-0">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="min-w-[2rem] text-center px-2 py-0.5 rounded-md bg-[#202124] border border-[#3c4043] text-xs text-[#bdc1c6] font-mono">
+                    {keyName(key)}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { SearchResult } from '../types';
+import { MessageKey } from '../services/i18n';
+import { Credibility } from '../services/sourceFilter';
+import { sourceDomain } from '../services/sources';
+import { sourceElementId } from './CitedText';
+import { useTranslation } from './useTranslation';
+
+interface SourceCardProps {
+  source: SearchResult;
+  /** Position of the source in the answer, starting at 0. */
+  index: number;
+  highlighted: boolean;
+  /** Set when the answer has citations and none of them points at this source. */
+  uncited: boolean;
+  onHighlight: (index: number | null) => void;
+  credibility: Credibility;
+  /** Language of the snippet, which is quoted from the answer. */
+  language?: string;
+}
+
+const CREDIBILITY_BADGES: Record<Exclude<Credibility, 'unrated'>, { label: MessageKey; className: string }> = {
+  trusted: { label: 'credibility.trusted', className: 'text-green-400 border-green-500/30' },
+  government: { label: 'credibility.government', className: 'text-blue-300 border-blue-500/30' },
+  academic: { label: 'credibility.academic', className: 'text-purple-300 border-purple-500/30' },
+  reference: { label: 'credibility.reference', className: 'text-teal-300 border-teal-500/30' },
+  social: { label: 'credibility.social', className: 'text-yellow-400 border-yellow-500/30' },
+};
+
+// `publishedAt` may be just a year and month, which Date would read as UTC.
+function formatPublished(publishedAt: string): string {
+  const [year, month, day] = publishedAt.split('-').map(Number);
+  return new Date(year, month - 1, day || 1).toLocaleDateString(undefined, day
+    ? { year: 'numeric', month: 'short', day: 'numeric' }
+    : { year: 'numeric', month: 'short' });
+}
+
+export const SourceCard: React.FC<SourceCardProps> = ({ source, index, highlighted, uncited, onHighlight, credibility, language }) => {
+  const t = useTranslation();
+  const [faviconFailed, setFaviconFailed] = useState(false);
+  const badge = credibility === 'unrated' ? null : CREDIBILITY_BADGES[credibility];
+
+  return (
+    <a
+      id={sourceElementId(index)}
+      href={source.uri}
+      target="_blank"
+      rel="noopener noreferrer"
+      onMouseEnter={() => onHighlight(index)}
+      onMouseLeave={() => onHighlight(null)}
+      className={`group flex flex-col gap-1 p-5 rounded-2xl bg-[#202124] border transition-all hover:bg-[#303134] ${highlighted ? 'border-blue-500 ring-1 ring-blue-500/60' : 'border-[#3c4043] hover:border-[#5f6368]'} ${uncited ? 'opacity-60' : ''}`}
+    >
+      <div className="text-xs text-[#9aa0a6] truncate mb-1 flex items-center gap-1">
+        <span className="shrink-0 px-1.5 rounded bg-[#303134] text-[#8ab4f8] font-medium">{index + 1}</span>
+        {source.favicon && !faviconFailed && (
+          <img src={source.favicon} alt="" loading="lazy" onError={() => setFaviconFailed(true)} className="shrink-0 w-4 h-4 rounded-sm" />
+        )}
+        <span className="truncate">{sourceDomain(source)}</span>
+        {source.publishedAt && (
+          <span className="shrink-0" title={t('sources.publishedHint')}>· {formatPublished(source.publishedAt)}</span>
+        )}
+        {badge && (
+          <span className={`shrink-0 px-1.5 rounded border text-[10px] uppercase tracking-wider ${badge.className}`} title={t('credibility.hint')}>{t(badge.label)}</span>
+        )}
+        {uncited && (
+          <span className="shrink-0 px-1.5 rounded border border-[#5f6368] text-[10px] uppercase tracking-wider" title={t('sources.notCitedHint')}>{t('sources.notCited')}</span>
+        )}
+        <ExternalLink className="shrink-0 w-2.5 h-2.5 opacity-0 group-hover:opacity-100 transition-opacity" />
+      </div>
+      <div className="text-[#8ab4f8] text-lg font-medium group-hover:underline truncate">
+        {source.title}
+      </div>
+      {source.snippet && (
+        <p lang={language} className="text-sm text-[#9aa0a6] leading-relaxed line-clamp-2" title={t('sources.snippetHint')}>
+          {source.snippet}
+        </p>
+      )}
+    </a>
+  );
+};
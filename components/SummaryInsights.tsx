@@ -0,0 +1,77 @@
+import React from 'react';
+import { ArrowRight, ListChecks } from 'lucide-react';
+import { SearchResponse } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useTranslation } from './useTranslation';
+
+interface SummaryInsightsProps {
+  results: SearchResponse;
+  onFollowUp: (question: string) => void;
+  /** Follow-ups can't be asked while the microphone is in use. */
+  disabled?: boolean;
+}
+
+function confidenceLabel(confidence: number): { label: MessageKey; className: string } {
+  if (confidence >= 0.75) return { label: 'insights.confidenceHigh', className: 'text-green-400 border-green-500/30' };
+  if (confidence >= 0.45) return { label: 'insights.confidenceMedium', className: 'text-yellow-400 border-yellow-500/30' };
+  return { label: 'insights.confidenceLow', className: 'text-red-400 border-red-500/30' };
+}
+
+/** Key points, the model's confidence and suggested follow-up questions for a summary. */
+export const SummaryInsights: React.FC<SummaryInsightsProps> = ({ results, onFollowUp, disabled }) => {
+  const t = useTranslation();
+  const keyPoints = results.keyPoints ?? [];
+  const followUps = results.followUps ?? [];
+  if (keyPoints.length === 0 && followUps.length === 0 && results.confidence === undefined) return null;
+
+  const confidence = results.confidence !== undefined ? confidenceLabel(results.confidence) : null;
+
+  return (
+    <div className="mt-8 flex flex-col gap-6 text-left">
+      {(keyPoints.length > 0 || confidence) && (
+        <div>
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <div className="flex items-center gap-2 text-xs font-bold text-[#9aa0a6] uppercase tracking-wider">
+              <ListChecks className="w-4 h-4 text-blue-400" /> {t('insights.keyPoints')}
+            </div>
+            {confidence && (
+              <span
+                className={`px-2 py-0.5 rounded-full border text-[11px] ${confidence.className}`}
+                title={t('insights.confidenceHint', { percent: Math.round(results.confidence! * 100) })}
+              >
+                {t(confidence.label)}
+              </span>
+            )}
+          </div>
+          <ul lang={results.language} className="space-y-2">
+            {keyPoints.map((point, i) => (
+              <li key={i} className="flex items-start gap-3 text-sm text-[#bdc1c6] leading-relaxed">
+                <span className="mt-2 w-1.5 h-1.5 rounded-full bg-blue-500/60 shrink-0" />
+                {point}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {followUps.length > 0 && (
+        <div>
+          <div className="text-xs font-bold text-[#9aa0a6] uppercase tracking-wider mb-3">{t('insights.askNext')}</div>
+          <div lang={results.language} className="flex flex-wrap gap-2">
+            {followUps.map(question => (
+              <button
+                key={question}
+                onClick={() => onFollowUp(question)}
+                disabled={disabled}
+                className="group flex items-center gap-2 px-4 py-2 rounded-full text-sm text-[#e8eaed] bg-[#202124] border border-[#3c4043] hover:border-blue-500/50 hover:bg-[#303134] transition-all disabled:opacity-40"
+              >
+                {question}
+                <ArrowRight className="w-3.5 h-3.5 text-[#9aa0a6] group-hover:text-blue-400 group-hover:translate-x-0.5 transition-all" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
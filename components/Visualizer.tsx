@@ -1,21 +1,117 @@
+import React, { useEffect, useRef } from 'react';
 
-import React from 'react';
+export type VisualizerStyle = 'bars' | 'waveform' | 'radial';
+
+interface VisualizerProps {
+  analyser: AnalyserNode | null;
+  isActive: boolean;
+  variant?: VisualizerStyle;
+}
+
+const BAR_COLOR = '#60a5fa';
+const IDLE_COLOR = '#5f6368';
+
+function drawBars(g: CanvasRenderingContext2D, w: number, h: number, data: Uint8Array | null) {
+  const count = 32;
+  const gap = 3;
+  const barWidth = (w - gap * (count - 1)) / count;
+  g.fillStyle = data ? BAR_COLOR : IDLE_COLOR;
+  for (let i = 0; i < count; i++) {
+    // Speech energy sits in the lower bins, so sample those more densely.
+    const bin = data ? data[Math.floor(Math.pow(i / count, 1.6) * data.length * 0.7)] : 0;
+    const barHeight = Math.max(3, (bin / 255) * h);
+    g.beginPath();
+    g.roundRect(i * (barWidth + gap), (h - barHeight) / 2, barWidth, barHeight, barWidth / 2);
+    g.fill();
+  }
+}
+
+function drawWaveform(g: CanvasRenderingContext2D, w: number, h: number, data: Uint8Array | null) {
+  g.lineWidth = 2;
+  g.strokeStyle = data ? BAR_COLOR : IDLE_COLOR;
+  g.beginPath();
+  if (!data) {
+    g.moveTo(0, h / 2);
+    g.lineTo(w, h / 2);
+  } else {
+    for (let i = 0; i < data.length; i++) {
+      const x = (i / (data.length - 1)) * w;
+      const y = (data[i] / 255) * h;
+      if (i === 0) g.moveTo(x, y);
+      else g.lineTo(x, y);
+    }
+  }
+  g.stroke();
+}
+
+function drawRadial(g: CanvasRenderingContext2D, w: number, h: number, data: Uint8Array | null) {
+  const cx = w / 2;
+  const cy = h / 2;
+  const radius = Math.min(w, h) * 0.22;
+  const spokes = 48;
+  g.lineWidth = 2;
+  g.lineCap = 'round';
+  g.strokeStyle = data ? BAR_COLOR : IDLE_COLOR;
+  for (let i = 0; i < spokes; i++) {
+    const bin = data ? data[Math.floor((i / spokes) * data.length * 0.7)] : 0;
+    const length = 2 + (bin / 255) * (Math.min(w, h) / 2 - radius);
+    const angle = (i / spokes) * Math.PI * 2 - Math.PI / 2;
+    g.beginPath();
+    g.moveTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+    g.lineTo(cx + Math.cos(angle) * (radius + length), cy + Math.sin(angle) * (radius + length));
+    g.stroke();
+  }
+}
+
+const DRAWERS: Record<VisualizerStyle, typeof drawBars> = {
+  bars: drawBars,
+  waveform: drawWaveform,
+  radial: drawRadial,
+};
+
+export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isActive, variant = 'bars' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const g = canvas?.getContext('2d');
+    if (!canvas || !g) return;
+
+    const draw = DRAWERS[variant];
+    const live = isActive && analyser ? analyser : null;
+    const data = live ? new Uint8Array(variant === 'waveform' ? live.fftSize : live.frequencyBinCount) : null;
+    let frame = 0;
+
+    const render = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const w = canvas.clientWidth;
+      const h = canvas.clientHeight;
+      if (canvas.width !== w * dpr || canvas.height !== h * dpr) {
+        canvas.width = w * dpr;
+        canvas.height = h * dpr;
+      }
+      g.setTransform(dpr, 0, 0, dpr, 0, 0);
+      g.clearRect(0, 0, w, h);
+
+      if (live && data) {
+        if (variant === 'waveform') live.getByteTimeDomainData(data);
+        else live.getByteFrequencyData(data);
+        draw(g, w, h, data);
+        frame = requestAnimationFrame(render);
+      } else {
+        draw(g, w, h, null);
+      }
+    };
+
+    render();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, isActive, variant]);
 
-export const Visualizer: React.FC<{ isActive: boolean }> = ({ isActive }) => {
   return (
-    <div className="flex items-end justify-center space-x-1 h-8">
-      {[...Array(12)].map((_, i) => (
-        <div
-          key={i}
-          className={`w-1 bg-blue-400 rounded-full transition-all duration-300 ${
-            isActive ? 'animate-bounce' : 'h-2'
-          }`}
-          style={{
-            animationDelay: `${i * 0.1}s`,
-            height: isActive ? `${Math.random() * 24 + 8}px` : '4px',
-          }}
-        />
-      ))}
-    </div>
+    <canvas
+      ref={canvasRef}
+      className={`w-full ${variant === 'radial' ? 'h-32' : 'h-16'}`}
+      aria-hidden="true"
+    />
   );
 };
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { MessageKey } from '../services/i18n';
+
+export interface Shortcut {
+  /** `KeyboardEvent.key` values that trigger it; letters match either case. */
+  keys: string[];
+  label: MessageKey;
+  /** Returning false leaves the key to the browser, e.g. so Space can scroll. */
+  run: () => boolean | void;
+  /** Also fires while typing in a text field. */
+  whileTyping?: boolean;
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Runs the shortcut matching each key press on the page. Presses with Ctrl,
+ * Alt or Meta are left to the browser.
+ */
+export function useKeyboardShortcuts(shortcuts: Shortcut[]) {
+  // The handlers close over the latest render, so read them through a ref
+  // instead of re-binding the listener every time.
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.altKey || e.metaKey || e.isComposing) return;
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+      const shortcut = shortcutsRef.current.find(s => s.keys.includes(key));
+      if (!shortcut || (!shortcut.whileTyping && isTyping(e.target))) return;
+      // Also keeps Space from clicking a focused button a second time.
+      if (shortcut.run() !== false) e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+}
@@ -0,0 +1,51 @@
+import { useEffect, useRef } from 'react';
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seekBy: (seconds: number) => void;
+}
+
+const SEEK_SECONDS = 10;
+
+function setActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null) {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Browsers throw for actions they don't support; the others still work.
+  }
+}
+
+/**
+ * Shows the summary being played in the operating system's media controls,
+ * so hardware media keys and lock screens can control it. `title` is null
+ * when nothing is loaded.
+ */
+export function useMediaSession(title: string | null, album: string, state: MediaSessionPlaybackState, handlers: MediaSessionHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    const actions: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => handlersRef.current.play()],
+      ['pause', () => handlersRef.current.pause()],
+      ['stop', () => handlersRef.current.stop()],
+      ['seekbackward', details => handlersRef.current.seekBy(-(details.seekOffset ?? SEEK_SECONDS))],
+      ['seekforward', details => handlersRef.current.seekBy(details.seekOffset ?? SEEK_SECONDS)],
+    ];
+    actions.forEach(([action, handler]) => setActionHandler(action, handler));
+    return () => actions.forEach(([action]) => setActionHandler(action, null));
+  }, []);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = title ? new MediaMetadata({ title, artist: 'Gemini Sonic', album }) : null;
+  }, [title, album]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = state;
+  }, [state]);
+}
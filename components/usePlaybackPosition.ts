@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { AudioPlayer } from '../services/audioPlayer';
+
+/**
+ * Tracks a player's position and duration, polling every frame while it
+ * plays. The duration keeps growing while speech is still streaming in.
+ */
+export function usePlaybackPosition(player: AudioPlayer | null, isPlaying: boolean) {
+  const [position, setPosition] = useState(player?.position ?? 0);
+  const [duration, setDuration] = useState(player?.duration ?? 0);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      setPosition(player?.position ?? 0);
+      setDuration(player?.duration ?? 0);
+      if (player && isPlaying) frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [player, isPlaying]);
+
+  // Lets callers reflect a seek immediately while paused.
+  const refresh = () => setPosition(player?.position ?? 0);
+
+  return { position, duration, refresh };
+}
+
+/** Index of the player segment containing `position`, or -1. */
+export function activeSegmentIndex(player: AudioPlayer | null, position: number): number {
+  if (!player) return -1;
+  const segments = player.segments;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (position >= segments[i].start) return i;
+  }
+  return -1;
+}
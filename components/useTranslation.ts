@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { translateEnglish, Translate } from '../services/i18n';
+
+/** Provided by App for the interface language chosen in Settings. */
+export const TranslationContext = createContext<Translate>(translateEnglish);
+
+export function useTranslation(): Translate {
+  return useContext(TranslationContext);
+}
@@ -2,15 +2,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { CachingProvider } from './services/cachingProvider';
+import { createProvider } from './services/provider';
+import { loadSettings } from './services/settings';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+const settings = loadSettings();
+const provider = new CachingProvider(createProvider(process.env.PROVIDER, settings), settings);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <App provider={provider} />
   </React.StrictMode>
 );
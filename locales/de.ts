@@ -0,0 +1,317 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  'app.tagline': 'Mit Gemini TTS und Search Grounding',
+  'app.settings': 'Einstellungen',
+  'app.goBack': 'Zurück zur Suche',
+  'app.footer': 'Ich stehe in keiner Verbindung zu Google; dies ist nur ein privates Projekt ohne Gewinnabsicht.',
+
+  'search.placeholder': 'Frag, was du willst...',
+  'search.placeholderFollowUp': 'Stell eine Anschlussfrage...',
+  'search.listening': 'Hört zu...',
+  'search.clear': 'Löschen',
+  'search.voice': 'Sprachsuche (tippen oder zum Sprechen gedrückt halten)',
+  'search.stopListening': 'Zuhören beenden',
+
+  'home.search': 'Gemini-Suche',
+  'home.workshop': 'Werkstatt',
+  'home.workshopHint': 'Fang an zu tippen und drück dann diesen Knopf, damit Gemini deine Anfrage verbessert',
+  'home.compare': 'Vergleichen',
+  'home.compareHint': 'Gib zwei bis vier Optionen getrennt durch „vs“ ein, z. B. Rust vs Go für CLIs',
+  'home.lucky': 'Auf gut Glück',
+  'home.empty': 'Such nach allem, was dich interessiert: Gemini durchsucht das Web und fasst die Antwort als Audio zusammen.',
+
+  'history.title': 'Verlauf',
+  'history.show': 'Verlauf anzeigen',
+  'history.clear': 'Verlauf löschen',
+  'history.confirmClear': 'Alle gespeicherten Sitzungen und Aufnahmen löschen?',
+  'history.new': 'Neue Suche',
+  'history.empty': 'Keine letzten Suchen',
+  'history.collapse': 'Einklappen',
+  'history.expand': 'Ausklappen',
+
+  'sources.title': 'Quellen',
+  'sources.notCited': 'Nicht zitiert',
+  'sources.notCitedHint': 'Kein Satz der Zusammenfassung zitiert diese Quelle',
+  'sources.publishedHint': 'Veröffentlichungsdatum, aus der Seitenadresse ermittelt',
+  'sources.snippetHint': 'Die Stelle der Antwort, die diese Quelle zitiert',
+  'sources.excluded': { one: '{count} Quelle durch deine Quellenfilter ausgeschlossen: {domains}', other: '{count} Quellen durch deine Quellenfilter ausgeschlossen: {domains}' },
+  'sources.thinlySourced': 'Deine Quellenfilter haben die meisten Quellen dieser Antwort entfernt, daher kann ein Teil davon auf ausgeschlossenen Seiten beruhen. Versuche einen weiteren Filter oder frage erneut.',
+  'credibility.hint': 'Anhand der Domain der Seite und deiner Quelleneinstellungen',
+  'credibility.trusted': 'Vertrauenswürdig',
+  'credibility.government': 'Behörde',
+  'credibility.academic': 'Wissenschaft',
+  'credibility.reference': 'Nachschlagewerk',
+  'credibility.social': 'Soziale Medien',
+
+  'summary.title': 'Audio-Zusammenfassung',
+  'summary.subtitle': 'Erstellt mit Gemini TTS',
+  'summary.pause': 'Pause',
+  'summary.resume': 'Fortsetzen',
+  'summary.stop': 'Stopp',
+  'summary.replay': 'Nochmal abspielen',
+  'summary.exportWav': 'Audio als WAV-Datei herunterladen',
+  'summary.exportWavPending': 'Das Audio wird noch erzeugt',
+  'summary.exportBundle': 'Zip mit Audio, Markdown-Transkript und Rohantwort herunterladen',
+  'summary.bundle': 'Paket',
+  'summary.share': 'Teilen',
+  'summary.shareHint': 'Einen Link kopieren, der diese Antwort ohne neue Suche öffnet',
+  'summary.translate': 'Übersetzen',
+  'summary.translateHint': 'Diese Zusammenfassung übersetzen und neu vertonen',
+  'summary.playFromHere': 'Ab diesem Satz abspielen',
+
+  'visualizer.bars': 'Balken',
+  'visualizer.waveform': 'Welle',
+  'visualizer.radial': 'Radial',
+
+  'player.seek': 'Position',
+  'player.back': '{seconds} Sekunden zurück',
+  'player.forward': '{seconds} Sekunden vor',
+  'player.speed': 'Wiedergabegeschwindigkeit',
+
+  'insights.keyPoints': 'Kernaussagen',
+  'insights.askNext': 'Als Nächstes fragen',
+  'insights.confidenceHigh': 'Hohe Sicherheit',
+  'insights.confidenceMedium': 'Mittlere Sicherheit',
+  'insights.confidenceLow': 'Geringe Sicherheit',
+  'insights.confidenceHint': 'Laut Modell stützen die Quellen diese Antwort zu {percent} %',
+
+  'turn.open': 'Diese Frage öffnen und ihr Audio abspielen',
+  'turn.sources': { one: '{count} Quelle', other: '{count} Quellen' },
+  'turn.audio': 'Audio',
+
+  'activity.title': 'Live-Aktivität',
+  'activity.processing': 'Nächster Schritt läuft...',
+
+  'explore.title': 'Weiter erkunden',
+  'explore.button': 'Tiefer in das Thema einsteigen',
+  'explore.hint': 'Gemini stellt in diesem Gespräch eine genauere Anschlussfrage, um dein Wissen zu vertiefen.',
+
+  'shortcuts.title': 'Tastenkürzel',
+  'shortcuts.open': 'Tastenkürzel (?)',
+  'shortcuts.close': 'Schließen',
+  'shortcuts.focusSearch': 'Zum Suchfeld springen',
+  'shortcuts.playPause': 'Wiedergabe oder Pause',
+  'shortcuts.stop': 'Wiedergabe stoppen oder ein Fenster schließen',
+  'shortcuts.lucky': 'Auf gut Glück',
+  'shortcuts.diveDeeper': 'Tiefer in das Thema einsteigen',
+  'shortcuts.previousSession': 'Neuere Sitzung öffnen (Verlaufsliste fokussiert)',
+  'shortcuts.nextSession': 'Ältere Sitzung öffnen (Verlaufsliste fokussiert)',
+  'shortcuts.help': 'Diese Liste anzeigen',
+  'shortcuts.space': 'Leertaste',
+  'shortcuts.escape': 'Esc',
+
+  'queue.title': 'Recherche-Warteschlange',
+  'queue.open': 'Recherche-Warteschlange',
+  'queue.close': 'Schließen',
+  'queue.placeholder': 'Fragen einfügen, eine pro Zeile',
+  'queue.add': 'Zur Warteschlange hinzufügen',
+  'queue.import': '.txt importieren',
+  'queue.empty': 'Füge ein paar Fragen hinzu: Sie werden im Hintergrund recherchiert und vertont und lassen sich nacheinander abspielen.',
+  'queue.progress': { one: '{ready} von {count} fertig', other: '{ready} von {count} fertig' },
+  'queue.playAll': 'Alle abspielen',
+  'queue.export': 'Exportieren',
+  'queue.exportHint': 'Ein Zip mit Audio und Transkript jedes fertigen Eintrags und einer M3U-Playlist herunterladen',
+  'queue.clear': 'Warteschlange leeren',
+  'queue.queued': 'Wartet',
+  'queue.searching': 'Sucht',
+  'queue.voicing': 'Erzeugt Audio',
+  'queue.failed': 'Fehlgeschlagen',
+  'queue.ready': 'Fertig',
+  'queue.playing': 'Läuft',
+  'queue.play': 'Abspielen',
+  'queue.retry': 'Erneut versuchen',
+  'queue.remove': 'Entfernen',
+
+  'briefing.title': 'Tagesbriefing',
+  'briefing.open': 'Tagesbriefing',
+  'briefing.close': 'Schließen',
+  'briefing.placeholder': 'Thema zum Verfolgen hinzufügen',
+  'briefing.addTopic': 'Thema hinzufügen',
+  'briefing.removeTopic': 'Thema entfernen',
+  'briefing.noTopics': 'Füge die Themen hinzu, die du verfolgst, und erhalte jeden Tag eine gesprochene Folge mit dem Neuesten zu jedem.',
+  'briefing.onOpen': 'Heutige Folge beim Öffnen der App erstellen',
+  'briefing.generate': 'Heutiges Briefing erstellen',
+  'briefing.searching': { one: 'Suche {done} von {count} Thema...', other: 'Suche {done} von {count} Themen...' },
+  'briefing.voicing': { one: 'Vertone Teil {done} von {count}...', other: 'Vertone Teil {done} von {count}...' },
+  'briefing.empty': 'Noch keine Folgen.',
+  'briefing.play': 'Folge abspielen',
+  'briefing.remove': 'Folge löschen',
+  'briefing.skipped': 'Keine Neuigkeiten gefunden zu: {topics}',
+  'briefing.skippedCount': { one: '{count} Thema übersprungen', other: '{count} Themen übersprungen' },
+  'briefing.script': 'Transkript',
+  'briefing.scriptIntro': { one: 'Hallo. Hier ist dein Briefing für {date}, mit dem Neuesten zu {count} Thema.', other: 'Hallo. Hier ist dein Briefing für {date}, mit dem Neuesten zu {count} Themen.' },
+  'briefing.scriptFirst': 'Wir beginnen mit {topic}.',
+  'briefing.scriptNext': 'Weiter geht es mit {topic}.',
+  'briefing.scriptLast': 'Und zum Schluss: {topic}.',
+  'briefing.scriptOutro': 'Das war dein Briefing für heute. Bis morgen.',
+
+  'compare.title': 'Vergleich',
+  'compare.verdict': 'Fazit',
+  'compare.dimension': 'Kriterium',
+
+  'step.transcribing': 'Transkription',
+  'step.workshop': 'Werkstatt',
+  'step.inspiring': 'Inspiration',
+  'step.refining': 'Verfeinerung der Anfrage',
+  'step.translating': 'Übersetzung',
+  'step.comparing': 'Vergleich',
+  'step.searching': 'Suche',
+  'step.synthesizing': 'Sprachsynthese',
+  'step.generatingAudio': 'Audioerzeugung',
+
+  'log.error': 'Fehler: {title}',
+  'log.errorDetail': 'Fehler: {title} ({detail})',
+  'log.analyzing': 'Anfrage wird analysiert: „{query}“',
+  'log.analyzingFollowUp': {
+    one: 'Anschlussfrage wird im Kontext von {count} früheren Frage analysiert: „{query}“',
+    other: 'Anschlussfrage wird im Kontext von {count} früheren Fragen analysiert: „{query}“',
+  },
+  'log.searching': 'Google-Suche wird nach aktuellen Informationen befragt...',
+  'log.streamingSummary': 'Zusammenfassung wird empfangen und mit Gemini TTS vertont...',
+  'log.streamingPodcast': 'Podcast-Skript wird empfangen und jede Stimme mit Gemini TTS vertont...',
+  'log.sources': { one: '{count} relevante Quelle gefunden.', other: '{count} relevante Quellen gefunden.' },
+  'log.sourcesExcluded': { one: 'Quellenfilter haben {count} Quelle ausgeschlossen: {domains}', other: 'Quellenfilter haben {count} Quellen ausgeschlossen: {domains}' },
+  'log.thinlySourced': 'Warnung: Die meisten Quellen wurden herausgefiltert, diese Antwort ist daher schwach belegt.',
+  'log.searchTerms': { one: 'Vom Modell verwendeter Suchbegriff: {terms}', other: 'Vom Modell verwendete Suchbegriffe: {terms}' },
+  'log.confidence': 'Sicherheit des Modells bei der Antwort: {percent} %.',
+  'log.language': 'Sprache der Antwort: {language}.',
+  'log.searchCacheHit': 'Suche: aus dem Cache, die frühere Antwort wird wiederverwendet.',
+  'log.searchCacheShared': 'Suche: eine identische Suche läuft bereits und wird mitgenutzt.',
+  'log.searchCacheMiss': 'Suche: nicht im Cache, Gemini wird gefragt.',
+  'log.speechCache': { one: 'Sprache: {hits} von {count} Abschnitt aus dem Cache.', other: 'Sprache: {hits} von {count} Abschnitten aus dem Cache.' },
+  'log.playing': 'Audio-Zusammenfassung wird abgespielt (erstes Audio nach {seconds} s).',
+  'log.playbackFinished': 'Wiedergabe beendet.',
+  'log.generatingAudio': 'Audio für „{query}“ wird erzeugt...',
+  'log.replaying': 'Audio-Zusammenfassung wird erneut abgespielt.',
+  'log.replayingSaved': 'Gespeichertes Audio für „{query}“ wird abgespielt.',
+  'log.workshop': 'Die Gemini-Werkstatt verbessert deine Anfrage: „{query}“...',
+  'log.workshopOutput': 'Ergebnis der Werkstatt: „{query}“',
+  'log.workshopFailed': 'Die Werkstatt konnte die Anfrage nicht verbessern.',
+  'log.inspiring': 'Gemini sucht ein besonderes Thema für dich...',
+  'log.inspired': 'Vorgeschlagene Anfrage: „{query}“',
+  'log.inspireFailed': 'Es konnte keine zufällige Anfrage erzeugt werden.',
+  'log.refining': 'Eine vertiefende Anfrage wird erzeugt...',
+  'log.refined': 'Neuer Erkundungspfad: „{query}“',
+  'log.listening': 'Hört zu... stell deine Frage.',
+  'log.transcribing': 'Deine Frage wird transkribiert...',
+  'log.heard': 'Verstanden: „{query}“',
+  'log.exported': 'Paket der Zusammenfassung für „{query}“ exportiert.',
+  'log.shareCopied': 'Link zum Teilen in die Zwischenablage kopiert.',
+  'log.openedShared': 'Geteilte Antwort auf „{query}“ geöffnet. Drücke „Nochmal abspielen“, um sie anzuhören.',
+  'log.queueAdded': { one: '{count} Frage zur Recherche-Warteschlange hinzugefügt.', other: '{count} Fragen zur Recherche-Warteschlange hinzugefügt.' },
+  'log.queueReady': 'Warteschlange: „{query}“ ist fertig.',
+  'log.playlistPlaying': 'Playlist: „{query}“ wird abgespielt.',
+  'log.playlistExported': 'Playlist exportiert.',
+  'log.restored': {
+    one: 'Sitzung „{title}“ mit {count} Frage wiederhergestellt.',
+    other: 'Sitzung „{title}“ mit {count} Fragen wiederhergestellt.',
+  },
+  'log.translating': 'Zusammenfassung wird übersetzt ({language})...',
+  'log.translated': 'Übersetzt ({language}).',
+  'log.comparing': 'Recherchiere {count} Optionen parallel: {items}...',
+  'log.compareItemReady': { one: '„{item}“ recherchiert ({count} Quelle).', other: '„{item}“ recherchiert ({count} Quellen).' },
+  'log.compared': { one: 'Optionen nach {count} Kriterium verglichen; das Fazit wird vertont...', other: 'Optionen nach {count} Kriterien verglichen; das Fazit wird vertont...' },
+  'log.briefingGenerating': { one: 'Erstelle das Tagesbriefing zu {count} Thema...', other: 'Erstelle das Tagesbriefing zu {count} Themen...' },
+  'log.briefingReady': 'Das Briefing für {date} ist fertig.',
+  'log.briefingSkipped': 'Keine Neuigkeiten zu {topics}; im Briefing ausgelassen.',
+  'log.briefingPlaying': 'Spiele das Briefing für {date} ab.',
+  'log.stepTiming': '{step}: {seconds} s.',
+
+  'error.retry': 'Erneut versuchen',
+  'error.search': 'Die Suche ist fehlgeschlagen. Bitte versuch es noch einmal.',
+  'error.audio': 'Das Audio konnte nicht erzeugt werden.',
+  'error.workshop': 'Die Werkstatt konnte die Anfrage nicht verbessern.',
+  'error.inspire': 'Keine Inspiration gefunden. Versuch es mit einer eigenen Suche.',
+  'error.refine': 'Es konnte keine vertiefende Anfrage erzeugt werden.',
+  'error.voice': 'Die Spracheingabe ist fehlgeschlagen. Bitte versuch es noch einmal.',
+  'error.microphone': 'Das Mikrofon konnte nicht gestartet werden.',
+  'error.export': 'Der Export ist fehlgeschlagen.',
+  'error.share': 'Der Link zum Teilen konnte nicht erstellt werden.',
+  'error.queueItem': 'Die Recherche zu dieser Frage ist fehlgeschlagen.',
+  'error.savedAudio': 'Das gespeicherte Audio konnte nicht abgespielt werden.',
+  'error.translate': 'Die Übersetzung ist fehlgeschlagen.',
+  'error.compare': 'Vergleich fehlgeschlagen.',
+  'error.briefing': 'Das Briefing konnte nicht erstellt werden.',
+  'error.quotaTitle': 'Anfragelimit erreicht',
+  'error.quotaRetryAfter': 'Gerade zu viele Anfragen. Versuch es in {seconds} Sekunden noch einmal.',
+  'error.quotaMessage': 'Zu viele Anfragen, oder das API-Kontingent ist aufgebraucht. Warte eine Minute und versuch es erneut, oder prüfe dein Kontingent in Google AI Studio.',
+  'error.authTitle': 'API-Schlüssel abgelehnt',
+  'error.authMessage': 'Prüfe, ob GEMINI_API_KEY einen gültigen Schlüssel mit Zugriff auf die gewählten Modelle enthält.',
+  'error.safetyTitle': 'Von Sicherheitsfiltern blockiert',
+  'error.safetyMessage': 'Gemini hat die Antwort verweigert. Versuch, die Frage anders zu formulieren.',
+  'error.timeoutTitle': 'Zeitüberschreitung',
+  'error.timeoutMessage': 'Gemini hat zu lange gebraucht. Prüfe deine Verbindung und versuch es erneut.',
+  'error.networkTitle': 'Verbindungsproblem',
+  'error.networkMessage': 'Der Server ist nicht erreichbar. Prüfe deine Internetverbindung und ob der API-Proxy läuft.',
+  'error.serverTitle': 'Dienst nicht verfügbar',
+  'error.serverMessage': 'Gemini hat gerade Probleme. Versuch es gleich noch einmal.',
+  'error.emptyAudioTitle': 'Kein Audio erhalten',
+  'error.emptyAudioMessage': 'Das Sprachmodell hat kein Audio geliefert. Versuch es erneut oder wähle in den Einstellungen eine andere Stimme oder ein anderes TTS-Modell.',
+  'error.missingAudioTitle': 'Noch kein Audio',
+  'error.missingAudioMessage': 'Für diese Antwort ist noch kein Audio gespeichert. Spiele sie einmal ab und exportiere sie dann erneut.',
+  'error.emptyResponseTitle': 'Leere Antwort',
+  'error.emptyResponseMessage': 'Gemini hat nichts Verwertbares geantwortet. Versuch es erneut oder wähle in den Einstellungen ein anderes Suchmodell, wenn das öfter passiert.',
+  'error.noSpeechTitle': 'Nichts gehört',
+  'error.noSpeechMessage': 'Es wurde keine Sprache erkannt. Prüfe, ob das richtige Mikrofon ausgewählt ist, sprich etwas näher daran und versuch es erneut.',
+  'error.invalidLinkTitle': 'Defekter Link',
+  'error.invalidLinkMessage': 'Dieser Link ist unvollständig oder beschädigt. Lass ihn dir erneut schicken oder suche selbst nach der Frage.',
+  'error.micDeniedTitle': 'Mikrofonzugriff verweigert',
+  'error.micDeniedMessage': 'Erlaube dieser Seite in den Browsereinstellungen den Zugriff auf das Mikrofon und versuche es erneut.',
+  'error.micMissingTitle': 'Kein Mikrofon gefunden',
+  'error.micMissingMessage': 'Schließe ein Mikrofon an und versuche es erneut.',
+  'error.micBusyTitle': 'Mikrofon belegt',
+  'error.micBusyMessage': 'Eine andere Anwendung verwendet das Mikrofon. Schließe sie und versuche es erneut.',
+  'error.micUnavailableTitle': 'Mikrofon nicht verfügbar',
+  'error.micUnavailableMessage': 'Das Mikrofon konnte nicht gestartet werden. Prüfe die Mikrofoneinstellungen deines Browsers und versuche es erneut.',
+  'error.unknownTitle': 'Etwas ist schiefgelaufen',
+
+  'settings.title': 'Einstellungen',
+  'settings.close': 'Schließen',
+  'settings.voice': 'Stimme',
+  'settings.previewVoice': 'Diese Stimme anhören',
+  'settings.previewFailed': 'Die Hörprobe ist fehlgeschlagen.',
+  'settings.previewText': 'Hallo, ich bin {voice}. So klingen deine Suchzusammenfassungen.',
+  'settings.format': 'Format',
+  'settings.modeSummary': 'Zusammenfassung',
+  'settings.modePodcast': 'Podcast',
+  'settings.podcastHint': 'Zwei Moderatoren besprechen die Ergebnisse, jeder mit eigener Stimme.',
+  'settings.hostName': 'Name von Moderator {number}',
+  'settings.hostVoice': 'Stimme von Moderator {number}',
+  'settings.length': 'Länge der Zusammenfassung',
+  'settings.lengthBrief': 'Kurz',
+  'settings.lengthStandard': 'Normal',
+  'settings.lengthDeepDive': 'Ausführlich',
+  'settings.language': 'Sprache',
+  'settings.outputLanguage': 'Antworten auf',
+  'settings.outputLanguageAuto': 'Sprache der Frage',
+  'settings.interfaceLanguage': 'Oberfläche',
+  'settings.languageHint': 'Zusammenfassungen werden in dieser Sprache geschrieben und gesprochen.',
+  'settings.sources': 'Quellen',
+  'settings.sourcesPreset': 'Quellenprofil',
+  'settings.sourcesAny': 'Alle Seiten',
+  'settings.sourcesNoSocial': 'Soziale Medien ausschließen',
+  'settings.sourcesAcademic': 'Nur Wissenschaft und .gov',
+  'settings.sourcesAllowedOnly': 'Nur meine Positivliste',
+  'settings.sourcesAllow': 'Immer erlauben, eine Domain pro Zeile',
+  'settings.sourcesBlock': 'Immer blockieren, eine Domain pro Zeile',
+  'settings.sourcesHint': 'Lenkt, auf welchen Seiten Gemini sucht, und entfernt unpassende Quellen. Subdomains sind eingeschlossen.',
+  'settings.speakingStyle': 'Sprechstil',
+  'settings.speakingStyleHint': 'Wird vor der Zusammenfassung an das TTS-Modell gesendet, z. B. „Sprich ruhig und langsam wie ein Radiomoderator“.',
+  'settings.models': 'Modelle',
+  'settings.searchModel': 'Suchmodell',
+  'settings.ttsModel': 'TTS-Modell',
+  'settings.temperatures': 'Temperaturen',
+  'settings.temperatureInspire': 'Auf gut Glück',
+  'settings.temperatureWorkshop': 'Werkstatt',
+  'settings.temperatureDiveDeeper': 'Vertiefen',
+  'settings.temperatureSearch': 'Suchzusammenfassung',
+  'settings.cache': 'Cache',
+  'settings.cacheLabel': 'Ergebnisse wiederverwenden für',
+  'settings.cacheOff': 'Aus',
+  'settings.cacheMinutes': { one: '{count} Minute', other: '{count} Minuten' },
+  'settings.cacheHours': { one: '{count} Stunde', other: '{count} Stunden' },
+  'settings.cacheDays': { one: '{count} Tag', other: '{count} Tage' },
+  'settings.cacheHint': 'Wird eine Suche oder Zusammenfassung innerhalb dieser Zeit wiederholt, werden die früheren Ergebnisse und das Audio verwendet, statt Gemini erneut aufzurufen.',
+  'settings.reset': 'Auf Standard zurücksetzen',
+};
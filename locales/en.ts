@@ -0,0 +1,320 @@
+// The source catalog: every other locale must define the same keys. Values
+// with `one`/`other` forms are chosen by `{count}`; `{name}` placeholders are
+// filled from the params passed to the translator.
+export const en = {
+  'app.tagline': 'Powered by Gemini TTS & Search Grounding',
+  'app.settings': 'Settings',
+  'app.goBack': 'Go back to search',
+  'app.footer': "I'm not affiliated with Google and this is just a side project for no monetary gain.",
+
+  'search.placeholder': 'Ask anything...',
+  'search.placeholderFollowUp': 'Ask a follow-up...',
+  'search.listening': 'Listening...',
+  'search.clear': 'Clear',
+  'search.voice': 'Search by voice (tap, or hold to talk)',
+  'search.stopListening': 'Stop listening',
+
+  'home.search': 'Gemini Search',
+  'home.workshop': 'Workshop',
+  'home.workshopHint': 'Start typing then press this button to have Gemini work on it for you',
+  'home.compare': 'Compare',
+  'home.compareHint': 'Type two to four options separated by "vs", e.g. Rust vs Go for CLIs',
+  'home.lucky': "I'm Feeling Lucky",
+  'home.empty': 'Search for anything and Gemini will scour the web to synthesize an audio response for you.',
+
+  'history.title': 'History',
+  'history.show': 'Show history',
+  'history.clear': 'Clear history',
+  'history.confirmClear': 'Clear all saved sessions and audio?',
+  'history.new': 'New search',
+  'history.empty': 'No recent searches',
+  'history.collapse': 'Collapse',
+  'history.expand': 'Expand',
+
+  'sources.title': 'Grounding Sources',
+  'sources.notCited': 'Not cited',
+  'sources.notCitedHint': 'No sentence in the summary cites this source',
+  'sources.publishedHint': 'Publish date, taken from the page address',
+  'sources.snippetHint': 'The passage of the answer that cites this source',
+  'sources.excluded': { one: '{count} source excluded by your source filters: {domains}', other: '{count} sources excluded by your source filters: {domains}' },
+  'sources.thinlySourced': 'Your source filters removed most of the sources for this answer, so parts of it may rest on sites you excluded. Try a broader filter or ask again.',
+  'credibility.hint': "Based on the site's domain and your source settings",
+  'credibility.trusted': 'Trusted',
+  'credibility.government': 'Government',
+  'credibility.academic': 'Academic',
+  'credibility.reference': 'Reference',
+  'credibility.social': 'Social media',
+
+  'summary.title': 'Audio Summary',
+  'summary.subtitle': 'Generative Insight powered by Gemini TTS',
+  'summary.pause': 'Pause',
+  'summary.resume': 'Resume',
+  'summary.stop': 'Stop',
+  'summary.replay': 'Replay',
+  'summary.exportWav': 'Download the audio as a WAV file',
+  'summary.exportWavPending': 'Audio is still being generated',
+  'summary.exportBundle': 'Download a zip with the audio, a Markdown transcript and the raw response',
+  'summary.bundle': 'Bundle',
+  'summary.share': 'Share',
+  'summary.shareHint': 'Copy a link that opens this answer without searching again',
+  'summary.translate': 'Translate',
+  'summary.translateHint': 'Translate this summary and voice it again',
+  'summary.playFromHere': 'Play from this sentence',
+
+  'visualizer.bars': 'Bars',
+  'visualizer.waveform': 'Waveform',
+  'visualizer.radial': 'Radial',
+
+  'player.seek': 'Seek',
+  'player.back': 'Back {seconds} seconds',
+  'player.forward': 'Forward {seconds} seconds',
+  'player.speed': 'Playback speed',
+
+  'insights.keyPoints': 'Key points',
+  'insights.askNext': 'Ask next',
+  'insights.confidenceHigh': 'High confidence',
+  'insights.confidenceMedium': 'Medium confidence',
+  'insights.confidenceLow': 'Low confidence',
+  'insights.confidenceHint': 'The model rated how well the sources support this answer at {percent}%',
+
+  'turn.open': 'Open this turn and play its audio',
+  'turn.sources': { one: '{count} source', other: '{count} sources' },
+  'turn.audio': 'Audio',
+
+  'activity.title': 'Live Activity Log',
+  'activity.processing': 'Processing next step...',
+
+  'explore.title': 'Continue Exploration',
+  'explore.button': 'Dive Deeper into Topic',
+  'explore.hint': 'Gemini will ask a more detailed follow-up in this conversation to expand your knowledge.',
+
+  'shortcuts.title': 'Keyboard shortcuts',
+  'shortcuts.open': 'Keyboard shortcuts (?)',
+  'shortcuts.close': 'Close',
+  'shortcuts.focusSearch': 'Focus the search box',
+  'shortcuts.playPause': 'Play or pause',
+  'shortcuts.stop': 'Stop playback or close a panel',
+  'shortcuts.lucky': "I'm Feeling Lucky",
+  'shortcuts.diveDeeper': 'Dive deeper into the topic',
+  'shortcuts.previousSession': 'Open the newer session (history list focused)',
+  'shortcuts.nextSession': 'Open the older session (history list focused)',
+  'shortcuts.help': 'Show this list',
+  'shortcuts.space': 'Space',
+  'shortcuts.escape': 'Esc',
+
+  'queue.title': 'Research queue',
+  'queue.open': 'Research queue',
+  'queue.close': 'Close',
+  'queue.placeholder': 'Paste questions, one per line',
+  'queue.add': 'Add to queue',
+  'queue.import': 'Import .txt',
+  'queue.empty': 'Add a few questions and they are researched and voiced in the background, ready to play back to back.',
+  'queue.progress': { one: '{ready} of {count} ready', other: '{ready} of {count} ready' },
+  'queue.playAll': 'Play all',
+  'queue.export': 'Export',
+  'queue.exportHint': "Download a zip with every finished item's audio and transcript and an M3U playlist",
+  'queue.clear': 'Clear queue',
+  'queue.queued': 'Waiting',
+  'queue.searching': 'Searching',
+  'queue.voicing': 'Generating audio',
+  'queue.failed': 'Failed',
+  'queue.ready': 'Ready',
+  'queue.playing': 'Playing',
+  'queue.play': 'Play',
+  'queue.retry': 'Retry',
+  'queue.remove': 'Remove',
+
+  'briefing.title': 'Daily briefing',
+  'briefing.open': 'Daily briefing',
+  'briefing.close': 'Close',
+  'briefing.placeholder': 'Add a topic to follow',
+  'briefing.addTopic': 'Add topic',
+  'briefing.removeTopic': 'Remove topic',
+  'briefing.noTopics': 'Add the topics you follow and get one spoken episode a day with the latest on each.',
+  'briefing.onOpen': "Generate today's episode when the app opens",
+  'briefing.generate': "Generate today's briefing",
+  'briefing.searching': { one: 'Searching {done} of {count} topic...', other: 'Searching {done} of {count} topics...' },
+  'briefing.voicing': { one: 'Voicing part {done} of {count}...', other: 'Voicing part {done} of {count}...' },
+  'briefing.empty': 'No episodes yet.',
+  'briefing.play': 'Play episode',
+  'briefing.remove': 'Delete episode',
+  'briefing.skipped': 'No news could be found for: {topics}',
+  'briefing.skippedCount': { one: '{count} topic skipped', other: '{count} topics skipped' },
+  'briefing.script': 'Transcript',
+  'briefing.scriptIntro': { one: 'Good day. Here is your briefing for {date}, with the latest on {count} topic.', other: 'Good day. Here is your briefing for {date}, with the latest on {count} topics.' },
+  'briefing.scriptFirst': 'We start with {topic}.',
+  'briefing.scriptNext': 'Next, {topic}.',
+  'briefing.scriptLast': 'And finally, {topic}.',
+  'briefing.scriptOutro': "That's your briefing for today. Until tomorrow.",
+
+  'compare.title': 'Comparison',
+  'compare.verdict': 'Verdict',
+  'compare.dimension': 'Dimension',
+
+  'step.transcribing': 'Transcription',
+  'step.workshop': 'Workshop',
+  'step.inspiring': 'Inspiration',
+  'step.refining': 'Query refinement',
+  'step.translating': 'Translation',
+  'step.comparing': 'Comparison',
+  'step.searching': 'Search',
+  'step.synthesizing': 'Speech synthesis',
+  'step.generatingAudio': 'Audio generation',
+
+  'log.error': 'Error: {title}',
+  'log.errorDetail': 'Error: {title} ({detail})',
+  'log.analyzing': 'Analyzing request: "{query}"',
+  'log.analyzingFollowUp': {
+    one: 'Analyzing follow-up in the context of {count} earlier turn: "{query}"',
+    other: 'Analyzing follow-up in the context of {count} earlier turns: "{query}"',
+  },
+  'log.searching': 'Consulting Google Search for real-time information...',
+  'log.streamingSummary': 'Streaming summary and converting it to speech with Gemini TTS...',
+  'log.streamingPodcast': 'Streaming podcast script and voicing each host with Gemini TTS...',
+  'log.sources': { one: 'Found {count} relevant source.', other: 'Found {count} relevant sources.' },
+  'log.sourcesExcluded': { one: 'Source filters excluded {count} source: {domains}', other: 'Source filters excluded {count} sources: {domains}' },
+  'log.thinlySourced': 'Warning: most sources were filtered out, so this answer is thinly sourced.',
+  'log.searchTerms': { one: 'Model used search term: {terms}', other: 'Model used search terms: {terms}' },
+  'log.confidence': 'Model confidence in the answer: {percent}%.',
+  'log.language': 'Answer language: {language}.',
+  'log.searchCacheHit': 'Search: cache hit, reusing the earlier answer.',
+  'log.searchCacheShared': 'Search: joined an identical search already in progress.',
+  'log.searchCacheMiss': 'Search: cache miss, asking Gemini.',
+  'log.speechCache': { one: 'Speech: {hits} of {count} segment from cache.', other: 'Speech: {hits} of {count} segments from cache.' },
+  'log.playing': 'Playing audio summary (first audio after {seconds}s).',
+  'log.playbackFinished': 'Playback finished.',
+  'log.generatingAudio': 'Generating audio for "{query}"...',
+  'log.replaying': 'Replaying audio summary.',
+  'log.replayingSaved': 'Replaying saved audio for "{query}".',
+  'log.workshop': 'Gemini Workshop is optimizing your prompt: "{query}"...',
+  'log.workshopOutput': 'Workshop output: "{query}"',
+  'log.workshopFailed': 'Workshop failed to optimize the prompt.',
+  'log.inspiring': 'Gemini is brainstorming a unique topic for you...',
+  'log.inspired': 'Inspired query: "{query}"',
+  'log.inspireFailed': 'Failed to generate a random prompt.',
+  'log.refining': 'Generating a deeper research query...',
+  'log.refined': 'New exploration path: "{query}"',
+  'log.listening': 'Listening... ask your question.',
+  'log.transcribing': 'Transcribing your question...',
+  'log.heard': 'Heard: "{query}"',
+  'log.exported': 'Exported summary bundle for "{query}".',
+  'log.shareCopied': 'Share link copied to the clipboard.',
+  'log.openedShared': 'Opened a shared answer to "{query}". Press Replay to hear it.',
+  'log.queueAdded': { one: 'Added {count} question to the research queue.', other: 'Added {count} questions to the research queue.' },
+  'log.queueReady': 'Queue: "{query}" is ready.',
+  'log.playlistPlaying': 'Playlist: playing "{query}".',
+  'log.playlistExported': 'Exported the playlist.',
+  'log.restored': {
+    one: 'Restored session "{title}" with {count} turn.',
+    other: 'Restored session "{title}" with {count} turns.',
+  },
+  'log.translating': 'Translating the summary into {language}...',
+  'log.translated': 'Translated into {language}.',
+  'log.comparing': 'Researching {count} options side by side: {items}...',
+  'log.compareItemReady': { one: '"{item}" researched ({count} source).', other: '"{item}" researched ({count} sources).' },
+  'log.compared': { one: 'Compared the options on {count} dimension; voicing the verdict...', other: 'Compared the options on {count} dimensions; voicing the verdict...' },
+  'log.briefingGenerating': { one: 'Preparing the daily briefing on {count} topic...', other: 'Preparing the daily briefing on {count} topics...' },
+  'log.briefingReady': 'Briefing for {date} is ready.',
+  'log.briefingSkipped': 'No news found for {topics}; left out of the briefing.',
+  'log.briefingPlaying': 'Playing the briefing for {date}.',
+  'log.stepTiming': '{step} took {seconds}s.',
+
+  'error.retry': 'Try again',
+  'error.search': 'Search failed. Please try again.',
+  'error.audio': 'Audio generation failed.',
+  'error.workshop': 'Workshop optimization failed.',
+  'error.inspire': 'Inspiration failed. Please try a manual search.',
+  'error.refine': 'Failed to generate a deeper query.',
+  'error.voice': 'Voice input failed. Please try again.',
+  'error.microphone': 'The microphone could not be started.',
+  'error.export': 'Export failed.',
+  'error.share': 'The share link could not be created.',
+  'error.queueItem': 'Researching this question failed.',
+  'error.savedAudio': 'Saved audio could not be played.',
+  'error.translate': 'Translation failed.',
+  'error.compare': 'Comparison failed.',
+  'error.briefing': 'The briefing could not be generated.',
+  'error.quotaTitle': 'Rate limit reached',
+  'error.quotaRetryAfter': 'Too many requests right now. Try again in {seconds} seconds.',
+  'error.quotaMessage': 'Too many requests, or the API quota is used up. Wait a minute and try again, or check your quota in Google AI Studio.',
+  'error.authTitle': 'API key rejected',
+  'error.authMessage': 'Check that GEMINI_API_KEY is set to a valid key with access to the selected models.',
+  'error.safetyTitle': 'Blocked by safety filters',
+  'error.safetyMessage': 'Gemini declined to answer this. Try rephrasing the question.',
+  'error.timeoutTitle': 'Request timed out',
+  'error.timeoutMessage': 'Gemini took too long to respond. Check your connection and try again.',
+  'error.networkTitle': 'Connection problem',
+  'error.networkMessage': 'Could not reach the server. Check your internet connection, and that the API proxy is running.',
+  'error.serverTitle': 'Service unavailable',
+  'error.serverMessage': 'Gemini is having trouble right now. Try again in a moment.',
+  'error.emptyAudioTitle': 'No audio returned',
+  'error.emptyAudioMessage': 'The speech model returned no audio. Try again, or pick another voice or TTS model in Settings.',
+  'error.missingAudioTitle': 'No audio yet',
+  'error.missingAudioMessage': 'This answer has no saved audio yet. Play it through once, then export it again.',
+  'error.emptyResponseTitle': 'Empty answer',
+  'error.emptyResponseMessage': 'Gemini answered with nothing usable. Try again, or pick another search model in Settings if it keeps happening.',
+  'error.noSpeechTitle': 'Nothing heard',
+  'error.noSpeechMessage': 'No speech was detected. Check that the right microphone is selected, speak a little closer to it and try again.',
+  'error.invalidLinkTitle': 'Broken share link',
+  'error.invalidLinkMessage': 'This link is incomplete or damaged. Ask for it again, or search for the question yourself.',
+  'error.micDeniedTitle': 'Microphone access denied',
+  'error.micDeniedMessage': 'Allow microphone access for this site in your browser settings and try again.',
+  'error.micMissingTitle': 'No microphone found',
+  'error.micMissingMessage': 'Connect a microphone and try again.',
+  'error.micBusyTitle': 'Microphone in use',
+  'error.micBusyMessage': 'Another application is using the microphone. Close it and try again.',
+  'error.micUnavailableTitle': 'Microphone unavailable',
+  'error.micUnavailableMessage': "The microphone could not be started. Check your browser's microphone settings and try again.",
+  'error.unknownTitle': 'Something went wrong',
+
+  'settings.title': 'Settings',
+  'settings.close': 'Close',
+  'settings.voice': 'Voice',
+  'settings.previewVoice': 'Preview this voice',
+  'settings.previewFailed': 'Preview failed.',
+  'settings.previewText': "Hi, I'm {voice}. This is how your search summaries will sound.",
+  'settings.format': 'Format',
+  'settings.modeSummary': 'Summary',
+  'settings.modePodcast': 'Podcast',
+  'settings.podcastHint': 'Two hosts discuss the results, each with their own voice.',
+  'settings.hostName': 'Host {number} name',
+  'settings.hostVoice': 'Host {number} voice',
+  'settings.length': 'Summary length',
+  'settings.lengthBrief': 'Brief',
+  'settings.lengthStandard': 'Standard',
+  'settings.lengthDeepDive': 'Deep dive',
+  'settings.language': 'Language',
+  'settings.outputLanguage': 'Answers in',
+  'settings.outputLanguageAuto': 'The language of the question',
+  'settings.interfaceLanguage': 'Interface',
+  'settings.languageHint': 'Summaries are written and spoken in this language.',
+  'settings.sources': 'Sources',
+  'settings.sourcesPreset': 'Source profile',
+  'settings.sourcesAny': 'Any site',
+  'settings.sourcesNoSocial': 'Exclude social media',
+  'settings.sourcesAcademic': 'Academic and .gov only',
+  'settings.sourcesAllowedOnly': 'Only my allow list',
+  'settings.sourcesAllow': 'Always allow, one domain per line',
+  'settings.sourcesBlock': 'Always block, one domain per line',
+  'settings.sourcesHint': "Guides which sites Gemini searches and removes sources that don't fit. Subdomains are included.",
+  'settings.speakingStyle': 'Speaking style',
+  'settings.speakingStyleHint': 'Sent to the TTS model before the summary, e.g. "Say in a calm, slow radio-host voice".',
+  'settings.models': 'Models',
+  'settings.searchModel': 'Search model',
+  'settings.ttsModel': 'TTS model',
+  'settings.temperatures': 'Temperatures',
+  'settings.temperatureInspire': "I'm Feeling Lucky",
+  'settings.temperatureWorkshop': 'Workshop',
+  'settings.temperatureDiveDeeper': 'Dive Deeper',
+  'settings.temperatureSearch': 'Search summary',
+  'settings.cache': 'Cache',
+  'settings.cacheLabel': 'Reuse results for',
+  'settings.cacheOff': 'Off',
+  'settings.cacheMinutes': { one: '{count} minute', other: '{count} minutes' },
+  'settings.cacheHours': { one: '{count} hour', other: '{count} hours' },
+  'settings.cacheDays': { one: '{count} day', other: '{count} days' },
+  'settings.cacheHint': 'Repeating a search or replaying a summary within this time reuses the earlier results and audio instead of calling Gemini again.',
+  'settings.reset': 'Reset to defaults',
+};
+
+export type Messages = typeof en;
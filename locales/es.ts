@@ -0,0 +1,317 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'app.tagline': 'Con la tecnología de Gemini TTS y Search Grounding',
+  'app.settings': 'Ajustes',
+  'app.goBack': 'Volver a la búsqueda',
+  'app.footer': 'No estoy afiliado a Google; esto es solo un proyecto personal sin ánimo de lucro.',
+
+  'search.placeholder': 'Pregunta lo que quieras...',
+  'search.placeholderFollowUp': 'Haz una pregunta de seguimiento...',
+  'search.listening': 'Escuchando...',
+  'search.clear': 'Borrar',
+  'search.voice': 'Buscar por voz (toca, o mantén pulsado para hablar)',
+  'search.stopListening': 'Dejar de escuchar',
+
+  'home.search': 'Buscar con Gemini',
+  'home.workshop': 'Taller',
+  'home.workshopHint': 'Empieza a escribir y pulsa este botón para que Gemini mejore tu consulta',
+  'home.compare': 'Comparar',
+  'home.compareHint': 'Escribe de dos a cuatro opciones separadas por "vs", p. ej. Rust vs Go para CLIs',
+  'home.lucky': 'Voy a tener suerte',
+  'home.empty': 'Busca lo que quieras y Gemini recorrerá la web para prepararte una respuesta en audio.',
+
+  'history.title': 'Historial',
+  'history.show': 'Mostrar historial',
+  'history.clear': 'Borrar historial',
+  'history.confirmClear': '¿Borrar todas las sesiones y el audio guardados?',
+  'history.new': 'Nueva búsqueda',
+  'history.empty': 'No hay búsquedas recientes',
+  'history.collapse': 'Contraer',
+  'history.expand': 'Expandir',
+
+  'sources.title': 'Fuentes',
+  'sources.notCited': 'Sin citar',
+  'sources.notCitedHint': 'Ninguna frase del resumen cita esta fuente',
+  'sources.publishedHint': 'Fecha de publicación, tomada de la dirección de la página',
+  'sources.snippetHint': 'El pasaje de la respuesta que cita esta fuente',
+  'sources.excluded': { one: '{count} fuente excluida por tus filtros de fuentes: {domains}', other: '{count} fuentes excluidas por tus filtros de fuentes: {domains}' },
+  'sources.thinlySourced': 'Tus filtros de fuentes eliminaron la mayoría de las fuentes de esta respuesta, así que parte de ella puede basarse en sitios que excluiste. Prueba un filtro más amplio o vuelve a preguntar.',
+  'credibility.hint': 'Según el dominio del sitio y tu configuración de fuentes',
+  'credibility.trusted': 'De confianza',
+  'credibility.government': 'Gobierno',
+  'credibility.academic': 'Académica',
+  'credibility.reference': 'Referencia',
+  'credibility.social': 'Redes sociales',
+
+  'summary.title': 'Resumen en audio',
+  'summary.subtitle': 'Generado con Gemini TTS',
+  'summary.pause': 'Pausa',
+  'summary.resume': 'Reanudar',
+  'summary.stop': 'Detener',
+  'summary.replay': 'Repetir',
+  'summary.exportWav': 'Descargar el audio como archivo WAV',
+  'summary.exportWavPending': 'El audio todavía se está generando',
+  'summary.exportBundle': 'Descargar un zip con el audio, una transcripción en Markdown y la respuesta original',
+  'summary.bundle': 'Paquete',
+  'summary.share': 'Compartir',
+  'summary.shareHint': 'Copiar un enlace que abre esta respuesta sin volver a buscar',
+  'summary.translate': 'Traducir',
+  'summary.translateHint': 'Traducir este resumen y volver a narrarlo',
+  'summary.playFromHere': 'Reproducir desde esta frase',
+
+  'visualizer.bars': 'Barras',
+  'visualizer.waveform': 'Onda',
+  'visualizer.radial': 'Radial',
+
+  'player.seek': 'Posición',
+  'player.back': 'Retroceder {seconds} segundos',
+  'player.forward': 'Avanzar {seconds} segundos',
+  'player.speed': 'Velocidad de reproducción',
+
+  'insights.keyPoints': 'Puntos clave',
+  'insights.askNext': 'Pregunta después',
+  'insights.confidenceHigh': 'Confianza alta',
+  'insights.confidenceMedium': 'Confianza media',
+  'insights.confidenceLow': 'Confianza baja',
+  'insights.confidenceHint': 'El modelo estima en un {percent}% el respaldo de las fuentes a esta respuesta',
+
+  'turn.open': 'Abrir este turno y reproducir su audio',
+  'turn.sources': { one: '{count} fuente', other: '{count} fuentes' },
+  'turn.audio': 'Audio',
+
+  'activity.title': 'Actividad en directo',
+  'activity.processing': 'Procesando el siguiente paso...',
+
+  'explore.title': 'Seguir explorando',
+  'explore.button': 'Profundizar en el tema',
+  'explore.hint': 'Gemini hará una pregunta de seguimiento más detallada en esta conversación para ampliar lo que sabes.',
+
+  'shortcuts.title': 'Atajos de teclado',
+  'shortcuts.open': 'Atajos de teclado (?)',
+  'shortcuts.close': 'Cerrar',
+  'shortcuts.focusSearch': 'Ir al cuadro de búsqueda',
+  'shortcuts.playPause': 'Reproducir o pausar',
+  'shortcuts.stop': 'Detener la reproducción o cerrar un panel',
+  'shortcuts.lucky': 'Voy a tener suerte',
+  'shortcuts.diveDeeper': 'Profundizar en el tema',
+  'shortcuts.previousSession': 'Abrir la sesión más reciente (con el historial enfocado)',
+  'shortcuts.nextSession': 'Abrir la sesión más antigua (con el historial enfocado)',
+  'shortcuts.help': 'Mostrar esta lista',
+  'shortcuts.space': 'Espacio',
+  'shortcuts.escape': 'Esc',
+
+  'queue.title': 'Cola de investigación',
+  'queue.open': 'Cola de investigación',
+  'queue.close': 'Cerrar',
+  'queue.placeholder': 'Pega preguntas, una por línea',
+  'queue.add': 'Añadir a la cola',
+  'queue.import': 'Importar .txt',
+  'queue.empty': 'Añade algunas preguntas y se investigarán y narrarán en segundo plano, listas para escucharse una tras otra.',
+  'queue.progress': { one: '{ready} de {count} lista', other: '{ready} de {count} listas' },
+  'queue.playAll': 'Reproducir todo',
+  'queue.export': 'Exportar',
+  'queue.exportHint': 'Descargar un zip con el audio y la transcripción de cada elemento terminado y una lista M3U',
+  'queue.clear': 'Vaciar la cola',
+  'queue.queued': 'En espera',
+  'queue.searching': 'Buscando',
+  'queue.voicing': 'Generando audio',
+  'queue.failed': 'Error',
+  'queue.ready': 'Lista',
+  'queue.playing': 'Reproduciendo',
+  'queue.play': 'Reproducir',
+  'queue.retry': 'Reintentar',
+  'queue.remove': 'Quitar',
+
+  'briefing.title': 'Resumen diario',
+  'briefing.open': 'Resumen diario',
+  'briefing.close': 'Cerrar',
+  'briefing.placeholder': 'Añade un tema a seguir',
+  'briefing.addTopic': 'Añadir tema',
+  'briefing.removeTopic': 'Quitar tema',
+  'briefing.noTopics': 'Añade los temas que sigues y recibe cada día un episodio hablado con las novedades de cada uno.',
+  'briefing.onOpen': 'Generar el episodio de hoy al abrir la aplicación',
+  'briefing.generate': 'Generar el resumen de hoy',
+  'briefing.searching': { one: 'Buscando {done} de {count} tema...', other: 'Buscando {done} de {count} temas...' },
+  'briefing.voicing': { one: 'Generando la parte {done} de {count}...', other: 'Generando la parte {done} de {count}...' },
+  'briefing.empty': 'Todavía no hay episodios.',
+  'briefing.play': 'Reproducir episodio',
+  'briefing.remove': 'Eliminar episodio',
+  'briefing.skipped': 'No se encontraron noticias sobre: {topics}',
+  'briefing.skippedCount': { one: '{count} tema omitido', other: '{count} temas omitidos' },
+  'briefing.script': 'Transcripción',
+  'briefing.scriptIntro': { one: 'Hola. Este es tu resumen del {date}, con lo último sobre {count} tema.', other: 'Hola. Este es tu resumen del {date}, con lo último sobre {count} temas.' },
+  'briefing.scriptFirst': 'Empezamos con {topic}.',
+  'briefing.scriptNext': 'A continuación, {topic}.',
+  'briefing.scriptLast': 'Y para terminar, {topic}.',
+  'briefing.scriptOutro': 'Este ha sido tu resumen de hoy. Hasta mañana.',
+
+  'compare.title': 'Comparación',
+  'compare.verdict': 'Veredicto',
+  'compare.dimension': 'Aspecto',
+
+  'step.transcribing': 'Transcripción',
+  'step.workshop': 'Taller',
+  'step.inspiring': 'Inspiración',
+  'step.refining': 'Refinamiento de la consulta',
+  'step.translating': 'Traducción',
+  'step.comparing': 'Comparación',
+  'step.searching': 'Búsqueda',
+  'step.synthesizing': 'Síntesis de voz',
+  'step.generatingAudio': 'Generación de audio',
+
+  'log.error': 'Error: {title}',
+  'log.errorDetail': 'Error: {title} ({detail})',
+  'log.analyzing': 'Analizando la consulta: "{query}"',
+  'log.analyzingFollowUp': {
+    one: 'Analizando la pregunta de seguimiento en el contexto de {count} turno anterior: "{query}"',
+    other: 'Analizando la pregunta de seguimiento en el contexto de {count} turnos anteriores: "{query}"',
+  },
+  'log.searching': 'Consultando la Búsqueda de Google para obtener información actualizada...',
+  'log.streamingSummary': 'Recibiendo el resumen y convirtiéndolo en voz con Gemini TTS...',
+  'log.streamingPodcast': 'Recibiendo el guion del pódcast y dando voz a cada presentador con Gemini TTS...',
+  'log.sources': { one: 'Se encontró {count} fuente relevante.', other: 'Se encontraron {count} fuentes relevantes.' },
+  'log.sourcesExcluded': { one: 'Los filtros de fuentes excluyeron {count} fuente: {domains}', other: 'Los filtros de fuentes excluyeron {count} fuentes: {domains}' },
+  'log.thinlySourced': 'Aviso: se filtraron la mayoría de las fuentes, así que esta respuesta tiene poco respaldo.',
+  'log.searchTerms': { one: 'Término de búsqueda usado por el modelo: {terms}', other: 'Términos de búsqueda usados por el modelo: {terms}' },
+  'log.confidence': 'Confianza del modelo en la respuesta: {percent}%.',
+  'log.language': 'Idioma de la respuesta: {language}.',
+  'log.searchCacheHit': 'Búsqueda: encontrada en caché, se reutiliza la respuesta anterior.',
+  'log.searchCacheShared': 'Búsqueda: se une a una búsqueda idéntica ya en curso.',
+  'log.searchCacheMiss': 'Búsqueda: no está en caché, se consulta a Gemini.',
+  'log.speechCache': { one: 'Voz: {hits} de {count} fragmento desde la caché.', other: 'Voz: {hits} de {count} fragmentos desde la caché.' },
+  'log.playing': 'Reproduciendo el resumen en audio (primer audio tras {seconds} s).',
+  'log.playbackFinished': 'Reproducción terminada.',
+  'log.generatingAudio': 'Generando audio para "{query}"...',
+  'log.replaying': 'Repitiendo el resumen en audio.',
+  'log.replayingSaved': 'Reproduciendo el audio guardado de "{query}".',
+  'log.workshop': 'El Taller de Gemini está optimizando tu consulta: "{query}"...',
+  'log.workshopOutput': 'Resultado del Taller: "{query}"',
+  'log.workshopFailed': 'El Taller no pudo optimizar la consulta.',
+  'log.inspiring': 'Gemini está buscando un tema original para ti...',
+  'log.inspired': 'Consulta sugerida: "{query}"',
+  'log.inspireFailed': 'No se pudo generar una consulta aleatoria.',
+  'log.refining': 'Generando una consulta más profunda...',
+  'log.refined': 'Nueva línea de exploración: "{query}"',
+  'log.listening': 'Escuchando... haz tu pregunta.',
+  'log.transcribing': 'Transcribiendo tu pregunta...',
+  'log.heard': 'Entendido: "{query}"',
+  'log.exported': 'Paquete del resumen de "{query}" exportado.',
+  'log.shareCopied': 'Enlace para compartir copiado al portapapeles.',
+  'log.openedShared': 'Se abrió una respuesta compartida a "{query}". Pulsa Repetir para escucharla.',
+  'log.queueAdded': { one: 'Se añadió {count} pregunta a la cola de investigación.', other: 'Se añadieron {count} preguntas a la cola de investigación.' },
+  'log.queueReady': 'Cola: "{query}" está lista.',
+  'log.playlistPlaying': 'Lista: reproduciendo "{query}".',
+  'log.playlistExported': 'Lista de reproducción exportada.',
+  'log.restored': {
+    one: 'Sesión "{title}" restaurada con {count} turno.',
+    other: 'Sesión "{title}" restaurada con {count} turnos.',
+  },
+  'log.translating': 'Traduciendo el resumen al {language}...',
+  'log.translated': 'Traducido al {language}.',
+  'log.comparing': 'Investigando {count} opciones en paralelo: {items}...',
+  'log.compareItemReady': { one: '"{item}" investigado ({count} fuente).', other: '"{item}" investigado ({count} fuentes).' },
+  'log.compared': { one: 'Opciones comparadas en {count} aspecto; generando el veredicto hablado...', other: 'Opciones comparadas en {count} aspectos; generando el veredicto hablado...' },
+  'log.briefingGenerating': { one: 'Preparando el resumen diario sobre {count} tema...', other: 'Preparando el resumen diario sobre {count} temas...' },
+  'log.briefingReady': 'El resumen del {date} está listo.',
+  'log.briefingSkipped': 'No se encontraron noticias sobre {topics}; quedan fuera del resumen.',
+  'log.briefingPlaying': 'Reproduciendo el resumen del {date}.',
+  'log.stepTiming': '{step}: {seconds} s.',
+
+  'error.retry': 'Reintentar',
+  'error.search': 'La búsqueda falló. Inténtalo de nuevo.',
+  'error.audio': 'No se pudo generar el audio.',
+  'error.workshop': 'El Taller no pudo optimizar la consulta.',
+  'error.inspire': 'No se encontró inspiración. Prueba a buscar manualmente.',
+  'error.refine': 'No se pudo generar una consulta más profunda.',
+  'error.voice': 'La entrada de voz falló. Inténtalo de nuevo.',
+  'error.microphone': 'No se pudo iniciar el micrófono.',
+  'error.export': 'La exportación falló.',
+  'error.share': 'No se pudo crear el enlace para compartir.',
+  'error.queueItem': 'No se pudo investigar esta pregunta.',
+  'error.savedAudio': 'No se pudo reproducir el audio guardado.',
+  'error.translate': 'La traducción falló.',
+  'error.compare': 'La comparación falló.',
+  'error.briefing': 'No se pudo generar el resumen.',
+  'error.quotaTitle': 'Límite de solicitudes alcanzado',
+  'error.quotaRetryAfter': 'Demasiadas solicitudes en este momento. Inténtalo de nuevo en {seconds} segundos.',
+  'error.quotaMessage': 'Demasiadas solicitudes, o se agotó la cuota de la API. Espera un minuto e inténtalo de nuevo, o revisa tu cuota en Google AI Studio.',
+  'error.authTitle': 'Clave de API rechazada',
+  'error.authMessage': 'Comprueba que GEMINI_API_KEY contiene una clave válida con acceso a los modelos seleccionados.',
+  'error.safetyTitle': 'Bloqueado por los filtros de seguridad',
+  'error.safetyMessage': 'Gemini se negó a responder. Prueba a reformular la pregunta.',
+  'error.timeoutTitle': 'La solicitud tardó demasiado',
+  'error.timeoutMessage': 'Gemini tardó demasiado en responder. Comprueba tu conexión e inténtalo de nuevo.',
+  'error.networkTitle': 'Problema de conexión',
+  'error.networkMessage': 'No se pudo contactar con el servidor. Comprueba tu conexión a internet y que el proxy de la API esté en marcha.',
+  'error.serverTitle': 'Servicio no disponible',
+  'error.serverMessage': 'Gemini tiene problemas ahora mismo. Inténtalo de nuevo en un momento.',
+  'error.emptyAudioTitle': 'No se recibió audio',
+  'error.emptyAudioMessage': 'El modelo de voz no devolvió audio. Inténtalo de nuevo, o elige otra voz u otro modelo TTS en Ajustes.',
+  'error.missingAudioTitle': 'Aún no hay audio',
+  'error.missingAudioMessage': 'Esta respuesta todavía no tiene audio guardado. Reprodúcela una vez y vuelve a exportarla.',
+  'error.emptyResponseTitle': 'Respuesta vacía',
+  'error.emptyResponseMessage': 'Gemini respondió sin nada utilizable. Inténtalo de nuevo, o elige otro modelo de búsqueda en Ajustes si sigue ocurriendo.',
+  'error.noSpeechTitle': 'No se oyó nada',
+  'error.noSpeechMessage': 'No se detectó voz. Comprueba que está seleccionado el micrófono correcto, habla un poco más cerca e inténtalo de nuevo.',
+  'error.invalidLinkTitle': 'Enlace dañado',
+  'error.invalidLinkMessage': 'Este enlace está incompleto o dañado. Pídelo de nuevo o busca la pregunta tú mismo.',
+  'error.micDeniedTitle': 'Acceso al micrófono denegado',
+  'error.micDeniedMessage': 'Permite el acceso al micrófono para este sitio en la configuración del navegador y vuelve a intentarlo.',
+  'error.micMissingTitle': 'No se encontró ningún micrófono',
+  'error.micMissingMessage': 'Conecta un micrófono y vuelve a intentarlo.',
+  'error.micBusyTitle': 'Micrófono en uso',
+  'error.micBusyMessage': 'Otra aplicación está usando el micrófono. Ciérrala y vuelve a intentarlo.',
+  'error.micUnavailableTitle': 'Micrófono no disponible',
+  'error.micUnavailableMessage': 'No se pudo iniciar el micrófono. Revisa la configuración del micrófono del navegador y vuelve a intentarlo.',
+  'error.unknownTitle': 'Algo salió mal',
+
+  'settings.title': 'Ajustes',
+  'settings.close': 'Cerrar',
+  'settings.voice': 'Voz',
+  'settings.previewVoice': 'Escuchar esta voz',
+  'settings.previewFailed': 'No se pudo reproducir la muestra.',
+  'settings.previewText': 'Hola, soy {voice}. Así sonarán tus resúmenes de búsqueda.',
+  'settings.format': 'Formato',
+  'settings.modeSummary': 'Resumen',
+  'settings.modePodcast': 'Pódcast',
+  'settings.podcastHint': 'Dos presentadores comentan los resultados, cada uno con su propia voz.',
+  'settings.hostName': 'Nombre del presentador {number}',
+  'settings.hostVoice': 'Voz del presentador {number}',
+  'settings.length': 'Longitud del resumen',
+  'settings.lengthBrief': 'Breve',
+  'settings.lengthStandard': 'Normal',
+  'settings.lengthDeepDive': 'A fondo',
+  'settings.language': 'Idioma',
+  'settings.outputLanguage': 'Respuestas en',
+  'settings.outputLanguageAuto': 'El idioma de la pregunta',
+  'settings.interfaceLanguage': 'Interfaz',
+  'settings.languageHint': 'Los resúmenes se escriben y se narran en este idioma.',
+  'settings.sources': 'Fuentes',
+  'settings.sourcesPreset': 'Perfil de fuentes',
+  'settings.sourcesAny': 'Cualquier sitio',
+  'settings.sourcesNoSocial': 'Excluir redes sociales',
+  'settings.sourcesAcademic': 'Solo académicas y .gov',
+  'settings.sourcesAllowedOnly': 'Solo mi lista permitida',
+  'settings.sourcesAllow': 'Permitir siempre, un dominio por línea',
+  'settings.sourcesBlock': 'Bloquear siempre, un dominio por línea',
+  'settings.sourcesHint': 'Orienta los sitios en los que busca Gemini y quita las fuentes que no encajan. Incluye los subdominios.',
+  'settings.speakingStyle': 'Estilo de narración',
+  'settings.speakingStyleHint': 'Se envía al modelo TTS antes del resumen, p. ej. "Dilo con una voz de locutor de radio, tranquila y pausada".',
+  'settings.models': 'Modelos',
+  'settings.searchModel': 'Modelo de búsqueda',
+  'settings.ttsModel': 'Modelo TTS',
+  'settings.temperatures': 'Temperaturas',
+  'settings.temperatureInspire': 'Voy a tener suerte',
+  'settings.temperatureWorkshop': 'Taller',
+  'settings.temperatureDiveDeeper': 'Profundizar',
+  'settings.temperatureSearch': 'Resumen de búsqueda',
+  'settings.cache': 'Caché',
+  'settings.cacheLabel': 'Reutilizar resultados durante',
+  'settings.cacheOff': 'Desactivada',
+  'settings.cacheMinutes': { one: '{count} minuto', other: '{count} minutos' },
+  'settings.cacheHours': { one: '{count} hora', other: '{count} horas' },
+  'settings.cacheDays': { one: '{count} día', other: '{count} días' },
+  'settings.cacheHint': 'Si repites una búsqueda o un resumen dentro de este tiempo, se reutilizan los resultados y el audio anteriores en lugar de volver a llamar a Gemini.',
+  'settings.reset': 'Restablecer valores predeterminados',
+};
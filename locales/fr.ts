@@ -0,0 +1,317 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  'app.tagline': 'Propulsé par Gemini TTS et Search Grounding',
+  'app.settings': 'Paramètres',
+  'app.goBack': 'Retour à la recherche',
+  'app.footer': "Je ne suis pas affilié à Google ; ceci n'est qu'un projet personnel, sans but lucratif.",
+
+  'search.placeholder': 'Posez votre question...',
+  'search.placeholderFollowUp': 'Posez une question complémentaire...',
+  'search.listening': 'Écoute en cours...',
+  'search.clear': 'Effacer',
+  'search.voice': 'Recherche vocale (appuyez, ou maintenez pour parler)',
+  'search.stopListening': "Arrêter l'écoute",
+
+  'home.search': 'Recherche Gemini',
+  'home.workshop': 'Atelier',
+  'home.workshopHint': 'Commencez à écrire puis appuyez sur ce bouton pour que Gemini améliore votre requête',
+  'home.compare': 'Comparer',
+  'home.compareHint': 'Saisissez deux à quatre options séparées par « vs », p. ex. Rust vs Go pour les CLI',
+  'home.lucky': "J'ai de la chance",
+  'home.empty': 'Cherchez ce que vous voulez : Gemini parcourt le web et vous prépare une réponse audio.',
+
+  'history.title': 'Historique',
+  'history.show': "Afficher l'historique",
+  'history.clear': "Effacer l'historique",
+  'history.confirmClear': 'Effacer toutes les sessions et tout le son enregistrés ?',
+  'history.new': 'Nouvelle recherche',
+  'history.empty': 'Aucune recherche récente',
+  'history.collapse': 'Réduire',
+  'history.expand': 'Développer',
+
+  'sources.title': 'Sources',
+  'sources.notCited': 'Non citée',
+  'sources.notCitedHint': 'Aucune phrase du résumé ne cite cette source',
+  'sources.publishedHint': "Date de publication, tirée de l'adresse de la page",
+  'sources.snippetHint': 'Le passage de la réponse qui cite cette source',
+  'sources.excluded': { one: '{count} source exclue par vos filtres de sources : {domains}', other: '{count} sources exclues par vos filtres de sources : {domains}' },
+  'sources.thinlySourced': 'Vos filtres de sources ont retiré la plupart des sources de cette réponse ; une partie peut donc reposer sur des sites que vous avez exclus. Essayez un filtre plus large ou reposez la question.',
+  'credibility.hint': "D'après le domaine du site et vos réglages de sources",
+  'credibility.trusted': 'De confiance',
+  'credibility.government': 'Gouvernement',
+  'credibility.academic': 'Académique',
+  'credibility.reference': 'Référence',
+  'credibility.social': 'Réseaux sociaux',
+
+  'summary.title': 'Résumé audio',
+  'summary.subtitle': 'Généré avec Gemini TTS',
+  'summary.pause': 'Pause',
+  'summary.resume': 'Reprendre',
+  'summary.stop': 'Arrêter',
+  'summary.replay': 'Réécouter',
+  'summary.exportWav': "Télécharger l'audio au format WAV",
+  'summary.exportWavPending': "L'audio est encore en cours de génération",
+  'summary.exportBundle': "Télécharger un zip avec l'audio, une transcription Markdown et la réponse brute",
+  'summary.bundle': 'Archive',
+  'summary.share': 'Partager',
+  'summary.shareHint': 'Copier un lien qui ouvre cette réponse sans relancer la recherche',
+  'summary.translate': 'Traduire',
+  'summary.translateHint': 'Traduire ce résumé et le relire à voix haute',
+  'summary.playFromHere': 'Lire à partir de cette phrase',
+
+  'visualizer.bars': 'Barres',
+  'visualizer.waveform': 'Onde',
+  'visualizer.radial': 'Radial',
+
+  'player.seek': 'Position',
+  'player.back': 'Reculer de {seconds} secondes',
+  'player.forward': 'Avancer de {seconds} secondes',
+  'player.speed': 'Vitesse de lecture',
+
+  'insights.keyPoints': 'Points clés',
+  'insights.askNext': 'Pour aller plus loin',
+  'insights.confidenceHigh': 'Confiance élevée',
+  'insights.confidenceMedium': 'Confiance moyenne',
+  'insights.confidenceLow': 'Confiance faible',
+  'insights.confidenceHint': 'Le modèle estime à {percent} % le soutien des sources à cette réponse',
+
+  'turn.open': 'Ouvrir ce tour et écouter son audio',
+  'turn.sources': { one: '{count} source', other: '{count} sources' },
+  'turn.audio': 'Audio',
+
+  'activity.title': 'Activité en direct',
+  'activity.processing': "Traitement de l'étape suivante...",
+
+  'explore.title': "Continuer l'exploration",
+  'explore.button': 'Approfondir le sujet',
+  'explore.hint': 'Gemini posera une question complémentaire plus détaillée dans cette conversation pour enrichir vos connaissances.',
+
+  'shortcuts.title': 'Raccourcis clavier',
+  'shortcuts.open': 'Raccourcis clavier (?)',
+  'shortcuts.close': 'Fermer',
+  'shortcuts.focusSearch': 'Aller à la barre de recherche',
+  'shortcuts.playPause': 'Lire ou mettre en pause',
+  'shortcuts.stop': 'Arrêter la lecture ou fermer un panneau',
+  'shortcuts.lucky': "J'ai de la chance",
+  'shortcuts.diveDeeper': 'Approfondir le sujet',
+  'shortcuts.previousSession': "Ouvrir la session plus récente (liste de l'historique active)",
+  'shortcuts.nextSession': "Ouvrir la session plus ancienne (liste de l'historique active)",
+  'shortcuts.help': 'Afficher cette liste',
+  'shortcuts.space': 'Espace',
+  'shortcuts.escape': 'Échap',
+
+  'queue.title': 'File de recherche',
+  'queue.open': 'File de recherche',
+  'queue.close': 'Fermer',
+  'queue.placeholder': 'Collez des questions, une par ligne',
+  'queue.add': 'Ajouter à la file',
+  'queue.import': 'Importer un .txt',
+  'queue.empty': 'Ajoutez quelques questions : elles sont recherchées et lues en arrière-plan, prêtes à être écoutées à la suite.',
+  'queue.progress': { one: '{ready} sur {count} prête', other: '{ready} sur {count} prêtes' },
+  'queue.playAll': 'Tout lire',
+  'queue.export': 'Exporter',
+  'queue.exportHint': "Télécharger un zip avec l'audio et la transcription de chaque élément terminé et une playlist M3U",
+  'queue.clear': 'Vider la file',
+  'queue.queued': 'En attente',
+  'queue.searching': 'Recherche',
+  'queue.voicing': 'Génération audio',
+  'queue.failed': 'Échec',
+  'queue.ready': 'Prête',
+  'queue.playing': 'Lecture',
+  'queue.play': 'Lire',
+  'queue.retry': 'Réessayer',
+  'queue.remove': 'Retirer',
+
+  'briefing.title': 'Briefing du jour',
+  'briefing.open': 'Briefing du jour',
+  'briefing.close': 'Fermer',
+  'briefing.placeholder': 'Ajouter un sujet à suivre',
+  'briefing.addTopic': 'Ajouter le sujet',
+  'briefing.removeTopic': 'Retirer le sujet',
+  'briefing.noTopics': 'Ajoutez les sujets que vous suivez et recevez chaque jour un épisode audio avec les dernières nouvelles de chacun.',
+  'briefing.onOpen': "Générer l'épisode du jour à l'ouverture de l'application",
+  'briefing.generate': 'Générer le briefing du jour',
+  'briefing.searching': { one: 'Recherche {done} sur {count} sujet...', other: 'Recherche {done} sur {count} sujets...' },
+  'briefing.voicing': { one: 'Génération de la partie {done} sur {count}...', other: 'Génération de la partie {done} sur {count}...' },
+  'briefing.empty': "Aucun épisode pour l'instant.",
+  'briefing.play': "Écouter l'épisode",
+  'briefing.remove': "Supprimer l'épisode",
+  'briefing.skipped': 'Aucune actualité trouvée pour : {topics}',
+  'briefing.skippedCount': { one: '{count} sujet ignoré', other: '{count} sujets ignorés' },
+  'briefing.script': 'Transcription',
+  'briefing.scriptIntro': { one: "Bonjour. Voici votre briefing du {date}, avec l'essentiel sur {count} sujet.", other: "Bonjour. Voici votre briefing du {date}, avec l'essentiel sur {count} sujets." },
+  'briefing.scriptFirst': 'Nous commençons par {topic}.',
+  'briefing.scriptNext': 'Ensuite, {topic}.',
+  'briefing.scriptLast': 'Et pour finir, {topic}.',
+  'briefing.scriptOutro': "C'était votre briefing du jour. À demain.",
+
+  'compare.title': 'Comparaison',
+  'compare.verdict': 'Verdict',
+  'compare.dimension': 'Critère',
+
+  'step.transcribing': 'Transcription',
+  'step.workshop': 'Atelier',
+  'step.inspiring': 'Inspiration',
+  'step.refining': 'Affinage de la requête',
+  'step.translating': 'Traduction',
+  'step.comparing': 'Comparaison',
+  'step.searching': 'Recherche',
+  'step.synthesizing': 'Synthèse vocale',
+  'step.generatingAudio': 'Génération audio',
+
+  'log.error': 'Erreur : {title}',
+  'log.errorDetail': 'Erreur : {title} ({detail})',
+  'log.analyzing': 'Analyse de la requête : « {query} »',
+  'log.analyzingFollowUp': {
+    one: 'Analyse de la question complémentaire dans le contexte de {count} tour précédent : « {query} »',
+    other: 'Analyse de la question complémentaire dans le contexte de {count} tours précédents : « {query} »',
+  },
+  'log.searching': "Consultation de la recherche Google pour obtenir des informations à jour...",
+  'log.streamingSummary': 'Réception du résumé et conversion en voix avec Gemini TTS...',
+  'log.streamingPodcast': 'Réception du script du podcast et mise en voix de chaque animateur avec Gemini TTS...',
+  'log.sources': { one: '{count} source pertinente trouvée.', other: '{count} sources pertinentes trouvées.' },
+  'log.sourcesExcluded': { one: 'Les filtres de sources ont exclu {count} source : {domains}', other: 'Les filtres de sources ont exclu {count} sources : {domains}' },
+  'log.thinlySourced': 'Attention : la plupart des sources ont été filtrées, cette réponse est donc peu étayée.',
+  'log.searchTerms': { one: 'Terme de recherche utilisé par le modèle : {terms}', other: 'Termes de recherche utilisés par le modèle : {terms}' },
+  'log.confidence': 'Confiance du modèle dans la réponse : {percent} %.',
+  'log.language': 'Langue de la réponse : {language}.',
+  'log.searchCacheHit': 'Recherche : trouvée dans le cache, la réponse précédente est réutilisée.',
+  'log.searchCacheShared': 'Recherche : une recherche identique est déjà en cours, elle est partagée.',
+  'log.searchCacheMiss': 'Recherche : absente du cache, Gemini est interrogé.',
+  'log.speechCache': { one: 'Voix : {hits} segment sur {count} depuis le cache.', other: 'Voix : {hits} segments sur {count} depuis le cache.' },
+  'log.playing': 'Lecture du résumé audio (premier son après {seconds} s).',
+  'log.playbackFinished': 'Lecture terminée.',
+  'log.generatingAudio': "Génération de l'audio pour « {query} »...",
+  'log.replaying': 'Nouvelle lecture du résumé audio.',
+  'log.replayingSaved': "Lecture de l'audio enregistré pour « {query} ».",
+  'log.workshop': "L'Atelier Gemini optimise votre requête : « {query} »...",
+  'log.workshopOutput': "Résultat de l'Atelier : « {query} »",
+  'log.workshopFailed': "L'Atelier n'a pas pu optimiser la requête.",
+  'log.inspiring': 'Gemini cherche un sujet original pour vous...',
+  'log.inspired': 'Requête inspirée : « {query} »',
+  'log.inspireFailed': "Impossible de générer une requête aléatoire.",
+  'log.refining': "Génération d'une requête plus approfondie...",
+  'log.refined': "Nouvelle piste d'exploration : « {query} »",
+  'log.listening': 'Écoute en cours... posez votre question.',
+  'log.transcribing': 'Transcription de votre question...',
+  'log.heard': 'Entendu : « {query} »',
+  'log.exported': 'Archive du résumé exportée pour « {query} ».',
+  'log.shareCopied': 'Lien de partage copié dans le presse-papiers.',
+  'log.openedShared': "Réponse partagée à « {query} » ouverte. Appuyez sur Réécouter pour l'entendre.",
+  'log.queueAdded': { one: '{count} question ajoutée à la file de recherche.', other: '{count} questions ajoutées à la file de recherche.' },
+  'log.queueReady': 'File : « {query} » est prête.',
+  'log.playlistPlaying': 'Playlist : lecture de « {query} ».',
+  'log.playlistExported': 'Playlist exportée.',
+  'log.restored': {
+    one: 'Session « {title} » restaurée avec {count} tour.',
+    other: 'Session « {title} » restaurée avec {count} tours.',
+  },
+  'log.translating': 'Traduction du résumé en {language}...',
+  'log.translated': 'Traduit en {language}.',
+  'log.comparing': 'Recherche de {count} options côte à côte : {items}...',
+  'log.compareItemReady': { one: '« {item} » recherché ({count} source).', other: '« {item} » recherché ({count} sources).' },
+  'log.compared': { one: 'Options comparées sur {count} critère ; synthèse vocale du verdict...', other: 'Options comparées sur {count} critères ; synthèse vocale du verdict...' },
+  'log.briefingGenerating': { one: 'Préparation du briefing du jour sur {count} sujet...', other: 'Préparation du briefing du jour sur {count} sujets...' },
+  'log.briefingReady': 'Le briefing du {date} est prêt.',
+  'log.briefingSkipped': 'Aucune actualité pour {topics} ; sujet laissé de côté.',
+  'log.briefingPlaying': 'Lecture du briefing du {date}.',
+  'log.stepTiming': '{step} : {seconds} s.',
+
+  'error.retry': 'Réessayer',
+  'error.search': 'La recherche a échoué. Veuillez réessayer.',
+  'error.audio': "La génération de l'audio a échoué.",
+  'error.workshop': "L'Atelier n'a pas pu optimiser la requête.",
+  'error.inspire': "Pas d'inspiration cette fois. Essayez une recherche manuelle.",
+  'error.refine': "Impossible de générer une requête plus approfondie.",
+  'error.voice': 'La saisie vocale a échoué. Veuillez réessayer.',
+  'error.microphone': "Le micro n'a pas pu être démarré.",
+  'error.export': "L'export a échoué.",
+  'error.share': 'Impossible de créer le lien de partage.',
+  'error.queueItem': 'La recherche de cette question a échoué.',
+  'error.savedAudio': "L'audio enregistré n'a pas pu être lu.",
+  'error.translate': 'La traduction a échoué.',
+  'error.compare': 'La comparaison a échoué.',
+  'error.briefing': "Le briefing n'a pas pu être généré.",
+  'error.quotaTitle': 'Limite de requêtes atteinte',
+  'error.quotaRetryAfter': 'Trop de requêtes pour le moment. Réessayez dans {seconds} secondes.',
+  'error.quotaMessage': "Trop de requêtes, ou le quota de l'API est épuisé. Attendez une minute puis réessayez, ou vérifiez votre quota dans Google AI Studio.",
+  'error.authTitle': "Clé d'API refusée",
+  'error.authMessage': 'Vérifiez que GEMINI_API_KEY contient une clé valide ayant accès aux modèles choisis.',
+  'error.safetyTitle': 'Bloqué par les filtres de sécurité',
+  'error.safetyMessage': 'Gemini a refusé de répondre. Essayez de reformuler la question.',
+  'error.timeoutTitle': 'Délai dépassé',
+  'error.timeoutMessage': 'Gemini a mis trop de temps à répondre. Vérifiez votre connexion et réessayez.',
+  'error.networkTitle': 'Problème de connexion',
+  'error.networkMessage': "Impossible de joindre le serveur. Vérifiez votre connexion internet et que le proxy de l'API est lancé.",
+  'error.serverTitle': 'Service indisponible',
+  'error.serverMessage': 'Gemini rencontre des difficultés. Réessayez dans un instant.',
+  'error.emptyAudioTitle': 'Aucun audio reçu',
+  'error.emptyAudioMessage': "Le modèle vocal n'a renvoyé aucun audio. Réessayez, ou choisissez une autre voix ou un autre modèle TTS dans les paramètres.",
+  'error.missingAudioTitle': "Pas encore d'audio",
+  'error.missingAudioMessage': "Cette réponse n'a pas encore d'audio enregistré. Écoutez-la une fois, puis exportez-la à nouveau.",
+  'error.emptyResponseTitle': 'Réponse vide',
+  'error.emptyResponseMessage': "Gemini a répondu sans rien d'exploitable. Réessayez, ou choisissez un autre modèle de recherche dans les paramètres si cela se reproduit.",
+  'error.noSpeechTitle': 'Rien entendu',
+  'error.noSpeechMessage': 'Aucune parole détectée. Vérifiez que le bon micro est sélectionné, parlez un peu plus près et réessayez.',
+  'error.invalidLinkTitle': 'Lien de partage invalide',
+  'error.invalidLinkMessage': 'Ce lien est incomplet ou endommagé. Redemandez-le, ou lancez la recherche vous-même.',
+  'error.micDeniedTitle': 'Accès au micro refusé',
+  'error.micDeniedMessage': "Autorisez l'accès au micro pour ce site dans les réglages du navigateur, puis réessayez.",
+  'error.micMissingTitle': 'Aucun micro trouvé',
+  'error.micMissingMessage': 'Branchez un micro, puis réessayez.',
+  'error.micBusyTitle': 'Micro déjà utilisé',
+  'error.micBusyMessage': 'Une autre application utilise le micro. Fermez-la, puis réessayez.',
+  'error.micUnavailableTitle': 'Micro indisponible',
+  'error.micUnavailableMessage': "Le micro n'a pas pu être démarré. Vérifiez les réglages du micro dans votre navigateur, puis réessayez.",
+  'error.unknownTitle': "Une erreur s'est produite",
+
+  'settings.title': 'Paramètres',
+  'settings.close': 'Fermer',
+  'settings.voice': 'Voix',
+  'settings.previewVoice': 'Écouter cette voix',
+  'settings.previewFailed': "L'aperçu a échoué.",
+  'settings.previewText': 'Bonjour, je suis {voice}. Voici comment sonneront vos résumés de recherche.',
+  'settings.format': 'Format',
+  'settings.modeSummary': 'Résumé',
+  'settings.modePodcast': 'Podcast',
+  'settings.podcastHint': 'Deux animateurs commentent les résultats, chacun avec sa propre voix.',
+  'settings.hostName': "Nom de l'animateur {number}",
+  'settings.hostVoice': "Voix de l'animateur {number}",
+  'settings.length': 'Longueur du résumé',
+  'settings.lengthBrief': 'Court',
+  'settings.lengthStandard': 'Standard',
+  'settings.lengthDeepDive': 'Approfondi',
+  'settings.language': 'Langue',
+  'settings.outputLanguage': 'Réponses en',
+  'settings.outputLanguageAuto': 'La langue de la question',
+  'settings.interfaceLanguage': 'Interface',
+  'settings.languageHint': 'Les résumés sont rédigés et lus dans cette langue.',
+  'settings.sources': 'Sources',
+  'settings.sourcesPreset': 'Profil de sources',
+  'settings.sourcesAny': 'Tous les sites',
+  'settings.sourcesNoSocial': 'Exclure les réseaux sociaux',
+  'settings.sourcesAcademic': 'Académiques et .gov uniquement',
+  'settings.sourcesAllowedOnly': 'Seulement ma liste autorisée',
+  'settings.sourcesAllow': 'Toujours autoriser, un domaine par ligne',
+  'settings.sourcesBlock': 'Toujours bloquer, un domaine par ligne',
+  'settings.sourcesHint': 'Oriente les sites où Gemini cherche et retire les sources qui ne conviennent pas. Les sous-domaines sont inclus.',
+  'settings.speakingStyle': 'Style de lecture',
+  'settings.speakingStyleHint': 'Envoyé au modèle TTS avant le résumé, par ex. « Dis-le d\'une voix calme et posée d\'animateur radio ».',
+  'settings.models': 'Modèles',
+  'settings.searchModel': 'Modèle de recherche',
+  'settings.ttsModel': 'Modèle TTS',
+  'settings.temperatures': 'Températures',
+  'settings.temperatureInspire': "J'ai de la chance",
+  'settings.temperatureWorkshop': 'Atelier',
+  'settings.temperatureDiveDeeper': 'Approfondir',
+  'settings.temperatureSearch': 'Résumé de recherche',
+  'settings.cache': 'Cache',
+  'settings.cacheLabel': 'Réutiliser les résultats pendant',
+  'settings.cacheOff': 'Désactivé',
+  'settings.cacheMinutes': { one: '{count} minute', other: '{count} minutes' },
+  'settings.cacheHours': { one: '{count} heure', other: '{count} heures' },
+  'settings.cacheDays': { one: '{count} jour', other: '{count} jours' },
+  'settings.cacheHint': "Répéter une recherche ou réécouter un résumé pendant cette durée réutilise les résultats et l'audio précédents au lieu d'appeler Gemini à nouveau.",
+  'settings.reset': 'Rétablir les valeurs par défaut',
+};
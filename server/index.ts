@@ -0,0 +1,258 @@
+import { createHash } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { GeminiService } from '../services/geminiService';
+import { ErrorCode, isAbortError, SonicError } from '../services/errors';
+import type { ContextTurn } from '../services/proxyProvider';
+import { TtlCache } from '../services/ttlCache';
+import type { SearchOptions } from '../services/provider';
+import { ComparedItem, SearchResponse, SessionTurn, Settings } from '../types';
+import { RateLimiter } from './rateLimiter';
+import { checkArgs, InvalidRequestError, Param, parseSettings } from './validation';
+
+// Keeps GEMINI_API_KEY on the server: the browser talks to these endpoints
+// and never sees the key. Run with `npm run server` next to `npm run dev`.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Fall back to the real environment.
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+const RATE_LIMIT = Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+// Answers are voiced a sentence (or podcast turn) at a time, so one summary
+// takes a dozen or more speech calls, and a queue or briefing several times that.
+const SPEECH_RATE_LIMIT = Number(process.env.SPEECH_RATE_LIMIT_PER_MINUTE) || 600;
+const CACHE_TTL_MS = (Number(process.env.CACHE_TTL_SECONDS) || 600) * 1000;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+// A voiced sentence is up to about a megabyte of base64 PCM, so speech gets
+// a much smaller cache than the text operations.
+const MAX_CACHED_RESULTS = 500;
+const MAX_CACHED_CLIPS = 64;
+// Behind a reverse proxy every request comes from the proxy's address.
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code?: ErrorCode) {
+    super(message);
+  }
+}
+
+interface StreamedSearch {
+  segments: string[];
+  result: SearchResponse;
+}
+
+// Only requests that reach the model count; cache hits are free.
+const limiter = new RateLimiter(RATE_LIMIT, 60_000);
+const speechLimiter = new RateLimiter(SPEECH_RATE_LIMIT, 60_000);
+const resultCache = new TtlCache<unknown>(MAX_CACHED_RESULTS, CACHE_TTL_MS);
+const speechCache = new TtlCache<unknown>(MAX_CACHED_CLIPS, CACHE_TTL_MS);
+const streamCache = new TtlCache<StreamedSearch>(200, CACHE_TTL_MS);
+
+interface Operation {
+  params: Param[];
+  /** Only called with `args` that passed `params`, so each can be taken as its declared type. */
+  run: (service: GeminiService, args: unknown[], signal: AbortSignal) => Promise<unknown>;
+  /** Random prompts are meant to differ and recordings are one-off, so those have no cache. */
+  cache: TtlCache<unknown> | null;
+  limiter: RateLimiter;
+}
+
+// Optional arguments arrive as null when the client sent undefined.
+const optional = <T>(value: unknown) => (value ?? undefined) as T | undefined;
+
+const OPERATIONS: Record<string, Operation> = {
+  generateRandomPrompt: { params: [], run: (service, _, signal) => service.generateRandomPrompt(signal), cache: null, limiter },
+  tweakQuery: { params: ['string'], run: (service, [query], signal) => service.tweakQuery(query as string, signal), cache: resultCache, limiter },
+  refineQuery: { params: ['string', 'string'], run: (service, [query, summary], signal) => service.refineQuery(query as string, summary as string, signal), cache: resultCache, limiter },
+  transcribeAudio: { params: ['string', 'string?'], run: (service, [audio, mimeType], signal) => service.transcribeAudio(audio as string, optional<string>(mimeType), signal), cache: null, limiter },
+  searchAndSummarize: { params: ['string', 'searchOptions?'], run: (service, [query, options], signal) => service.searchAndSummarize(query as string, signal, optional<SearchOptions>(options)), cache: resultCache, limiter },
+  synthesizeComparison: { params: ['string', 'comparedItems'], run: (service, [query, items], signal) => service.synthesizeComparison(query as string, items as ComparedItem[], signal), cache: resultCache, limiter },
+  translateSummary: { params: ['answer', 'string'], run: (service, [results, language], signal) => service.translateSummary(results as SearchResponse, language as string, signal), cache: resultCache, limiter },
+  generateSpeech: { params: ['string', 'string?'], run: (service, [text, voiceName], signal) => service.generateSpeech(text as string, optional<string>(voiceName), signal), cache: speechCache, limiter: speechLimiter },
+  generateDialogueSpeech: { params: ['string'], run: (service, [script], signal) => service.generateDialogueSpeech(script as string, signal), cache: speechCache, limiter: speechLimiter },
+};
+
+const STREAM_SEARCH_PARAMS: Param[] = ['string', 'context?'];
+
+// Rebuilds just enough of each earlier turn for the chat history.
+function contextTurns(context: ContextTurn[] = []): SessionTurn[] {
+  return context.map(({ query, summary }, i) => ({
+    id: String(i),
+    query,
+    timestamp: 0,
+    results: { summary, sources: [], actualQuery: query },
+  }));
+}
+
+function clientIp(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+}
+
+// Counts a request that is about to call the model against the client's budget.
+function charge(budget: RateLimiter, req: IncomingMessage, res: ServerResponse) {
+  const retryAfter = budget.take(clientIp(req));
+  if (retryAfter > 0) {
+    res.setHeader('Retry-After', String(retryAfter));
+    throw new HttpError(429, `Too many requests. Try again in ${retryAfter} seconds.`, 'quota');
+  }
+}
+
+async function readBody(req: IncomingMessage, operation: string, params: Param[]): Promise<{ settings: Settings; args: unknown[] }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON.');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new HttpError(400, 'Request body must be a JSON object.');
+  const body = parsed as { settings?: unknown; args?: unknown };
+  if (body.args !== undefined && !Array.isArray(body.args)) throw new HttpError(400, '"args" must be an array.');
+  const args: unknown[] = Array.isArray(body.args) ? body.args : [];
+  try {
+    checkArgs(operation, params, args);
+    return { settings: parseSettings(body.settings), args };
+  } catch (err) {
+    if (err instanceof InvalidRequestError) throw new HttpError(400, err.message);
+    throw err;
+  }
+}
+
+function cacheKey(operation: string, settings: Settings, args: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify([operation, settings, args])).digest('hex');
+}
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  quota: 429,
+  auth: 401,
+  safety: 422,
+  'no-speech': 422,
+  timeout: 504,
+};
+
+function errorCode(err: unknown): ErrorCode | undefined {
+  return err instanceof SonicError ? err.code : undefined;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return (err instanceof Error && err.message) || fallback;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Streams newline-delimited JSON: {"segment"} lines as they arrive, then
+// one {"result"} line, or an {"error"} line if the search fails midway.
+async function streamSearch(req: IncomingMessage, res: ServerResponse, settings: Settings, args: unknown[], signal: AbortSignal): Promise<boolean> {
+  // Checked against STREAM_SEARCH_PARAMS.
+  const query = args[0] as string;
+  const context = optional<ContextTurn[]>(args[1]);
+  const key = cacheKey('streamSearchAndSummarize', settings, args);
+  const writeLine = (message: unknown) => res.write(JSON.stringify(message) + '\n');
+  const startStream = () => res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+
+  const cached = streamCache.get(key);
+  if (cached) {
+    startStream();
+    cached.segments.forEach(segment => writeLine({ segment }));
+    writeLine({ result: cached.result });
+    res.end();
+    return true;
+  }
+
+  charge(limiter, req, res);
+  startStream();
+  const segments: string[] = [];
+  try {
+    const result = await new GeminiService(settings, API_KEY).streamSearchAndSummarize(query, segment => {
+      segments.push(segment);
+      writeLine({ segment });
+    }, contextTurns(context), signal);
+    streamCache.set(key, { segments, result });
+    writeLine({ result });
+  } catch (err) {
+    if (!isAbortError(err)) console.error(err);
+    writeLine({ error: errorMessage(err, 'Search failed.'), code: errorCode(err) });
+  }
+  res.end();
+  return false;
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, signal: AbortSignal): Promise<boolean> {
+  const match = req.url?.match(/^\/api\/(\w+)$/);
+  if (!match) throw new HttpError(404, 'Not found.');
+  if (req.method !== 'POST') throw new HttpError(405, 'Use POST.');
+
+  const name = match[1];
+  if (name === 'streamSearchAndSummarize') {
+    const { settings, args } = await readBody(req, name, STREAM_SEARCH_PARAMS);
+    return streamSearch(req, res, settings, args, signal);
+  }
+
+  const operation = OPERATIONS[name];
+  if (!operation) throw new HttpError(404, `Unknown operation "${name}".`);
+  const { settings, args } = await readBody(req, name, operation.params);
+
+  const key = cacheKey(name, settings, args);
+  const cached = operation.cache?.get(key);
+  if (cached !== undefined) {
+    sendJson(res, 200, { result: cached });
+    return true;
+  }
+
+  charge(operation.limiter, req, res);
+  const result = await operation.run(new GeminiService(settings, API_KEY), args, signal);
+  operation.cache?.set(key, result);
+  sendJson(res, 200, { result });
+  return false;
+}
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  let cacheHit = false;
+  res.on('finish', () => {
+    console.log(`${new Date().toISOString()} ${clientIp(req)} ${req.method} ${req.url} ${res.statusCode} ${Date.now() - startedAt}ms${cacheHit ? ' (cache)' : ''}`);
+  });
+
+  // Stop paying for model calls nobody is waiting for.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    cacheHit = await handle(req, res, controller.signal);
+  } catch (err) {
+    if (isAbortError(err)) {
+      res.destroy();
+      return;
+    }
+    const status = err instanceof HttpError ? err.status : STATUS_BY_CODE[errorCode(err)!] ?? 502;
+    const code = err instanceof HttpError ? err.code : errorCode(err);
+    if (!(err instanceof HttpError)) console.error(err);
+    if (!res.headersSent) sendJson(res, status, { error: errorMessage(err, 'Request failed.'), code });
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini Sonic proxy listening on http://localhost:${PORT} (${RATE_LIMIT} requests and ${SPEECH_RATE_LIMIT} speech clips/minute per IP)`);
+});
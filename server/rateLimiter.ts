@@ -0,0 +1,32 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/** Fixed-window request counter per client key, e.g. per IP address. */
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /** Counts one request. Returns 0 if it is allowed, otherwise the seconds until the client may retry. */
+  take(key: string, now: number = Date.now()): number {
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      if (this.windows.size > 10_000) this.prune(now);
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    if (window.count >= this.limit) {
+      return Math.ceil((window.resetAt - now) / 1000);
+    }
+    window.count++;
+    return 0;
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../services/settings';
+import { checkArgs, InvalidRequestError, parseSettings } from './validation';
+
+const item = { label: 'Rust', query: 'Rust, for CLIs', results: { summary: 'Fast.' } };
+
+describe('checkArgs', () => {
+  it('accepts arguments of the declared types', () => {
+    expect(() => checkArgs('generateSpeech', ['string', 'string?'], ['Hello.', null])).not.toThrow();
+    expect(() => checkArgs('searchAndSummarize', ['string', 'searchOptions?'], ['news', { recentDays: 1 }])).not.toThrow();
+    expect(() => checkArgs('streamSearchAndSummarize', ['string', 'context?'], ['why?', [{ query: 'what?', summary: 'This.' }]])).not.toThrow();
+    expect(() => checkArgs('synthesizeComparison', ['string', 'comparedItems'], ['Rust vs Go', [item, { ...item, label: 'Go' }]])).not.toThrow();
+  });
+
+  it('rejects missing, extra and mistyped arguments', () => {
+    expect(() => checkArgs('tweakQuery', ['string'], [])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('tweakQuery', ['string'], ['a', 'b'])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('tweakQuery', ['string'], [42])).toThrow(InvalidRequestError);
+  });
+
+  it('checks the contents of nested arguments', () => {
+    expect(() => checkArgs('searchAndSummarize', ['string', 'searchOptions?'], ['news', { recentDays: 1.5 }])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('searchAndSummarize', ['string', 'searchOptions?'], ['news', { recentDays: null }])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('streamSearchAndSummarize', ['string', 'context?'], ['why?', [{ query: 'what?', results: {} }]])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('translateSummary', ['answer', 'string'], [{ summary: 'Hi.', dialogue: 'A: Hi.' }, 'de'])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('synthesizeComparison', ['string', 'comparedItems'], ['Rust', [item]])).toThrow(InvalidRequestError);
+    expect(() => checkArgs('synthesizeComparison', ['string', 'comparedItems'], ['Rust vs Go', [item, { label: 'Go' }]])).toThrow(InvalidRequestError);
+  });
+});
+
+describe('parseSettings', () => {
+  it('fills in defaults for missing fields', () => {
+    expect(parseSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('rejects models the app doesn\'t offer', () => {
+    expect(() => parseSettings({ searchModel: 'some-other-model' })).toThrow(InvalidRequestError);
+  });
+
+  it('clamps temperatures and caps free text', () => {
+    const settings = parseSettings({ temperatures: { search: 9 }, speakingStyle: 'x'.repeat(1000) });
+    expect(settings.temperatures.search).toBe(2);
+    expect(settings.speakingStyle).toHaveLength(500);
+  });
+});
@@ -0,0 +1,177 @@
+import { MAX_COMPARED_ITEMS } from '../services/comparison';
+import { isUiLanguage } from '../services/i18n';
+import { DEFAULT_SETTINGS, KNOWN_MODELS, OUTPUT_LANGUAGES, PREBUILT_VOICES, SUMMARY_LENGTHS } from '../services/settings';
+import { SOURCE_PRESETS } from '../services/sourceFilter';
+import { PodcastHost, Settings, SummaryLength } from '../types';
+
+// Requests are paid for with the server's key, so the settings a client
+// sends are only trusted as far as the settings drawer could have set them.
+
+const MAX_STYLE_LENGTH = 500;
+const MAX_FILTER_DOMAINS = 100;
+const MAX_CONTEXT_TURNS = 100;
+const MAX_RECENT_DAYS = 365;
+const TEMPERATURE_RANGE = [0, 2] as const;
+
+export class InvalidRequestError extends Error {}
+
+type JsonType = 'string' | 'object' | 'array';
+/** Arguments whose contents are checked too, not just their JSON type. */
+type Shape = 'context' | 'searchOptions' | 'answer' | 'comparedItems';
+/** The expected type of each argument; a trailing `?` makes it optional. */
+export type Param = JsonType | Shape | `${JsonType | Shape}?`;
+
+const SHAPE_TYPES: Record<Shape, JsonType> = {
+  context: 'array',
+  searchOptions: 'object',
+  answer: 'object',
+  comparedItems: 'array',
+};
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// The fields of a SearchResponse that the model calls read.
+function checkAnswer(value: unknown, name: string) {
+  const { summary, keyPoints, followUps, dialogue } = asRecord(value);
+  if (typeof summary !== 'string') throw new InvalidRequestError(`${name} must have a string "summary".`);
+  if (keyPoints !== undefined && !isStringList(keyPoints)) throw new InvalidRequestError(`${name} has "keyPoints" that aren't all strings.`);
+  if (followUps !== undefined && !isStringList(followUps)) throw new InvalidRequestError(`${name} has "followUps" that aren't all strings.`);
+  const validDialogue = Array.isArray(dialogue) && dialogue.every(turn => {
+    const { speaker, text } = asRecord(turn);
+    return typeof speaker === 'string' && typeof text === 'string';
+  });
+  if (dialogue !== undefined && !validDialogue) throw new InvalidRequestError(`${name} has a "dialogue" whose turns aren't a string "speaker" and "text".`);
+}
+
+// Throws unless `value`, already of the shape's JSON type, has the right contents.
+const SHAPE_CHECKS: Record<Shape, (value: unknown, name: string) => void> = {
+  // Earlier turns of a follow-up, as ProxyProvider sends them.
+  context: (value, name) => {
+    const turns = value as unknown[];
+    if (turns.length > MAX_CONTEXT_TURNS) throw new InvalidRequestError(`${name} has more than ${MAX_CONTEXT_TURNS} turns.`);
+    turns.forEach((turn, i) => {
+      const { query, summary } = asRecord(turn);
+      if (typeof query !== 'string' || typeof summary !== 'string') {
+        throw new InvalidRequestError(`${name} must hold turns with a string "query" and "summary"; turn ${i + 1} does not.`);
+      }
+    });
+  },
+  searchOptions: (value, name) => {
+    const { recentDays } = asRecord(value);
+    if (recentDays !== undefined && !(Number.isInteger(recentDays) && (recentDays as number) >= 1 && (recentDays as number) <= MAX_RECENT_DAYS)) {
+      throw new InvalidRequestError(`"recentDays" in ${name} must be a whole number of days from 1 to ${MAX_RECENT_DAYS}.`);
+    }
+  },
+  answer: checkAnswer,
+  comparedItems: (value, name) => {
+    const items = value as unknown[];
+    if (items.length < 2 || items.length > MAX_COMPARED_ITEMS) {
+      throw new InvalidRequestError(`${name} must compare 2 to ${MAX_COMPARED_ITEMS} options.`);
+    }
+    items.forEach((item, i) => {
+      const { label, query, results } = asRecord(item);
+      if (typeof label !== 'string' || typeof query !== 'string') {
+        throw new InvalidRequestError(`Option ${i + 1} in ${name} must have a string "label" and "query".`);
+      }
+      checkAnswer(results, `The answer for option ${i + 1} in ${name}`);
+    });
+  },
+};
+
+function isShape(kind: string): kind is Shape {
+  return kind in SHAPE_TYPES;
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+export function checkArgs(operation: string, params: Param[], args: unknown[]) {
+  if (args.length > params.length) {
+    throw new InvalidRequestError(`"${operation}" takes at most ${params.length} arguments.`);
+  }
+  params.forEach((param, i) => {
+    const kind = param.replace('?', '');
+    const type = isShape(kind) ? SHAPE_TYPES[kind] : kind;
+    const name = `Argument ${i + 1} of "${operation}"`;
+    const value = args[i];
+    if (value === undefined || value === null) {
+      if (!param.endsWith('?')) throw new InvalidRequestError(`${name} is missing.`);
+      return;
+    }
+    if (typeOf(value) !== type) {
+      throw new InvalidRequestError(`${name} must be a ${type}, not ${typeOf(value)}.`);
+    }
+    if (isShape(kind)) SHAPE_CHECKS[kind](value, name);
+  });
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T, name: string): T {
+  if (value === undefined) return fallback;
+  if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return value as T;
+  throw new InvalidRequestError(`Unsupported ${name} "${String(value)}".`);
+}
+
+function clampTemperature(value: unknown, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(TEMPERATURE_RANGE[1], Math.max(TEMPERATURE_RANGE[0], value));
+}
+
+function domainList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((domain): domain is string => typeof domain === 'string').slice(0, MAX_FILTER_DOMAINS);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Builds the settings for one request from what the client sent. Models,
+ * voices and languages must be ones the app offers; temperatures are clamped
+ * and free text is capped. Fields the client left out keep their defaults.
+ */
+export function parseSettings(raw: unknown): Settings {
+  const input = asRecord(raw);
+  const defaults = DEFAULT_SETTINGS;
+  const voices = PREBUILT_VOICES.map(voice => voice.name);
+  const temperatures = asRecord(input.temperatures);
+  const sourceFilter = asRecord(input.sourceFilter);
+  const hosts = Array.isArray(input.podcastHosts) ? input.podcastHosts : [];
+  const host = (i: number): PodcastHost => {
+    const given = asRecord(hosts[i]);
+    const fallback = defaults.podcastHosts[i];
+    return {
+      name: typeof given.name === 'string' && given.name.trim() ? given.name.slice(0, 40) : fallback.name,
+      voiceName: oneOf(given.voiceName, voices, fallback.voiceName, 'voice'),
+    };
+  };
+
+  return {
+    voiceName: oneOf(input.voiceName, voices, defaults.voiceName, 'voice'),
+    summaryLength: oneOf(input.summaryLength, Object.keys(SUMMARY_LENGTHS) as SummaryLength[], defaults.summaryLength, 'summary length'),
+    mode: oneOf(input.mode, ['summary', 'podcast'] as const, defaults.mode, 'mode'),
+    podcastHosts: [host(0), host(1)],
+    speakingStyle: typeof input.speakingStyle === 'string' ? input.speakingStyle.slice(0, MAX_STYLE_LENGTH) : defaults.speakingStyle,
+    searchModel: oneOf(input.searchModel, KNOWN_MODELS.search, defaults.searchModel, 'search model'),
+    ttsModel: oneOf(input.ttsModel, KNOWN_MODELS.tts, defaults.ttsModel, 'TTS model'),
+    temperatures: {
+      inspire: clampTemperature(temperatures.inspire, defaults.temperatures.inspire),
+      workshop: clampTemperature(temperatures.workshop, defaults.temperatures.workshop),
+      diveDeeper: clampTemperature(temperatures.diveDeeper, defaults.temperatures.diveDeeper),
+      search: clampTemperature(temperatures.search, defaults.temperatures.search),
+    },
+    outputLanguage: oneOf(input.outputLanguage, ['auto', ...OUTPUT_LANGUAGES.map(language => language.code)], defaults.outputLanguage, 'output language'),
+    interfaceLanguage: typeof input.interfaceLanguage === 'string' && isUiLanguage(input.interfaceLanguage) ? input.interfaceLanguage : defaults.interfaceLanguage,
+    cacheTtlMinutes: defaults.cacheTtlMinutes,
+    sourceFilter: {
+      preset: oneOf(sourceFilter.preset, SOURCE_PRESETS, defaults.sourceFilter.preset, 'source preset'),
+      allow: domainList(sourceFilter.allow),
+      block: domainList(sourceFilter.block),
+    },
+  };
+}
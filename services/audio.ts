@@ -27,3 +27,94 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+export function floatTo16BitPCM(samples: Float32Array): Uint8Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return new Uint8Array(out.buffer);
+}
+
+/** RIFF INFO tags, e.g. INAM (title), ICRD (creation date), ICMT (comment). */
+export type WavInfo = Partial<Record<'INAM' | 'IART' | 'ICRD' | 'ICMT' | 'ISFT' | 'IGNR', string>>;
+
+function encodeInfoChunk(info: WavInfo): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = Object.entries(info).filter(([, value]) => value);
+  if (entries.length === 0) return new Uint8Array(0);
+
+  const parts: Uint8Array[] = [];
+  for (const [id, value] of entries) {
+    const text = encoder.encode(value);
+    // Values are NUL-terminated and each sub-chunk is padded to an even length.
+    const size = text.length + 1;
+    const part = new Uint8Array(8 + size + (size % 2));
+    const view = new DataView(part.buffer);
+    for (let i = 0; i < 4; i++) part[i] = id.charCodeAt(i);
+    view.setUint32(4, size, true);
+    part.set(text, 8);
+    parts.push(part);
+  }
+
+  const body = concatBytes(parts);
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  chunk.set(encoder.encode('LIST'), 0);
+  view.setUint32(4, 4 + body.length, true);
+  chunk.set(encoder.encode('INFO'), 8);
+  chunk.set(body, 12);
+  return chunk;
+}
+
+export function encodeWav(
+  pcm: Uint8Array,
+  sampleRate: number,
+  numChannels: number,
+  info: WavInfo = {},
+): Uint8Array {
+  const bitsPerSample = 16;
+  const blockAlign = numChannels * bitsPerSample / 8;
+  const infoChunk = encodeInfoChunk(info);
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + infoChunk.length + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.length, true);
+
+  return concatBytes([new Uint8Array(header), pcm, infoChunk]);
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
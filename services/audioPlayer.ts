@@ -0,0 +1,198 @@
+export type PlayerState = 'playing' | 'paused' | 'stopped' | 'ended';
+
+export interface PlayerSegment {
+  start: number;
+  duration: number;
+}
+
+// A small lead keeps the first chunk after a (re)schedule from clipping.
+const SCHEDULE_LEAD = 0.05;
+
+/**
+ * Plays decoded chunks back to back on one AudioContext without gaps, and
+ * keeps them around so playback can be paused, sought, sped up or replayed.
+ * Chunks may keep arriving while playing; the player starts with the first.
+ */
+export class AudioPlayer {
+  private buffers: AudioBuffer[] = [];
+  private starts: number[] = [];
+  private totalDuration = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+  // Timeline position `anchorPos` is heard at context time `anchorTime`.
+  private anchorTime = 0;
+  private anchorPos = 0;
+  private pausedAt = 0;
+  private playbackRate = 1;
+  private currentState: PlayerState = 'playing';
+  private finished = false;
+  private disposed = false;
+
+  onStateChange?: (state: PlayerState) => void;
+
+  /** `output` lets callers tap the signal, e.g. through an AnalyserNode. */
+  constructor(private ctx: AudioContext, private output: AudioNode = ctx.destination) {}
+
+  get state(): PlayerState {
+    return this.currentState;
+  }
+
+  get duration(): number {
+    return this.totalDuration;
+  }
+
+  get rate(): number {
+    return this.playbackRate;
+  }
+
+  /** True once no more chunks will be enqueued. */
+  get complete(): boolean {
+    return this.finished;
+  }
+
+  get segments(): PlayerSegment[] {
+    return this.buffers.map((buffer, i) => ({ start: this.starts[i], duration: buffer.duration }));
+  }
+
+  get position(): number {
+    if (this.currentState !== 'playing') return this.pausedAt;
+    const elapsed = Math.max(0, this.ctx.currentTime - this.anchorTime) * this.playbackRate;
+    return Math.min(this.anchorPos + elapsed, this.totalDuration);
+  }
+
+  enqueue(buffer: AudioBuffer) {
+    if (this.disposed) return;
+
+    const wasStarved = this.currentState === 'playing' && this.sources.size === 0;
+    const resumeFrom = this.position;
+    this.buffers.push(buffer);
+    this.starts.push(this.totalDuration);
+    this.totalDuration += buffer.duration;
+
+    if (this.currentState !== 'playing') return;
+    if (wasStarved) {
+      // First chunk, or synthesis fell behind playback: pick up from here.
+      this.scheduleFrom(resumeFrom);
+    } else {
+      this.scheduleBuffer(this.buffers.length - 1);
+    }
+  }
+
+  /** Marks that no more chunks will be enqueued. */
+  finish() {
+    this.finished = true;
+    if (this.currentState === 'playing' && this.sources.size === 0) {
+      this.pausedAt = this.totalDuration;
+      this.setState('ended');
+    }
+  }
+
+  play() {
+    if (this.disposed || this.currentState === 'playing') return;
+    if (this.pausedAt >= this.totalDuration) this.pausedAt = 0;
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+    this.setState('playing');
+    this.scheduleFrom(this.pausedAt);
+  }
+
+  pause() {
+    if (this.currentState !== 'playing') return;
+    this.pausedAt = this.position;
+    this.stopSources();
+    this.setState('paused');
+  }
+
+  /** Halts playback and rewinds, keeping the audio for a later replay. */
+  stop() {
+    this.stopSources();
+    this.pausedAt = 0;
+    this.setState('stopped');
+  }
+
+  replay() {
+    this.stopSources();
+    this.pausedAt = 0;
+    this.currentState = 'stopped';
+    this.play();
+  }
+
+  seek(seconds: number) {
+    const target = Math.max(0, Math.min(seconds, this.totalDuration));
+    if (this.currentState !== 'playing') {
+      this.pausedAt = target;
+      return;
+    }
+    this.stopSources();
+    this.scheduleFrom(target);
+  }
+
+  skip(deltaSeconds: number) {
+    this.seek(this.position + deltaSeconds);
+  }
+
+  setRate(rate: number) {
+    if (this.currentState !== 'playing') {
+      this.playbackRate = rate;
+      return;
+    }
+    const position = this.position;
+    this.stopSources();
+    this.playbackRate = rate;
+    this.scheduleFrom(position);
+  }
+
+  /** Stops everything for good; the player can't be reused afterwards. */
+  dispose() {
+    this.disposed = true;
+    this.onStateChange = undefined;
+    this.stopSources();
+  }
+
+  private scheduleFrom(position: number) {
+    this.anchorPos = position;
+    this.anchorTime = this.ctx.currentTime + SCHEDULE_LEAD;
+    for (let i = 0; i < this.buffers.length; i++) this.scheduleBuffer(i);
+    if (this.sources.size === 0 && this.finished) {
+      this.pausedAt = this.totalDuration;
+      this.setState('ended');
+    }
+  }
+
+  private scheduleBuffer(index: number) {
+    const buffer = this.buffers[index];
+    const start = this.starts[index];
+    if (start + buffer.duration <= this.anchorPos) return;
+
+    const offset = Math.max(0, this.anchorPos - start);
+    const when = this.anchorTime + (start + offset - this.anchorPos) / this.playbackRate;
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = this.playbackRate;
+    source.connect(this.output);
+    source.onended = () => {
+      this.sources.delete(source);
+      source.disconnect();
+      if (this.sources.size === 0 && this.finished && this.currentState === 'playing') {
+        this.pausedAt = this.totalDuration;
+        this.setState('ended');
+      }
+    };
+    this.sources.add(source);
+    source.start(when, offset);
+  }
+
+  private stopSources() {
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    this.sources.clear();
+  }
+
+  private setState(state: PlayerState) {
+    if (this.currentState === state) return;
+    this.currentState = state;
+    this.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,122 @@
+import { BriefingEpisode, BriefingSegment, SearchResponse } from "../types";
+import { concatBytes, decodeBase64, encodeBase64 } from "./audio";
+import type { Translate } from "./i18n";
+import type { AIProvider } from "./provider";
+
+const STORAGE_KEY = 'gemini-sonic:briefing';
+// A daily briefing only looks at what was published since the last one.
+const RECENT_DAYS = 1;
+
+export interface BriefingConfig {
+  topics: string[];
+  /** Generate the day's episode when the app opens, if there isn't one yet. */
+  onOpen: boolean;
+}
+
+export type BriefingProgress =
+  | { stage: 'searching'; done: number; total: number }
+  | { stage: 'voicing'; done: number; total: number };
+
+const DEFAULT_CONFIG: BriefingConfig = { topics: [], onOpen: false };
+
+export function loadBriefingConfig(): BriefingConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_CONFIG, ...JSON.parse(raw) } : DEFAULT_CONFIG;
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+}
+
+export function saveBriefingConfig(config: BriefingConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (err) {
+    console.error('Failed to save briefing topics', err);
+  }
+}
+
+/** The local calendar day of `time` as YYYY-MM-DD. */
+export function briefingDate(time: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())}`;
+}
+
+/** Whether opening the app should generate today's episode. */
+export function isBriefingDue(config: BriefingConfig, episodes: BriefingEpisode[], now: Date = new Date()): boolean {
+  const today = briefingDate(now);
+  return config.onOpen && config.topics.length > 0 && !episodes.some(episode => episode.date === today);
+}
+
+export function formatBriefingDate(date: string, locale: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+// A briefing has one voice, so podcast answers are read without speaker names.
+function spokenText(results: SearchResponse): string {
+  return results.dialogue ? results.dialogue.map(turn => turn.text).join(' ') : results.summary;
+}
+
+/** The briefing as spoken: an intro, each topic's answer with a lead-in, and a sign-off. */
+export function buildBriefingScript(segments: BriefingSegment[], date: string, t: Translate, locale: string): string[] {
+  const leadIn = (i: number) => {
+    if (i === 0) return 'briefing.scriptFirst';
+    return i === segments.length - 1 ? 'briefing.scriptLast' : 'briefing.scriptNext';
+  };
+  return [
+    t('briefing.scriptIntro', { date: formatBriefingDate(date, locale), count: segments.length }),
+    ...segments.map((segment, i) => `${t(leadIn(i), { topic: segment.topic })} ${spokenText(segment.results)}`),
+    t('briefing.scriptOutro'),
+  ];
+}
+
+/**
+ * Searches every topic for recent news in parallel, stitches the answers
+ * into one script and voices it part by part. Topics whose search fails are
+ * skipped; if all of them fail, so does the briefing.
+ */
+export async function generateBriefing(
+  provider: AIProvider,
+  topics: string[],
+  t: Translate,
+  locale: string,
+  onProgress: (progress: BriefingProgress) => void,
+  signal?: AbortSignal,
+): Promise<BriefingEpisode> {
+  const date = briefingDate();
+  let searched = 0;
+  onProgress({ stage: 'searching', done: 0, total: topics.length });
+  const settled = await Promise.allSettled(topics.map(async topic => {
+    const results = await provider.searchAndSummarize(topic, signal, { recentDays: RECENT_DAYS });
+    onProgress({ stage: 'searching', done: ++searched, total: topics.length });
+    return results;
+  }));
+
+  const segments: BriefingSegment[] = [];
+  const skippedTopics: string[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') segments.push({ topic: topics[i], results: outcome.value });
+    else skippedTopics.push(topics[i]);
+  });
+  if (segments.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+
+  const script = buildBriefingScript(segments, date, t, locale);
+  const chunks: Uint8Array[] = [];
+  onProgress({ stage: 'voicing', done: 0, total: script.length });
+  for (const part of script) {
+    chunks.push(decodeBase64(await provider.generateSpeech(part, undefined, signal)));
+    onProgress({ stage: 'voicing', done: chunks.length, total: script.length });
+  }
+
+  return {
+    id: Date.now().toString(),
+    date,
+    createdAt: Date.now(),
+    segments,
+    skippedTopics,
+    script,
+    audioBase64: encodeBase64(concatBytes(chunks)),
+    audioSegments: chunks.map(chunk => chunk.length / 2),
+  };
+}
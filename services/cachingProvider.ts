@@ -0,0 +1,203 @@
+import { ComparedItem, ComparisonSynthesis, SearchResponse, SessionTurn, Settings } from "../types";
+import type { AIProvider, CacheEvent, SearchOptions } from "./provider";
+import { TtlCache } from "./ttlCache";
+
+interface StreamedSearch {
+  segments: string[];
+  result: SearchResponse;
+}
+
+/** One upstream request shared by every caller that asked for the same key. */
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number;
+  /** Segments received so far, replayed to callers that join mid-stream. */
+  segments: string[];
+  listeners: Set<(segment: string) => void>;
+}
+
+function cancelled(): DOMException {
+  return new DOMException('The request was cancelled.', 'AbortError');
+}
+
+// Case, spacing and trailing punctuation don't change what gets searched.
+function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[?.!]+$/, '');
+}
+
+/**
+ * Wraps another provider with a time-limited cache for search results and
+ * speech, keyed on the normalized input and the settings that shape the
+ * output. Identical requests made while one is in flight share it; the
+ * upstream call is only aborted once every caller has given up on it.
+ */
+export class CachingProvider implements AIProvider {
+  onCacheEvent?: (event: CacheEvent) => void;
+
+  private settings: Settings;
+  private searches = new TtlCache<StreamedSearch>(100, 0);
+  private speech = new TtlCache<string>(150, 0);
+  private flights = new Map<string, Flight<unknown>>();
+
+  constructor(private inner: AIProvider, settings: Settings) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: Settings) {
+    this.settings = settings;
+    this.inner.updateSettings(settings);
+  }
+
+  generateRandomPrompt(signal?: AbortSignal): Promise<string> {
+    return this.inner.generateRandomPrompt(signal);
+  }
+
+  tweakQuery(query: string, signal?: AbortSignal): Promise<string> {
+    return this.inner.tweakQuery(query, signal);
+  }
+
+  refineQuery(originalQuery: string, currentSummary: string, signal?: AbortSignal): Promise<string> {
+    return this.inner.refineQuery(originalQuery, currentSummary, signal);
+  }
+
+  transcribeAudio(audioBase64: string, mimeType?: string, signal?: AbortSignal): Promise<string> {
+    return this.inner.transcribeAudio(audioBase64, mimeType, signal);
+  }
+
+  synthesizeComparison(query: string, items: ComparedItem[], signal?: AbortSignal): Promise<ComparisonSynthesis> {
+    return this.inner.synthesizeComparison(query, items, signal);
+  }
+
+  translateSummary(results: SearchResponse, language: string, signal?: AbortSignal): Promise<SearchResponse> {
+    return this.inner.translateSummary(results, language, signal);
+  }
+
+  async searchAndSummarize(query: string, signal?: AbortSignal, options?: SearchOptions): Promise<SearchResponse> {
+    // What counts as recent moves on, so those searches aren't cached.
+    if (options?.recentDays) return this.inner.searchAndSummarize(query, signal, options);
+    return this.streamSearchAndSummarize(query, () => {}, [], signal);
+  }
+
+  async streamSearchAndSummarize(query: string, onSegment: (segment: string) => void, context: SessionTurn[] = [], signal?: AbortSignal): Promise<SearchResponse> {
+    const key = this.searchKey(query, context);
+    const cached = this.searches.get(key);
+    if (cached) {
+      this.onCacheEvent?.({ operation: 'search', outcome: 'hit', signal });
+      cached.segments.forEach(onSegment);
+      return cached.result;
+    }
+
+    const ttlMs = this.ttlMs();
+    const { result } = await this.share<StreamedSearch>(key, 'search', async (flightSignal, emit) => {
+      const segments: string[] = [];
+      const result = await this.inner.streamSearchAndSummarize(query, segment => {
+        segments.push(segment);
+        emit(segment);
+      }, context, flightSignal);
+      if (ttlMs > 0) this.searches.set(key, { segments, result }, ttlMs);
+      return { segments, result };
+    }, signal, onSegment);
+    return result;
+  }
+
+  generateSpeech(text: string, voiceName: string = this.settings.voiceName, signal?: AbortSignal): Promise<string> {
+    const { ttsModel, speakingStyle } = this.settings;
+    const key = JSON.stringify(['speech', ttsModel, speakingStyle, voiceName, text.trim()]);
+    return this.cachedSpeech(key, flightSignal => this.inner.generateSpeech(text, voiceName, flightSignal), signal);
+  }
+
+  generateDialogueSpeech(script: string, signal?: AbortSignal): Promise<string> {
+    const { ttsModel, podcastHosts } = this.settings;
+    const key = JSON.stringify(['dialogue', ttsModel, podcastHosts, script.trim()]);
+    return this.cachedSpeech(key, flightSignal => this.inner.generateDialogueSpeech(script, flightSignal), signal);
+  }
+
+  private async cachedSpeech(key: string, run: (signal: AbortSignal) => Promise<string>, signal?: AbortSignal): Promise<string> {
+    const cached = this.speech.get(key);
+    if (cached) {
+      this.onCacheEvent?.({ operation: 'speech', outcome: 'hit', signal });
+      return cached;
+    }
+    const ttlMs = this.ttlMs();
+    return this.share<string>(key, 'speech', async flightSignal => {
+      const audio = await run(flightSignal);
+      if (ttlMs > 0) this.speech.set(key, audio, ttlMs);
+      return audio;
+    }, signal);
+  }
+
+  private searchKey(query: string, context: SessionTurn[]): string {
+    const { searchModel, summaryLength, mode, podcastHosts, temperatures, sourceFilter, outputLanguage } = this.settings;
+    return JSON.stringify([
+      'search',
+      searchModel,
+      outputLanguage,
+      summaryLength,
+      mode,
+      mode === 'podcast' ? podcastHosts.map(host => host.name) : null,
+      temperatures.search,
+      sourceFilter,
+      context.map(turn => [turn.query, turn.results.summary]),
+      normalizeQuery(query),
+    ]);
+  }
+
+  private ttlMs(): number {
+    return Math.max(0, this.settings.cacheTtlMinutes) * 60_000;
+  }
+
+  /** Starts the request for `key`, or joins the one already running. */
+  private share<T>(
+    key: string,
+    operation: CacheEvent['operation'],
+    run: (signal: AbortSignal, emit: (segment: string) => void) => Promise<T>,
+    signal?: AbortSignal,
+    onSegment?: (segment: string) => void,
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(cancelled());
+
+    let flight = this.flights.get(key) as Flight<T> | undefined;
+    if (flight) {
+      this.onCacheEvent?.({ operation, outcome: 'shared', signal });
+      flight.segments.forEach(segment => onSegment?.(segment));
+    } else {
+      this.onCacheEvent?.({ operation, outcome: 'miss', signal });
+      const controller = new AbortController();
+      const started: Flight<T> = { promise: undefined!, controller, waiters: 0, segments: [], listeners: new Set() };
+      started.promise = run(controller.signal, segment => {
+        started.segments.push(segment);
+        started.listeners.forEach(listener => listener(segment));
+      }).finally(() => {
+        if (this.flights.get(key) === started) this.flights.delete(key);
+      });
+      this.flights.set(key, started as Flight<unknown>);
+      flight = started;
+    }
+
+    const joined = flight;
+    joined.waiters++;
+    if (onSegment) joined.listeners.add(onSegment);
+
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        if (onSegment) joined.listeners.delete(onSegment);
+        signal?.removeEventListener('abort', onAbort);
+        joined.waiters--;
+      };
+      const onAbort = () => {
+        leave();
+        if (joined.waiters === 0) {
+          joined.controller.abort();
+          if (this.flights.get(key) === joined) this.flights.delete(key);
+        }
+        reject(cancelled());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      joined.promise.then(
+        value => { leave(); resolve(value); },
+        err => { leave(); reject(err); },
+      );
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseComparison, splitComparison } from './comparison';
+import { EmptyResponseError } from './errors';
+
+const comparison = (fields: Record<string, unknown>) => JSON.stringify({ verdict: 'Go for CLIs.', script: 'Both work; Go is simpler.', language: 'en', ...fields });
+
+describe('splitComparison', () => {
+  it('splits on "vs" and "versus"', () => {
+    expect(splitComparison('Rust vs. Go versus Zig')).toEqual(['Rust', 'Go', 'Zig']);
+  });
+
+  it('needs at least two options', () => {
+    expect(splitComparison('Rust for CLIs')).toEqual([]);
+  });
+});
+
+describe('parseComparison', () => {
+  it('keeps rows with one text cell per option', () => {
+    const parsed = parseComparison(comparison({ rows: [{ dimension: ' Speed ', values: ['Fast', 'Fast enough'] }] }), 2);
+
+    expect(parsed).toEqual({
+      rows: [{ dimension: 'Speed', values: ['Fast', 'Fast enough'] }],
+      verdict: 'Go for CLIs.',
+      script: 'Both work; Go is simpler.',
+      language: 'en',
+    });
+  });
+
+  it('drops malformed rows', () => {
+    const parsed = parseComparison(comparison({
+      rows: [
+        { dimension: 'Speed', values: ['Fast'] },
+        { dimension: 'Tooling', values: ['Cargo', 3] },
+        { dimension: '', values: ['a', 'b'] },
+        { dimension: 'Safety', values: 'both' },
+        'Learning curve',
+        { dimension: 'Ecosystem', values: ['Large', 'Large'] },
+      ],
+    }), 2);
+
+    expect(parsed.rows).toEqual([{ dimension: 'Ecosystem', values: ['Large', 'Large'] }]);
+  });
+
+  it('tolerates rows that aren\'t a list', () => {
+    expect(parseComparison(comparison({ rows: { dimension: 'Speed' } }), 2).rows).toEqual([]);
+  });
+
+  it('rejects a missing or non-text verdict or script', () => {
+    expect(() => parseComparison(comparison({ verdict: { text: 'Go' } }), 2)).toThrow(EmptyResponseError);
+    expect(() => parseComparison(comparison({ script: '  ' }), 2)).toThrow(EmptyResponseError);
+    expect(() => parseComparison('[]', 2)).toThrow(EmptyResponseError);
+    expect(() => parseComparison('{"verdict": "Go', 2)).toThrow(EmptyResponseError);
+  });
+
+  it('ignores a language that isn\'t a language code', () => {
+    expect(parseComparison(comparison({ language: 42 }), 2).language).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { ComparedItem, ComparisonResponse, ComparisonRow, ComparisonSynthesis } from "../types";
+import { EmptyResponseError } from "./errors";
+import type { AIProvider } from "./provider";
+import { toLanguage } from "./structuredSummary";
+
+export const MAX_COMPARED_ITEMS = 4;
+
+const SEPARATOR = /\s+(?:vs\.?|versus)\s+/i;
+
+/**
+ * The options named in a "Rust vs Go for CLIs" style question, or an empty
+ * list when it doesn't compare at least two. Anything past the fourth
+ * option is dropped.
+ */
+export function splitComparison(query: string): string[] {
+  const labels = query.split(SEPARATOR).map(label => label.trim()).filter(Boolean);
+  return labels.length >= 2 ? labels.slice(0, MAX_COMPARED_ITEMS) : [];
+}
+
+// An option on its own ("Rust") is too vague to search, so each search
+// keeps the whole question as context.
+function itemQuery(label: string, query: string): string {
+  return `${label}, in the context of "${query}"`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function trimmedString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Validates the model's comparison of `itemCount` options. Rows without a
+ * dimension, or without exactly one text cell per option, are dropped; a
+ * comparison without a verdict and a script is an EmptyResponseError.
+ */
+export function parseComparison(text: string, itemCount: number): ComparisonSynthesis {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text || '{}');
+  } catch {
+    throw new EmptyResponseError("The model returned an unreadable comparison.");
+  }
+  const fields = isRecord(parsed) ? parsed : {};
+  const verdict = trimmedString(fields.verdict);
+  const script = trimmedString(fields.script);
+  if (!verdict || !script) throw new EmptyResponseError("The model returned an empty comparison.");
+
+  const rows = (Array.isArray(fields.rows) ? fields.rows : []).flatMap((row): ComparisonRow[] => {
+    if (!isRecord(row) || !Array.isArray(row.values)) return [];
+    const dimension = trimmedString(row.dimension);
+    const values: unknown[] = row.values;
+    if (!dimension || values.length !== itemCount || !values.every(value => typeof value === 'string')) return [];
+    return [{ dimension, values: values as string[] }];
+  });
+  return { rows, verdict, script, language: toLanguage(fields.language) };
+}
+
+/**
+ * Researches every option in parallel, then has the provider compare them.
+ * If one search fails the others are cancelled. `onItem` hears about each
+ * option as its answer arrives.
+ */
+export async function runComparison(
+  provider: AIProvider,
+  query: string,
+  labels: string[],
+  onItem: (item: ComparedItem) => void,
+  signal?: AbortSignal,
+): Promise<ComparisonResponse> {
+  const siblings = new AbortController();
+  const abort = () => siblings.abort();
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort);
+  try {
+    const items = await Promise.all(labels.map(async label => {
+      const search = itemQuery(label, query);
+      try {
+        const item: ComparedItem = { label, query: search, results: await provider.searchAndSummarize(search, siblings.signal) };
+        onItem(item);
+        return item;
+      } catch (err) {
+        siblings.abort();
+        throw err;
+      }
+    }));
+    const synthesis = await provider.synthesizeComparison(query, items, signal);
+    return { ...synthesis, query, items };
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+}
@@ -0,0 +1,190 @@
+import { MessageKey, Translate, translateEnglish } from "./i18n";
+
+export type MicrophoneErrorCode = 'mic-denied' | 'mic-missing' | 'mic-busy' | 'mic-unavailable';
+
+/** Stable identifiers for each error type, so they survive the trip through the proxy. */
+export type ErrorCode = 'quota' | 'auth' | 'safety' | 'network' | 'timeout' | 'server' | 'empty-audio' | 'missing-audio' | 'empty-response' | 'no-speech' | 'invalid-link' | MicrophoneErrorCode | 'unknown';
+
+export class SonicError extends Error {
+  readonly code: ErrorCode = 'unknown';
+  /** Whether trying the same request again may succeed. */
+  readonly retryable: boolean = false;
+}
+
+/** Rate limit or quota exhausted (HTTP 429). */
+export class QuotaError extends SonicError {
+  readonly code: ErrorCode = 'quota';
+  readonly retryable = true;
+
+  constructor(message: string, public retryAfterSeconds?: number) {
+    super(message);
+  }
+}
+
+/** The API key is missing, invalid or lacks access to the model. */
+export class AuthError extends SonicError {
+  readonly code: ErrorCode = 'auth';
+}
+
+/** The prompt or response was blocked by safety filters. */
+export class SafetyBlockError extends SonicError {
+  readonly code: ErrorCode = 'safety';
+}
+
+/** The request never reached the service, or the connection dropped. */
+export class NetworkError extends SonicError {
+  readonly code: ErrorCode = 'network';
+  readonly retryable = true;
+}
+
+export class TimeoutError extends NetworkError {
+  readonly code: ErrorCode = 'timeout';
+}
+
+/** The service failed on its side (HTTP 5xx). */
+export class ServerError extends SonicError {
+  readonly code: ErrorCode = 'server';
+  readonly retryable = true;
+}
+
+/** The speech model answered without any audio. */
+export class EmptyAudioError extends SonicError {
+  readonly code: ErrorCode = 'empty-audio';
+}
+
+/** Audio was needed, e.g. for an export, before any had been saved. */
+export class MissingAudioError extends SonicError {
+  readonly code: ErrorCode = 'missing-audio';
+}
+
+/** The model answered, but with nothing usable: empty, or JSON that doesn't parse. */
+export class EmptyResponseError extends SonicError {
+  readonly code: ErrorCode = 'empty-response';
+  readonly retryable = true;
+}
+
+/** Nothing intelligible was heard in a voice recording. */
+export class NoSpeechError extends SonicError {
+  readonly code: ErrorCode = 'no-speech';
+}
+
+/** A share link that was cut short, edited or made by an incompatible version. */
+export class InvalidLinkError extends SonicError {
+  readonly code: ErrorCode = 'invalid-link';
+}
+
+/** The microphone could not be started; `code` says why. */
+export class MicrophoneError extends SonicError {
+  constructor(message: string, readonly code: MicrophoneErrorCode) {
+    super(message);
+  }
+}
+
+const MICROPHONE_MESSAGES: Record<MicrophoneErrorCode, [title: MessageKey, message: MessageKey]> = {
+  'mic-denied': ['error.micDeniedTitle', 'error.micDeniedMessage'],
+  'mic-missing': ['error.micMissingTitle', 'error.micMissingMessage'],
+  'mic-busy': ['error.micBusyTitle', 'error.micBusyMessage'],
+  'mic-unavailable': ['error.micUnavailableTitle', 'error.micUnavailableMessage'],
+};
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/** Rebuilds a typed error from its code, e.g. as reported by the proxy. */
+export function errorFromCode(code: string | undefined, message: string, retryAfterSeconds?: number): SonicError {
+  switch (code) {
+    case 'quota': return new QuotaError(message, retryAfterSeconds);
+    case 'auth': return new AuthError(message);
+    case 'safety': return new SafetyBlockError(message);
+    case 'network': return new NetworkError(message);
+    case 'timeout': return new TimeoutError(message);
+    case 'server': return new ServerError(message);
+    case 'empty-audio': return new EmptyAudioError(message);
+    case 'missing-audio': return new MissingAudioError(message);
+    case 'empty-response': return new EmptyResponseError(message);
+    case 'no-speech': return new NoSpeechError(message);
+    case 'invalid-link': return new InvalidLinkError(message);
+    case 'mic-denied':
+    case 'mic-missing':
+    case 'mic-busy':
+    case 'mic-unavailable':
+      return new MicrophoneError(message, code);
+    default: return new SonicError(message);
+  }
+}
+
+/** Maps HTTP statuses from the API (or the proxy) onto the error types above. */
+export function errorFromStatus(status: number, message: string, retryAfterSeconds?: number): SonicError {
+  if (status === 429) return new QuotaError(message, retryAfterSeconds);
+  if (status === 401 || status === 403 || /API key/i.test(message)) return new AuthError(message);
+  if (status === 408 || status === 504) return new TimeoutError(message);
+  if (status >= 500) return new ServerError(message);
+  return new SonicError(message);
+}
+
+/**
+ * Turns anything thrown by the SDK or fetch into a SonicError. Abort errors
+ * pass through untouched so callers can tell cancellation from failure.
+ */
+export function toSonicError(err: unknown): unknown {
+  if (err instanceof SonicError || isAbortError(err)) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return errorFromStatus(status, message);
+  // Browsers report "Failed to fetch", Node "fetch failed".
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return new NetworkError(message);
+  return err;
+}
+
+export interface ErrorDescription {
+  title: string;
+  message: string;
+}
+
+/** User-facing wording for an error, with a hint at what to do about it. */
+export function describeError(err: unknown, fallback: string, t: Translate = translateEnglish): ErrorDescription {
+  if (err instanceof QuotaError) {
+    return {
+      title: t('error.quotaTitle'),
+      message: err.retryAfterSeconds
+        ? t('error.quotaRetryAfter', { seconds: err.retryAfterSeconds })
+        : t('error.quotaMessage'),
+    };
+  }
+  if (err instanceof AuthError) {
+    return { title: t('error.authTitle'), message: t('error.authMessage') };
+  }
+  if (err instanceof SafetyBlockError) {
+    return { title: t('error.safetyTitle'), message: t('error.safetyMessage') };
+  }
+  if (err instanceof TimeoutError) {
+    return { title: t('error.timeoutTitle'), message: t('error.timeoutMessage') };
+  }
+  if (err instanceof NetworkError) {
+    return { title: t('error.networkTitle'), message: t('error.networkMessage') };
+  }
+  if (err instanceof ServerError) {
+    return { title: t('error.serverTitle'), message: t('error.serverMessage') };
+  }
+  if (err instanceof EmptyAudioError) {
+    return { title: t('error.emptyAudioTitle'), message: t('error.emptyAudioMessage') };
+  }
+  if (err instanceof MissingAudioError) {
+    return { title: t('error.missingAudioTitle'), message: t('error.missingAudioMessage') };
+  }
+  if (err instanceof EmptyResponseError) {
+    return { title: t('error.emptyResponseTitle'), message: t('error.emptyResponseMessage') };
+  }
+  if (err instanceof NoSpeechError) {
+    return { title: t('error.noSpeechTitle'), message: t('error.noSpeechMessage') };
+  }
+  if (err instanceof InvalidLinkError) {
+    return { title: t('error.invalidLinkTitle'), message: t('error.invalidLinkMessage') };
+  }
+  if (err instanceof MicrophoneError) {
+    const [title, message] = MICROPHONE_MESSAGES[err.code];
+    return { title: t(title), message: t(message) };
+  }
+  return { title: t('error.unknownTitle'), message: (err instanceof Error && err.message) || fallback };
+}
@@ -0,0 +1,189 @@
+import { SessionTurn } from "../types";
+import { concatBytes, decodeBase64, encodeWav } from "./audio";
+import { MissingAudioError } from "./errors";
+import { sourceDomain } from "./sources";
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds an uncompressed (stored) zip archive. WAV and JSON payloads are
+ * small enough that skipping deflate keeps this dependency-free.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 file names
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, stamp.time, true);
+    lv.setUint16(12, stamp.date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, stamp.time, true);
+    cv.setUint16(14, stamp.date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return concatBytes([...locals, ...centrals, end]);
+}
+
+export function exportFileName(item: SessionTurn, extension: string): string {
+  const slug = item.query
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'summary';
+  const day = new Date(item.timestamp).toISOString().slice(0, 10);
+  return `${slug}-${day}.${extension}`;
+}
+
+export function buildWav(item: SessionTurn): Uint8Array {
+  if (!item.audioBase64) throw new MissingAudioError("This summary has no audio to export yet.");
+  return encodeWav(decodeBase64(item.audioBase64), 24000, 1, {
+    INAM: item.query,
+    ICRD: new Date(item.timestamp).toISOString(),
+    ICMT: item.results.summary,
+    ISFT: 'Gemini Sonic',
+  });
+}
+
+export function buildTranscript(item: SessionTurn): string {
+  const { results } = item;
+  const lines = [
+    `# ${item.query}`,
+    '',
+    `*Generated ${new Date(item.timestamp).toLocaleString()} · Search query used: "${results.actualQuery}"*`,
+    '',
+    results.dialogue ? '## Transcript' : '## Summary',
+    '',
+    ...(results.dialogue
+      ? results.dialogue.map(turn => `**${turn.speaker}:** ${turn.text}\n`)
+      : [results.summary]),
+    '',
+    ...(results.keyPoints?.length
+      ? ['## Key points', '', ...results.keyPoints.map(point => `- ${point}`), '']
+      : []),
+    '## Sources',
+    '',
+    ...(results.sources.length > 0
+      ? results.sources.map((source, i) => `${i + 1}. [${source.title}](${source.uri}) — ${[sourceDomain(source), source.publishedAt].filter(Boolean).join(', ')}`)
+      : ['_No grounding sources were returned._']),
+    '',
+    ...(results.followUps?.length
+      ? ['## Suggested follow-ups', '', ...results.followUps.map(question => `- ${question}`), '']
+      : []),
+  ];
+  return lines.join('\n');
+}
+
+/** Zip holding the WAV (when available), a Markdown transcript and the raw response. */
+export function buildBundle(item: SessionTurn): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [
+    { name: 'transcript.md', data: encoder.encode(buildTranscript(item)) },
+    { name: 'response.json', data: encoder.encode(JSON.stringify(item.results, null, 2)) },
+  ];
+  if (item.audioBase64) {
+    entries.unshift({ name: 'summary.wav', data: buildWav(item) });
+  }
+  return createZip(entries, new Date(item.timestamp));
+}
+
+/**
+ * Zip of a whole playlist: each item's WAV and transcript, numbered in play
+ * order, plus an M3U playlist that lists the WAVs.
+ */
+export function buildPlaylistBundle(items: SessionTurn[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const playlist = ['#EXTM3U'];
+  items.forEach((item, i) => {
+    const base = `${String(i + 1).padStart(2, '0')}-${exportFileName(item, '').slice(0, -1)}`;
+    entries.push({ name: `${base}.md`, data: encoder.encode(buildTranscript(item)) });
+    if (!item.audioBase64) return;
+    // Three bytes per four base64 characters, two bytes per 24 kHz sample.
+    const seconds = Math.round(item.audioBase64.length * 3 / 4 / 2 / 24000);
+    entries.push({ name: `${base}.wav`, data: buildWav(item) });
+    playlist.push(`#EXTINF:${seconds},${item.query.replace(/[\r\n]+/g, ' ')}`, `${base}.wav`);
+  });
+  entries.unshift({ name: 'playlist.m3u', data: encoder.encode(playlist.join('\n') + '\n') });
+  return createZip(entries);
+}
+
+export function downloadFile(data: Uint8Array | string, fileName: string, mimeType: string) {
+  const blob = new Blob([data as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
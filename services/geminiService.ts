@@ -1,119 +1,461 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { SearchResponse, SearchResult } from "../types";
+import { Chat, Content, FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, GoogleSearch, GroundingMetadata, Modality, Type } from "@google/genai";
+import { Citation, ComparedItem, ComparisonSynthesis, SearchResponse, SearchResult, SessionTurn, Settings } from "../types";
+import { parseComparison } from "./comparison";
+import { DialogueSplitter, formatTurn, SentenceSplitter, splitDialogue } from "./sentences";
+import { parseStructuredSummary, schemaInstructions, StructuredSummary, SummaryExtractor, unwrapJsonFragment } from "./structuredSummary";
+import { EmptyAudioError, EmptyResponseError, NoSpeechError, SafetyBlockError, toSonicError } from "./errors";
+import type { AIProvider, SearchOptions } from "./provider";
+import { openStream, withRetry } from "./request";
+import { enrichSources } from "./sources";
+import { applySourceFilter, sourceInstruction } from "./sourceFilter";
+import { DEFAULT_SETTINGS, languageName, SUMMARY_LENGTHS } from "./settings";
 
-export class GeminiService {
+const TEXT_TIMEOUT_MS = 20_000;
+const SEARCH_TIMEOUT_MS = 45_000;
+// Grounded answers can pause while the model searches, but not indefinitely.
+const STREAM_IDLE_TIMEOUT_MS = 45_000;
+const SPEECH_TIMEOUT_MS = 30_000;
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+]);
+
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new SafetyBlockError(response.promptFeedback?.blockReasonMessage || `Response blocked (${blockReason || finishReason}).`);
+  }
+}
+
+// Recency is enforced on the search itself as well as asked for in the prompt.
+function googleSearch({ recentDays }: SearchOptions): GoogleSearch {
+  if (!recentDays) return {};
+  const endTime = new Date();
+  const startTime = new Date(endTime.getTime() - recentDays * 86_400_000);
+  return { timeRangeFilter: { startTime: startTime.toISOString(), endTime: endTime.toISOString() } };
+}
+
+export class GeminiService implements AIProvider {
   private ai: GoogleGenAI;
+  private settings: Settings;
 
-  constructor() {
-    // Correct initialization using process.env.API_KEY directly.
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  // The browser only has process.env.API_KEY in dev direct mode; the proxy
+  // server passes its own key.
+  constructor(settings: Settings = DEFAULT_SETTINGS, apiKey: string | undefined = process.env.API_KEY) {
+    this.ai = new GoogleGenAI({ apiKey });
+    this.settings = settings;
   }
 
-  async generateRandomPrompt(): Promise<string> {
-    const response = await this.ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+  updateSettings(settings: Settings) {
+    this.settings = settings;
+  }
+
+  async generateRandomPrompt(signal?: AbortSignal): Promise<string> {
+    const response = await this.generate({
+      model: this.settings.searchModel,
       contents: `Generate a single, short, and highly interesting search query for a curiosity-driven user. 
       It could be about science, history, current trending technology, or a "how it works" topic. 
+      Write it in ${languageName(this.promptLanguage())}.
       Return ONLY the search query text. No quotes, no intro, just the query.`,
       config: {
-        temperature: 1.0, // High temperature for more randomness
+        temperature: this.settings.temperatures.inspire, // High by default for more randomness
       },
-    });
+    }, signal);
 
     return response.text?.trim() || "Why is the sky blue?";
   }
 
-  async tweakQuery(query: string): Promise<string> {
-    const response = await this.ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+  async tweakQuery(query: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.generate({
+      model: this.settings.searchModel,
       contents: `Refine and optimize the following search query to get the most accurate and comprehensive results from a web search: "${query}". 
-      Make it professional, specific, and clear. 
+      Make it professional, specific, and clear, and keep it in the language it was written in. 
       Return ONLY the refined query text, no explanation.`,
       config: {
-        temperature: 0.5,
+        temperature: this.settings.temperatures.workshop,
       },
-    });
+    }, signal);
 
     return response.text?.trim() || query;
   }
 
-  async refineQuery(originalQuery: string, currentSummary: string): Promise<string> {
-    const response = await this.ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+  async refineQuery(originalQuery: string, currentSummary: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.generate({
+      model: this.settings.searchModel,
       contents: `The user previously searched for: "${originalQuery}". 
       The summary provided was: "${currentSummary}".
-      Generate a more specific and detailed search query that would help the user dive deeper into this topic. 
+      Generate a more specific and detailed search query that would help the user dive deeper into this topic, in the language of the summary. 
       Return only the new search query text, nothing else.`,
       config: {
-        temperature: 0.7,
+        temperature: this.settings.temperatures.diveDeeper,
       },
-    });
+    }, signal);
 
     return response.text?.trim() || `${originalQuery} in detail`;
   }
 
-  async searchAndSummarize(query: string): Promise<SearchResponse> {
-    const response = await this.ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Perform a Google Search to answer this query: "${query}". 
-      First, provide a clear, concise summary of the results in 3 sentences. 
-      Second, explicitly state what specific search query you used to find this information at the very end of your response, prefixed with "QUERY_USED: ".`,
+  async transcribeAudio(audioBase64: string, mimeType: string = 'audio/wav', signal?: AbortSignal): Promise<string> {
+    const response = await this.generate({
+      model: this.settings.searchModel,
+      contents: [{
+        parts: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: `Transcribe this spoken search query exactly as said, in the language it was spoken in. 
+          Return ONLY the transcript text. No quotes, no intro. If nothing intelligible was said, return an empty response.` },
+        ],
+      }],
+      config: {
+        temperature: 0,
+      },
+    }, signal);
+
+    const transcript = response.text?.trim();
+    if (!transcript) throw new NoSpeechError("No speech was detected in the recording.");
+    return transcript;
+  }
+
+  async searchAndSummarize(query: string, signal?: AbortSignal, options: SearchOptions = {}): Promise<SearchResponse> {
+    const response = await this.generate({
+      model: this.settings.searchModel,
+      contents: this.buildSearchPrompt(query, false, options.recentDays),
+      config: {
+        tools: [{ googleSearch: googleSearch(options) }],
+        temperature: this.settings.temperatures.search,
+      },
+    }, signal, SEARCH_TIMEOUT_MS);
+
+    return this.toSearchResponse(query, parseStructuredSummary(response.text || ""), response.candidates?.[0]?.groundingMetadata);
+  }
+
+  /**
+   * Streams the grounded summary, handing each complete segment to
+   * `onSegment` as soon as it arrives so speech can start early. Segments
+   * are sentences, or whole "Speaker: text" turns in podcast mode. Earlier
+   * turns of the session are replayed as chat history so follow-ups like
+   * "what about in Europe?" resolve against them.
+   */
+  async streamSearchAndSummarize(query: string, onSegment: (segment: string) => void, context: SessionTurn[] = [], signal?: AbortSignal): Promise<SearchResponse> {
+    const message = this.buildSearchPrompt(query, context.length > 0);
+    const stream = await openStream(
+      streamSignal => this.createChat(context, streamSignal).sendMessageStream({ message }),
+      { signal, timeoutMs: SEARCH_TIMEOUT_MS, idleTimeoutMs: STREAM_IDLE_TIMEOUT_MS },
+    );
+
+    const splitter = this.settings.mode === 'podcast'
+      ? new DialogueSplitter(this.hostNames())
+      : new SentenceSplitter();
+    const extractor = new SummaryExtractor();
+    let fullText = "";
+    let spoken = "";
+    let groundingMetadata: GroundingMetadata | undefined;
+
+    try {
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        fullText += chunk.text || "";
+        groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || groundingMetadata;
+
+        const text = extractor.push(chunk.text || "");
+        spoken += text;
+        splitter.push(text).forEach(onSegment);
+      }
+    } catch (err) {
+      throw toSonicError(err);
+    }
+
+    const structured = parseStructuredSummary(fullText);
+    // Speak whatever the stream couldn't hand out, e.g. when the answer
+    // wasn't in the requested shape and the summary was only found now.
+    const said = spoken.trimStart();
+    if (structured.summary.startsWith(said)) {
+      splitter.push(structured.summary.slice(said.length)).forEach(onSegment);
+    }
+    splitter.flush().forEach(onSegment);
+    return this.toSearchResponse(query, structured, groundingMetadata);
+  }
+
+  // The chat is rebuilt from the stored turns on every question, so restored
+  // sessions keep their context and settings changes apply mid-session.
+  private createChat(context: SessionTurn[], abortSignal?: AbortSignal): Chat {
+    const history: Content[] = context.flatMap(turn => [
+      { role: 'user', parts: [{ text: turn.query }] },
+      { role: 'model', parts: [{ text: turn.results.summary }] },
+    ]);
+    return this.ai.chats.create({
+      model: this.settings.searchModel,
       config: {
         tools: [{ googleSearch: {} }],
-        temperature: 0.2,
+        temperature: this.settings.temperatures.search,
+        abortSignal,
       },
+      history,
     });
+  }
+
+  private generate(params: GenerateContentParameters, signal?: AbortSignal, timeoutMs: number = TEXT_TIMEOUT_MS): Promise<GenerateContentResponse> {
+    return withRetry(async attemptSignal => {
+      const response = await this.ai.models.generateContent({
+        ...params,
+        config: { ...params.config, abortSignal: attemptSignal },
+      });
+      assertNotBlocked(response);
+      return response;
+    }, { signal, timeoutMs });
+  }
+
+  private hostNames(): string[] {
+    return this.settings.podcastHosts.map(host => host.name);
+  }
+
+  // Random prompts have no question to take the language from, so fall
+  // back to the interface language.
+  private promptLanguage(): string {
+    const { outputLanguage, interfaceLanguage } = this.settings;
+    return outputLanguage === 'auto' ? interfaceLanguage : outputLanguage;
+  }
 
-    const fullText = response.text || "";
-    let summary = fullText;
-    let actualQuery = query;
+  private languageInstruction(): string {
+    const { outputLanguage } = this.settings;
+    return outputLanguage === 'auto'
+      ? 'Write the answer in the language the query is written in, even if the search results are in another language.'
+      : `Write the answer in ${languageName(outputLanguage)}, whatever language the query or the search results are in.`;
+  }
 
-    // Extract the internal query used if possible
-    const queryMatch = fullText.match(/QUERY_USED:\s*(.*)/i);
-    if (queryMatch) {
-      actualQuery = queryMatch[1].trim();
-      summary = fullText.replace(/QUERY_USED:\s*.*$/i, '').trim();
+  private buildSearchPrompt(query: string, isFollowUp = false, recentDays?: number): string {
+    const length = SUMMARY_LENGTHS[this.settings.summaryLength];
+    const recency = recentDays
+      ? `Only use results published in the last ${recentDays === 1 ? 'day' : `${recentDays} days`}, and say so briefly if there is nothing new.`
+      : '';
+    const ask = `${isFollowUp
+      ? `This is a follow-up to our conversation so far; interpret it in that context. Perform a Google Search to answer: "${query}".`
+      : `Perform a Google Search to answer this query: "${query}".`} 
+      ${this.languageInstruction()} ${sourceInstruction(this.settings.sourceFilter)} ${recency}`;
+    if (this.settings.mode === 'podcast') {
+      const [a, b] = this.hostNames();
+      return `${ask} 
+      Write a lively, natural podcast conversation of ${length.turns} turns between two hosts, ${a} and ${b}, discussing what the results say. 
+      ${schemaInstructions(`the conversation as one string, each turn on its own line in the form "${a}: ..." or "${b}: ...", alternating speakers, sticking to the facts found, with no stage directions, headings or markdown`)}`;
     }
+    return `${ask} 
+      ${schemaInstructions(`a clear, concise summary of the results ${length.instruction}, in plain prose without markdown`)}`;
+  }
+
+  private toSearchResponse(query: string, structured: StructuredSummary, groundingMetadata?: GroundingMetadata): SearchResponse {
+    let summary = structured.summary;
+    // The grounding metadata records the searches that actually ran; the
+    // model's own list fills in when it is missing.
+    const searchQueries = [...new Set([...(groundingMetadata?.webSearchQueries || []), ...structured.queries])];
+    const actualQuery = searchQueries[0] || query;
+    const extras = {
+      keyPoints: structured.keyPoints,
+      searchQueries,
+      confidence: structured.confidence,
+      followUps: structured.followUps,
+      language: structured.language,
+    };
 
     const sources: SearchResult[] = [];
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    // Grounding chunks can repeat a URI; remember where each one landed
+    // after de-duplication so supports can point at the right source.
+    const chunkToSource: number[] = [];
+    const groundingChunks = groundingMetadata?.groundingChunks;
     if (groundingChunks) {
-      groundingChunks.forEach((chunk: any) => {
+      groundingChunks.forEach((chunk, chunkIndex) => {
         if (chunk.web && chunk.web.uri) {
-          sources.push({
-            title: chunk.web.title || "Source",
-            uri: chunk.web.uri
-          });
+          let index = sources.findIndex(t => t.uri === chunk.web!.uri);
+          if (index < 0) {
+            index = sources.push({
+              title: chunk.web.title || "Source",
+              uri: chunk.web.uri,
+              domain: chunk.web.domain,
+            }) - 1;
+          }
+          chunkToSource[chunkIndex] = index;
         }
       });
     }
 
-    const uniqueSources = sources.filter((v, i, a) => a.findIndex(t => t.uri === v.uri) === i);
+    if (this.settings.mode === 'podcast') {
+      const dialogue = splitDialogue(summary, this.hostNames());
+      summary = dialogue.map(formatTurn).join('\n');
+      const citations = this.toCitations(summary, groundingMetadata, chunkToSource);
+      return applySourceFilter({
+        summary,
+        sources: enrichSources(sources, summary, citations),
+        actualQuery,
+        dialogue,
+        citations,
+        ...extras,
+      }, this.settings.sourceFilter);
+    }
 
-    return { 
+    const citations = this.toCitations(summary, groundingMetadata, chunkToSource);
+    return applySourceFilter({ 
       summary, 
-      sources: uniqueSources,
-      actualQuery 
+      sources: enrichSources(sources, summary, citations),
+      actualQuery,
+      citations,
+      ...extras,
+    }, this.settings.sourceFilter);
+  }
+
+  // Support offsets are byte positions in the raw response, which no longer
+  // line up once the summary is trimmed or reformatted, so spans are located
+  // by their text instead.
+  private toCitations(summary: string, groundingMetadata: GroundingMetadata | undefined, chunkToSource: number[]): Citation[] {
+    const citations: Citation[] = [];
+    let cursor = 0;
+    for (const support of groundingMetadata?.groundingSupports || []) {
+      const raw = support.segment?.text?.trim();
+      if (!raw) continue;
+      const text = summary.includes(raw) ? raw : unwrapJsonFragment(raw);
+      if (!text) continue;
+      let start = summary.indexOf(text, cursor);
+      if (start < 0) start = summary.indexOf(text);
+      if (start < 0) continue;
+
+      const sourceIndices = [...new Set(
+        (support.groundingChunkIndices || [])
+          .map(i => chunkToSource[i])
+          .filter((i): i is number => i !== undefined)
+      )].sort((a, b) => a - b);
+      if (sourceIndices.length === 0) continue;
+
+      citations.push({ start, end: start + text.length, sourceIndices });
+      cursor = start + text.length;
+    }
+    return citations;
+  }
+
+  /**
+   * Works from the summaries already found for each option rather than
+   * searching again, so the comparison only claims what they say.
+   */
+  async synthesizeComparison(query: string, items: ComparedItem[], signal?: AbortSignal): Promise<ComparisonSynthesis> {
+    const labels = items.map(item => item.label);
+    const response = await this.generate({
+      model: this.settings.searchModel,
+      contents: `The user asked: "${query}". These are researched answers about each option, as JSON: 
+      ${JSON.stringify(items.map(item => ({ option: item.label, answer: item.results.summary, keyPoints: item.results.keyPoints ?? [] })))}
+      Compare the options (${labels.join(', ')}) along 4 to 6 dimensions that matter for the question. For each dimension give one short cell per option, in that order, using only what the answers say; write "Unknown" when they don't cover it. 
+      Then give a verdict of one or two sentences, and a spoken script of about 5 sentences that walks a listener through the main differences and ends on the verdict, in plain prose without markdown, tables or lists. 
+      ${this.languageInstruction()} Also give the BCP 47 code of the language you wrote in.`,
+      config: {
+        temperature: this.settings.temperatures.search,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            rows: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  dimension: { type: Type.STRING },
+                  values: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['dimension', 'values'],
+              },
+            },
+            verdict: { type: Type.STRING },
+            script: { type: Type.STRING },
+            language: { type: Type.STRING },
+          },
+          required: ['rows', 'verdict', 'script', 'language'],
+        },
+      },
+    }, signal, SEARCH_TIMEOUT_MS);
+
+    return parseComparison(response.text || "", items.length);
+  }
+
+  /**
+   * Translates the summary, key points and follow-ups. Citation offsets no
+   * longer fit the translated text, so citations are dropped.
+   */
+  async translateSummary(results: SearchResponse, language: string, signal?: AbortSignal): Promise<SearchResponse> {
+    const speakers = results.dialogue ? [...new Set(results.dialogue.map(turn => turn.speaker))] : [];
+    const response = await this.generate({
+      model: this.settings.searchModel,
+      contents: `Translate the string values of this JSON object into ${languageName(language)}. 
+      Keep the meaning and tone. ${speakers.length > 0 ? `Keep every line of "summary" on its own line, and keep the speaker names (${speakers.join(', ')}) before each colon unchanged.` : ''}
+      ${JSON.stringify({ summary: results.summary, keyPoints: results.keyPoints ?? [], followUps: results.followUps ?? [] })}`,
+      config: {
+        temperature: 0.2,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING },
+            keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+            followUps: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ['summary', 'keyPoints', 'followUps'],
+        },
+      },
+    }, signal, SEARCH_TIMEOUT_MS);
+
+    const translated = parseStructuredSummary(response.text || "");
+    if (!translated.summary) throw new EmptyResponseError("The model returned an empty translation.");
+    const dialogue = results.dialogue ? splitDialogue(translated.summary, speakers) : undefined;
+    return {
+      ...results,
+      summary: dialogue ? dialogue.map(formatTurn).join('\n') : translated.summary,
+      dialogue,
+      citations: undefined,
+      keyPoints: translated.keyPoints,
+      followUps: translated.followUps,
+      language,
     };
   }
 
-  async generateSpeech(text: string): Promise<string> {
-    const response = await this.ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `Read this search summary clearly and naturally: ${text}` }] }],
+  async generateSpeech(text: string, voiceName: string = this.settings.voiceName, signal?: AbortSignal): Promise<string> {
+    const style = this.settings.speakingStyle.trim() || DEFAULT_SETTINGS.speakingStyle;
+    const response = await this.generate({
+      model: this.settings.ttsModel,
+      // The text's own language decides the pronunciation; the style is only a delivery hint.
+      contents: [{ parts: [{ text: `${style}, in the language the text is written in: ${text}` }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
+            prebuiltVoiceConfig: { voiceName },
           },
         },
       },
-    });
+    }, signal, SPEECH_TIMEOUT_MS);
+
+    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audioData) throw new EmptyAudioError("The speech model returned no audio.");
+    return audioData;
+  }
+
+  /** Voices a "Speaker: text" script with one prebuilt voice per podcast host. */
+  async generateDialogueSpeech(script: string, signal?: AbortSignal): Promise<string> {
+    const [a, b] = this.settings.podcastHosts;
+    const response = await this.generate({
+      model: this.settings.ttsModel,
+      contents: [{ parts: [{ text: `TTS the following conversation between ${a.name} and ${b.name}, keeping it warm and conversational and in the language it is written in:\n${script}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: this.settings.podcastHosts.map(host => ({
+              speaker: host.name,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: host.voiceName } },
+            })),
+          },
+        },
+      },
+    }, signal, SPEECH_TIMEOUT_MS);
 
     const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!audioData) throw new Error("Audio generation failed.");
+    if (!audioData) throw new EmptyAudioError("The speech model returned no audio.");
     return audioData;
   }
 }
@@ -0,0 +1,217 @@
+import { BriefingEpisode, Session, SessionTurn } from "../types";
+
+const DB_NAME = 'gemini-sonic';
+const LEGACY_HISTORY_STORE = 'history';
+const SESSION_STORE = 'sessions';
+const EPISODE_STORE = 'episodes';
+const MAX_ENTRIES = 200;
+const MAX_EPISODES = 30;
+const EVICTION_BATCH = 5;
+const MAX_QUOTA_RETRIES = 3;
+
+// Each entry upgrades the schema from version `index` to `index + 1`.
+// Never edit a shipped migration; append a new one instead.
+const migrations: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  (db) => {
+    const store = db.createObjectStore(LEGACY_HISTORY_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  },
+  // v2: single searches become one-turn sessions.
+  (db, tx) => {
+    const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    sessions.createIndex('updatedAt', 'updatedAt');
+    const request = tx.objectStore(LEGACY_HISTORY_STORE).getAll();
+    request.onsuccess = () => {
+      for (const item of request.result as SessionTurn[]) {
+        sessions.put({
+          id: item.id,
+          title: item.query,
+          createdAt: item.timestamp,
+          updatedAt: item.timestamp,
+          turns: [item],
+        } satisfies Session);
+      }
+      db.deleteObjectStore(LEGACY_HISTORY_STORE);
+    };
+  },
+  // v3: daily briefings.
+  (db) => {
+    const episodes = db.createObjectStore(EPISODE_STORE, { keyPath: 'id' });
+    episodes.createIndex('createdAt', 'createdAt');
+  },
+];
+
+const DB_VERSION = migrations.length;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'QuotaExceededError';
+}
+
+export class HistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error("IndexedDB is not available in this browser."));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          const tx = request.transaction!;
+          for (let version = event.oldVersion; version < DB_VERSION; version++) {
+            migrations[version](db, tx);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error("History database is open in another tab with an older version."));
+      });
+      // Allow a later call to retry if opening failed.
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  /** Returns all stored sessions, most recently updated first. */
+  async list(): Promise<Session[]> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readonly');
+    const sessions = await promisify<Session[]>(tx.objectStore(SESSION_STORE).index('updatedAt').getAll());
+    return sessions.reverse();
+  }
+
+  /** Inserts or replaces a whole session, e.g. after a turn was added. */
+  async save(session: Session): Promise<void> {
+    await this.putWithEviction(session);
+    await this.enforceLimit();
+  }
+
+  async attachAudio(sessionId: string, turnId: string, audioBase64: string, audioSegments?: number[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readonly');
+    const existing = await promisify<Session | undefined>(tx.objectStore(SESSION_STORE).get(sessionId));
+    if (!existing) return;
+    await this.putWithEviction({
+      ...existing,
+      turns: existing.turns.map(turn => turn.id === turnId ? { ...turn, audioBase64, audioSegments } : turn),
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).clear();
+    await transactionDone(tx);
+  }
+
+  /** Returns all stored briefing episodes, newest first. */
+  async listEpisodes(): Promise<BriefingEpisode[]> {
+    const db = await this.open();
+    const tx = db.transaction(EPISODE_STORE, 'readonly');
+    const episodes = await promisify<BriefingEpisode[]>(tx.objectStore(EPISODE_STORE).index('createdAt').getAll());
+    return episodes.reverse();
+  }
+
+  /** Stores an episode, dropping the oldest beyond MAX_EPISODES. */
+  async saveEpisode(episode: BriefingEpisode): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(EPISODE_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const store = tx.objectStore(EPISODE_STORE);
+    store.put(episode);
+    const keys = await promisify(store.index('createdAt').getAllKeys());
+    keys.slice(0, Math.max(0, keys.length - MAX_EPISODES)).forEach(key => store.delete(key));
+    await done;
+  }
+
+  async removeEpisode(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(EPISODE_STORE, 'readwrite');
+    tx.objectStore(EPISODE_STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  private async put(session: Session): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).put(session);
+    await transactionDone(tx);
+  }
+
+  // Audio blobs are large, so a full disk is expected eventually. Drop the
+  // least recently used sessions and try again rather than losing the newest search.
+  private async putWithEviction(session: Session): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.put(session);
+        return;
+      } catch (err) {
+        if (!isQuotaError(err) || attempt >= MAX_QUOTA_RETRIES) throw err;
+        const evicted = await this.evictOldest(EVICTION_BATCH, session.id);
+        if (evicted === 0) throw err;
+      }
+    }
+  }
+
+  private async enforceLimit(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readonly');
+    const count = await promisify(tx.objectStore(SESSION_STORE).count());
+    if (count > MAX_ENTRIES) {
+      await this.evictOldest(count - MAX_ENTRIES);
+    }
+  }
+
+  private async evictOldest(count: number, keepId?: string): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    const done = transactionDone(tx);
+    const index = tx.objectStore(SESSION_STORE).index('updatedAt');
+    let evicted = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || evicted >= count) {
+          resolve();
+          return;
+        }
+        if (cursor.primaryKey !== keepId) {
+          cursor.delete();
+          evicted++;
+        }
+        cursor.continue();
+      };
+    });
+
+    await done;
+    return evicted;
+  }
+}
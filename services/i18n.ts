@@ -0,0 +1,48 @@
+import { UiLanguage } from "../types";
+import { de } from "../locales/de";
+import { en, Messages } from "../locales/en";
+import { es } from "../locales/es";
+import { fr } from "../locales/fr";
+
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<UiLanguage, Messages> = { en, es, fr, de };
+
+/** Interface languages, each named in its own language. */
+export const UI_LANGUAGES: { code: UiLanguage; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'de', name: 'Deutsch' },
+];
+
+export function isUiLanguage(code: string): code is UiLanguage {
+  return code in CATALOGS;
+}
+
+/** The first of the browser's preferred languages that has a catalog. */
+export function preferredUiLanguage(): UiLanguage {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const code = tag.split('-')[0].toLowerCase();
+    if (isUiLanguage(code)) return code;
+  }
+  return 'en';
+}
+
+export function createTranslator(language: UiLanguage): Translate {
+  const catalog = CATALOGS[language] ?? en;
+  const plurals = new Intl.PluralRules(language);
+  return (key, params = {}) => {
+    const message = catalog[key] ?? en[key];
+    const template = typeof message === 'string'
+      ? message
+      : plurals.select(Number(params.count)) === 'one' ? message.one : message.other;
+    return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+  };
+}
+
+/** English strings, for code that runs without a chosen interface language. */
+export const translateEnglish = createTranslator('en');
@@ -0,0 +1,224 @@
+import { Citation, ComparedItem, ComparisonSynthesis, DialogueTurn, SearchResponse, SearchResult, SessionTurn, Settings, SummaryLength } from "../types";
+import { encodeBase64, floatTo16BitPCM } from "./audio";
+import type { AIProvider } from "./provider";
+import { formatTurn, parseTurn } from "./sentences";
+import { DEFAULT_SETTINGS } from "./settings";
+import { enrichSources } from "./sources";
+import { applySourceFilter } from "./sourceFilter";
+
+const SAMPLE_RATE = 24000;
+
+const RANDOM_PROMPTS = [
+  "How do honeybees communicate the location of flowers?",
+  "Why does the Moon always show the same face to Earth?",
+  "How does a lithium-ion battery store energy?",
+  "What caused the Bronze Age collapse?",
+];
+
+const SENTENCE_COUNTS: Record<SummaryLength, number> = { 'brief': 2, 'standard': 3, 'deep-dive': 7 };
+const TURN_COUNTS: Record<SummaryLength, number> = { 'brief': 4, 'standard': 6, 'deep-dive': 12 };
+
+const FACTS: Array<(topic: string) => string> = [
+  topic => `The sources describe ${topic} as a well-studied subject with a long history.`,
+  topic => `Most accounts agree on the basic mechanism behind ${topic}.`,
+  topic => `Recent coverage adds a few new details about ${topic}.`,
+  topic => `Experts point out common misconceptions about ${topic}.`,
+  topic => `The practical impact of ${topic} is easiest to see in everyday examples.`,
+  topic => `Some questions about ${topic} remain open and are still being researched.`,
+  topic => `Taken together, the sources give a consistent picture of ${topic}.`,
+];
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was cancelled.', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+// Small stable string hash so the same input always yields the same output.
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/** A short tone whose length follows the text and whose pitch follows the voice. */
+function tone(text: string, voiceName: string): Uint8Array {
+  const seconds = Math.min(8, Math.max(0.5, text.length * 0.06));
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const frequency = 180 + (hash(voiceName) % 160);
+  const fade = Math.min(samples.length / 2, SAMPLE_RATE * 0.02);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    // A slow wobble in loudness reads as syllables on the visualizer.
+    const syllables = 0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t);
+    const envelope = Math.min(1, i / fade, (samples.length - i) / fade);
+    samples[i] = 0.25 * envelope * syllables * Math.sin(2 * Math.PI * frequency * t);
+  }
+  return floatTo16BitPCM(samples);
+}
+
+/**
+ * Offline stand-in for GeminiService: canned grounded answers built from the
+ * query, and tones in place of speech. Output is deterministic for a given
+ * query and settings, so the whole UI can be exercised without an API key.
+ */
+export class MockProvider implements AIProvider {
+  private settings: Settings;
+  private promptIndex = 0;
+
+  constructor(settings: Settings = DEFAULT_SETTINGS) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: Settings) {
+    this.settings = settings;
+  }
+
+  async generateRandomPrompt(signal?: AbortSignal): Promise<string> {
+    await delay(300, signal);
+    return RANDOM_PROMPTS[this.promptIndex++ % RANDOM_PROMPTS.length];
+  }
+
+  async tweakQuery(query: string, signal?: AbortSignal): Promise<string> {
+    await delay(300, signal);
+    return `${query.trim()}: key facts, background and recent developments`;
+  }
+
+  async refineQuery(originalQuery: string, _currentSummary: string, signal?: AbortSignal): Promise<string> {
+    await delay(300, signal);
+    return `${originalQuery.trim()} in more depth`;
+  }
+
+  async transcribeAudio(_audioBase64: string, _mimeType?: string, signal?: AbortSignal): Promise<string> {
+    await delay(300, signal);
+    return RANDOM_PROMPTS[0];
+  }
+
+  async searchAndSummarize(query: string, signal?: AbortSignal): Promise<SearchResponse> {
+    return this.streamSearchAndSummarize(query, () => {}, [], signal);
+  }
+
+  async streamSearchAndSummarize(query: string, onSegment: (segment: string) => void, context: SessionTurn[] = [], signal?: AbortSignal): Promise<SearchResponse> {
+    await delay(400, signal);
+    const segments = this.buildSegments(query, context);
+    for (const segment of segments) {
+      await delay(150, signal);
+      onSegment(segment);
+    }
+    return this.toSearchResponse(query, segments);
+  }
+
+  async synthesizeComparison(query: string, items: ComparedItem[], signal?: AbortSignal): Promise<ComparisonSynthesis> {
+    await delay(400, signal);
+    const labels = items.map(item => item.label);
+    const [first, second] = labels;
+    return {
+      rows: ['Maturity', 'Learning curve', 'Ecosystem', 'Best suited for'].map(dimension => ({
+        dimension,
+        values: labels.map(label => `${dimension} of ${label} (mock)`),
+      })),
+      verdict: `For "${query}", ${first} edges ahead, though ${second} is the safer pick for some teams.`,
+      script: `Let's compare ${labels.join(' and ')}. ${labels.map(label => `${label} has its own strengths and trade-offs.`).join(' ')} Overall, ${first} edges ahead, though ${second} is the safer pick for some teams.`,
+      language: 'en',
+    };
+  }
+
+  // Marks each sentence or turn with the language instead of translating it.
+  async translateSummary(results: SearchResponse, language: string, signal?: AbortSignal): Promise<SearchResponse> {
+    await delay(300, signal);
+    const mark = (text: string) => `[${language}] ${text}`;
+    const dialogue = results.dialogue?.map(turn => ({ ...turn, text: mark(turn.text) }));
+    return {
+      ...results,
+      summary: dialogue ? dialogue.map(formatTurn).join('\n') : mark(results.summary),
+      dialogue,
+      citations: undefined,
+      keyPoints: results.keyPoints?.map(mark),
+      followUps: results.followUps?.map(mark),
+      language,
+    };
+  }
+
+  async generateSpeech(text: string, voiceName: string = this.settings.voiceName, signal?: AbortSignal): Promise<string> {
+    await delay(200, signal);
+    return encodeBase64(tone(text, voiceName));
+  }
+
+  async generateDialogueSpeech(script: string, signal?: AbortSignal): Promise<string> {
+    await delay(200, signal);
+    const { speaker, text } = parseTurn(script);
+    const host = this.settings.podcastHosts.find(h => h.name === speaker) ?? this.settings.podcastHosts[0];
+    return encodeBase64(tone(text, host.voiceName));
+  }
+
+  private buildSegments(query: string, context: SessionTurn[]): string[] {
+    const trimmed = query.trim().replace(/[?.!]+$/, '');
+    const topic = trimmed ? trimmed[0].toLowerCase() + trimmed.slice(1) : 'this topic';
+    const offset = hash(topic) % FACTS.length;
+    const previous = context[context.length - 1];
+    const opener = previous
+      ? `Following up on "${previous.query}", this mock answer looks at ${topic}.`
+      : `This is an offline mock answer about ${topic}.`;
+
+    if (this.settings.mode === 'podcast') {
+      const [a, b] = this.settings.podcastHosts;
+      const count = TURN_COUNTS[this.settings.summaryLength];
+      return Array.from({ length: count }, (_, i) => formatTurn({
+        speaker: (i % 2 === 0 ? a : b).name,
+        text: i === 0 ? opener : FACTS[(offset + i) % FACTS.length](topic),
+      }));
+    }
+
+    const count = SENTENCE_COUNTS[this.settings.summaryLength];
+    return Array.from({ length: count }, (_, i) => i === 0 ? opener : FACTS[(offset + i) % FACTS.length](topic));
+  }
+
+  private toSearchResponse(query: string, segments: string[]): SearchResponse {
+    const slug = encodeURIComponent(query.trim().toLowerCase().replace(/\s+/g, '-'));
+    const sources: SearchResult[] = [
+      { title: `${query} — Overview`, uri: `https://example.com/wiki/${slug}` },
+      { title: `Explainer: ${query}`, uri: `https://example.org/explainers/${slug}` },
+      { title: `Latest news on ${query}`, uri: `https://example.net/news/2024/05/14/${slug}` },
+      { title: `${query}: a discussion`, uri: `https://www.reddit.com/r/explainlikeimfive/comments/${slug}` },
+    ];
+
+    const isPodcast = this.settings.mode === 'podcast';
+    const dialogue: DialogueTurn[] | undefined = isPodcast ? segments.map(parseTurn) : undefined;
+    const summary = segments.join(isPodcast ? '\n' : ' ');
+
+    // The opener is uncited; every later segment cites one source in turn.
+    const citations: Citation[] = [];
+    let cursor = 0;
+    segments.forEach((segment, i) => {
+      const text = dialogue ? dialogue[i].text : segment;
+      const start = summary.indexOf(text, cursor);
+      cursor = start + text.length;
+      if (i > 0) citations.push({ start, end: cursor, sourceIndices: [i % sources.length] });
+    });
+
+    const topic = query.trim().replace(/[?.!]+$/, '');
+    return applySourceFilter({
+      summary,
+      sources: enrichSources(sources, summary, citations),
+      actualQuery: `${query} (mock)`,
+      dialogue,
+      citations,
+      keyPoints: FACTS.slice(0, 3).map(fact => fact(topic)),
+      searchQueries: [`${query} (mock)`, `${topic} explained`],
+      confidence: 0.5 + (hash(topic) % 45) / 100,
+      followUps: [`What is the history of ${topic}?`, `Why does ${topic} matter?`, `What are common myths about ${topic}?`],
+      language: 'en',
+    }, this.settings.sourceFilter);
+  }
+}
@@ -0,0 +1,69 @@
+import { ComparedItem, ComparisonSynthesis, SearchResponse, SessionTurn, Settings } from "../types";
+import { GeminiService } from "./geminiService";
+import { MockProvider } from "./mockProvider";
+import { ProxyProvider } from "./proxyProvider";
+
+/** Reported by caching providers each time a request is served. */
+export interface CacheEvent {
+  operation: 'search' | 'speech';
+  /** "shared" means an identical request was already in flight and was joined. */
+  outcome: 'hit' | 'miss' | 'shared';
+  /** The signal the request was made with, so a listener can tell whose request it was. */
+  signal?: AbortSignal;
+}
+
+export interface SearchOptions {
+  /** Only use results published within this many days. */
+  recentDays?: number;
+}
+
+/**
+ * Everything the app asks of a language/speech backend. Audio is returned as
+ * base64 24 kHz mono 16-bit PCM. Failures are thrown as SonicError
+ * subclasses (see errors.ts); aborting `signal` rejects with an AbortError.
+ */
+export interface AIProvider {
+  updateSettings(settings: Settings): void;
+  generateRandomPrompt(signal?: AbortSignal): Promise<string>;
+  tweakQuery(query: string, signal?: AbortSignal): Promise<string>;
+  refineQuery(originalQuery: string, currentSummary: string, signal?: AbortSignal): Promise<string>;
+  transcribeAudio(audioBase64: string, mimeType?: string, signal?: AbortSignal): Promise<string>;
+  searchAndSummarize(query: string, signal?: AbortSignal, options?: SearchOptions): Promise<SearchResponse>;
+  /**
+   * Like searchAndSummarize, but hands each sentence (or "Speaker: text"
+   * podcast turn) to `onSegment` as soon as it is complete. `context` holds
+   * the earlier turns of the session for follow-up questions.
+   */
+  streamSearchAndSummarize(query: string, onSegment: (segment: string) => void, context?: SessionTurn[], signal?: AbortSignal): Promise<SearchResponse>;
+  /**
+   * Compares the answers found for each option of `query` along a few
+   * dimensions and writes a verdict, plus a script for speaking it.
+   */
+  synthesizeComparison(query: string, items: ComparedItem[], signal?: AbortSignal): Promise<ComparisonSynthesis>;
+  /** Translates a summary into the given language code; citations are dropped. */
+  translateSummary(results: SearchResponse, language: string, signal?: AbortSignal): Promise<SearchResponse>;
+  generateSpeech(text: string, voiceName?: string, signal?: AbortSignal): Promise<string>;
+  /** Voices a "Speaker: text" script with one voice per podcast host. */
+  generateDialogueSpeech(script: string, signal?: AbortSignal): Promise<string>;
+  /** Set by the app to hear about cache hits; only caching providers call it. */
+  onCacheEvent?: (event: CacheEvent) => void;
+}
+
+/**
+ * Picks the backend named by the PROVIDER build setting. The proxy is the
+ * default; "gemini" calls the API straight from the browser and is dev-only.
+ */
+export function createProvider(name: string | undefined, settings: Settings): AIProvider {
+  switch (name) {
+    case 'proxy':
+    case undefined:
+    case '':
+      return new ProxyProvider(settings);
+    case 'gemini':
+      return new GeminiService(settings);
+    case 'mock':
+      return new MockProvider(settings);
+    default:
+      throw new Error(`Unknown provider "${name}". Use "proxy", "gemini" or "mock".`);
+  }
+}
@@ -0,0 +1,149 @@
+import { ComparedItem, ComparisonSynthesis, SearchResponse, SessionTurn, Settings } from "../types";
+import { errorFromCode, errorFromStatus, isAbortError, NetworkError, toSonicError } from "./errors";
+import type { AIProvider, SearchOptions } from "./provider";
+import { openStream, withRetry } from "./request";
+import { DEFAULT_SETTINGS } from "./settings";
+
+/**
+ * What a follow-up sends of each earlier turn. The chat history only needs
+ * the text, and stored turns also carry their audio, which would soon push
+ * the request past the proxy's body limit.
+ */
+export interface ContextTurn {
+  query: string;
+  summary: string;
+}
+
+// Generous, since the server may itself be retrying the model call.
+const CALL_TIMEOUT_MS = 90_000;
+const STREAM_TIMEOUT_MS = 90_000;
+const STREAM_IDLE_TIMEOUT_MS = 90_000;
+
+// The response body as decoded text, chunk by chunk.
+async function* readText(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+/**
+ * Calls the GeminiService operations through the proxy in server/index.ts,
+ * which holds the API key. Each request carries the current settings.
+ */
+export class ProxyProvider implements AIProvider {
+  private settings: Settings;
+
+  constructor(settings: Settings = DEFAULT_SETTINGS, private baseUrl: string = '/api') {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: Settings) {
+    this.settings = settings;
+  }
+
+  generateRandomPrompt(signal?: AbortSignal): Promise<string> {
+    return this.call('generateRandomPrompt', [], signal);
+  }
+
+  tweakQuery(query: string, signal?: AbortSignal): Promise<string> {
+    return this.call('tweakQuery', [query], signal);
+  }
+
+  refineQuery(originalQuery: string, currentSummary: string, signal?: AbortSignal): Promise<string> {
+    return this.call('refineQuery', [originalQuery, currentSummary], signal);
+  }
+
+  transcribeAudio(audioBase64: string, mimeType?: string, signal?: AbortSignal): Promise<string> {
+    return this.call('transcribeAudio', [audioBase64, mimeType], signal);
+  }
+
+  searchAndSummarize(query: string, signal?: AbortSignal, options?: SearchOptions): Promise<SearchResponse> {
+    return this.call('searchAndSummarize', [query, options], signal);
+  }
+
+  async streamSearchAndSummarize(query: string, onSegment: (segment: string) => void, context: SessionTurn[] = [], signal?: AbortSignal): Promise<SearchResponse> {
+    const turns: ContextTurn[] = context.map(turn => ({ query: turn.query, summary: turn.results.summary }));
+    // The server retries the model call itself, so only the connection is retried here.
+    const text = await openStream(async streamSignal => {
+      const response = await this.post('streamSearchAndSummarize', [query, turns], streamSignal);
+      if (!response.body) throw new NetworkError("The proxy returned an empty response.");
+      return readText(response.body);
+    }, { signal, timeoutMs: STREAM_TIMEOUT_MS, idleTimeoutMs: STREAM_IDLE_TIMEOUT_MS, retries: 1 });
+
+    let result: SearchResponse | undefined;
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const message = JSON.parse(line);
+      if (message.error) throw errorFromCode(message.code, message.error);
+      if (message.result) result = message.result;
+      else if (typeof message.segment === 'string') onSegment(message.segment);
+    };
+
+    let buffer = '';
+    try {
+      for await (const value of text) {
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+    } catch (err) {
+      throw toSonicError(err);
+    }
+
+    if (!result) throw new NetworkError("The connection to the proxy closed before the summary finished.");
+    return result;
+  }
+
+  synthesizeComparison(query: string, items: ComparedItem[], signal?: AbortSignal): Promise<ComparisonSynthesis> {
+    return this.call('synthesizeComparison', [query, items], signal);
+  }
+
+  translateSummary(results: SearchResponse, language: string, signal?: AbortSignal): Promise<SearchResponse> {
+    return this.call('translateSummary', [results, language], signal);
+  }
+
+  generateSpeech(text: string, voiceName: string = this.settings.voiceName, signal?: AbortSignal): Promise<string> {
+    return this.call('generateSpeech', [text, voiceName], signal);
+  }
+
+  generateDialogueSpeech(script: string, signal?: AbortSignal): Promise<string> {
+    return this.call('generateDialogueSpeech', [script], signal);
+  }
+
+  private call<T>(operation: string, args: unknown[], signal?: AbortSignal): Promise<T> {
+    return withRetry(async attemptSignal => {
+      const response = await this.post(operation, args, attemptSignal);
+      const body = await response.json();
+      return body.result as T;
+    }, { signal, timeoutMs: CALL_TIMEOUT_MS, retries: 1 });
+  }
+
+  private async post(operation: string, args: unknown[], signal: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${operation}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings: this.settings, args }),
+        signal,
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      throw new NetworkError("Could not reach the API proxy. Is `npm run server` running?");
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const message = body?.error || `Proxy request failed with status ${response.status}.`;
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw body?.code
+        ? errorFromCode(body.code, message, retryAfter)
+        : errorFromStatus(response.status, message, retryAfter);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,69 @@
+import { TextSpan } from "../types";
+import { PlayerSegment } from "./audioPlayer";
+
+/** A sentence of the summary and when it is heard on the player's timeline. */
+export interface TimedSentence extends TextSpan {
+  /** Absent until the sentence has been synthesized. */
+  timing?: PlayerSegment;
+}
+
+// Kana and ideographs are read one character at a time; other scripts by
+// whitespace-separated words.
+const WORD = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff]+/g;
+
+export function wordSpans(text: string, span: TextSpan): TextSpan[] {
+  const slice = text.slice(span.start, span.end);
+  return [...slice.matchAll(WORD)].map(match => ({
+    start: span.start + match.index!,
+    end: span.start + match.index! + match[0].length,
+  }));
+}
+
+// Rough speaking time of a piece of text: longer words take longer and
+// punctuation adds a pause. Only the ratios between pieces matter.
+function weight(text: string): number {
+  const pauses = text.match(/[,;:.!?…，、。！？]/g)?.length ?? 0;
+  return text.length + 1 + pauses * 3;
+}
+
+/**
+ * Lines sentences up with the player's segments. Each sentence is voiced as
+ * its own segment, so segment i measures sentence i. Audio saved as a single
+ * blob has one segment for everything; its duration is then shared out by
+ * estimated speaking time.
+ */
+export function timeSentences(text: string, spans: TextSpan[], segments: PlayerSegment[], complete: boolean): TimedSentence[] {
+  if (!complete || segments.length === spans.length) {
+    return spans.map((span, i) => ({ ...span, timing: segments[i] }));
+  }
+
+  const start = segments[0]?.start ?? 0;
+  const duration = segments.reduce((sum, segment) => sum + segment.duration, 0);
+  const weights = spans.map(span => weight(text.slice(span.start, span.end)));
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+  let elapsed = 0;
+  return spans.map((span, i) => {
+    const share = duration * weights[i] / total;
+    const timing = { start: start + elapsed, duration: share };
+    elapsed += share;
+    return { ...span, timing };
+  });
+}
+
+/** Index of the sentence heard at `position`, or -1. */
+export function sentenceAt(sentences: TimedSentence[], position: number): number {
+  return sentences.findIndex(({ timing }) => !!timing && position >= timing.start && position < timing.start + timing.duration);
+}
+
+/** Estimates which of a segment's words is heard `elapsed` seconds into it. */
+export function wordAt(text: string, words: TextSpan[], elapsed: number, duration: number): number {
+  if (words.length === 0 || duration <= 0) return -1;
+  const weights = words.map(word => weight(text.slice(word.start, word.end)));
+  const target = Math.max(0, elapsed / duration) * weights.reduce((sum, w) => sum + w, 0);
+  let reached = 0;
+  for (let i = 0; i < words.length; i++) {
+    reached += weights[i];
+    if (target < reached) return i;
+  }
+  return words.length - 1;
+}
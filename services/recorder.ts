@@ -0,0 +1,160 @@
+import { encodeWav, floatTo16BitPCM } from "./audio";
+import { MicrophoneError } from "./errors";
+
+const TARGET_SAMPLE_RATE = 16000;
+
+export interface RecorderOptions {
+  /** Called roughly every 85ms with the input RMS level, 0 to 1. */
+  onLevel?: (level: number) => void;
+  /** Called once the speaker has gone quiet, or never started talking. */
+  onSilence?: () => void;
+  silenceThreshold?: number;
+  silenceDurationMs?: number;
+  noSpeechTimeoutMs?: number;
+  maxDurationMs?: number;
+}
+
+function describeMicError(err: unknown): MicrophoneError {
+  switch (err instanceof Error ? err.name : undefined) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new MicrophoneError("Microphone access was denied.", 'mic-denied');
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new MicrophoneError("No microphone was found.", 'mic-missing');
+    case 'NotReadableError':
+      return new MicrophoneError("The microphone is already in use by another application.", 'mic-busy');
+    default:
+      return new MicrophoneError((err instanceof Error && err.message) || "Could not start the microphone.", 'mic-unavailable');
+  }
+}
+
+function downsample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    out[i] = sum / Math.max(1, end - start);
+  }
+  return out;
+}
+
+export class MicRecorder {
+  private stream: MediaStream | null = null;
+  private ctx: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private chunks: Float32Array[] = [];
+  private startedAt = 0;
+  private lastVoiceAt = 0;
+  private heardSpeech = false;
+  private silenceReported = false;
+
+  constructor(private options: RecorderOptions = {}) {}
+
+  get isRecording(): boolean {
+    return this.processor !== null;
+  }
+
+  async start(): Promise<void> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      throw new Error("Voice input needs a secure (HTTPS) page and a browser with microphone support.");
+    }
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (err) {
+      throw describeMicError(err);
+    }
+
+    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const source = this.ctx.createMediaStreamSource(this.stream);
+    this.processor = this.ctx.createScriptProcessor(4096, 1, 1);
+    this.startedAt = performance.now();
+    this.lastVoiceAt = this.startedAt;
+
+    this.processor.onaudioprocess = (event) => {
+      const input = event.inputBuffer.getChannelData(0);
+      this.chunks.push(new Float32Array(input));
+      this.track(input);
+    };
+
+    source.connect(this.processor);
+    // ScriptProcessor only fires while connected to an output.
+    this.processor.connect(this.ctx.destination);
+  }
+
+  /** Stops capture and returns the recording as a 16 kHz mono WAV file. */
+  async stop(): Promise<Uint8Array> {
+    const sampleRate = this.ctx?.sampleRate ?? TARGET_SAMPLE_RATE;
+    await this.release();
+
+    const total = this.chunks.reduce((n, c) => n + c.length, 0);
+    const merged = new Float32Array(total);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      merged.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.chunks = [];
+
+    const pcm = floatTo16BitPCM(downsample(merged, sampleRate, TARGET_SAMPLE_RATE));
+    return encodeWav(pcm, TARGET_SAMPLE_RATE, 1);
+  }
+
+  async cancel(): Promise<void> {
+    this.chunks = [];
+    await this.release();
+  }
+
+  private track(input: Float32Array) {
+    const {
+      onLevel,
+      onSilence,
+      silenceThreshold = 0.015,
+      silenceDurationMs = 1500,
+      noSpeechTimeoutMs = 8000,
+      maxDurationMs = 30000,
+    } = this.options;
+
+    let sum = 0;
+    for (let i = 0; i < input.length; i++) sum += input[i] * input[i];
+    const rms = Math.sqrt(sum / input.length);
+    onLevel?.(Math.min(1, rms * 8));
+
+    const now = performance.now();
+    if (rms > silenceThreshold) {
+      this.heardSpeech = true;
+      this.lastVoiceAt = now;
+    }
+
+    const quietFor = now - this.lastVoiceAt;
+    const shouldStop = (this.heardSpeech && quietFor > silenceDurationMs)
+      || (!this.heardSpeech && quietFor > noSpeechTimeoutMs)
+      || now - this.startedAt > maxDurationMs;
+
+    if (shouldStop && !this.silenceReported) {
+      this.silenceReported = true;
+      onSilence?.();
+    }
+  }
+
+  private async release() {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.ctx) {
+      await this.ctx.close().catch(() => {});
+      this.ctx = null;
+    }
+  }
+}
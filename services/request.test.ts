@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { NetworkError, TimeoutError } from './errors';
+import { openStream, withRetry } from './request';
+
+// Yields `chunks`, then waits for `signal` to abort, like a stalled connection.
+async function* stalling(chunks: string[], signal: AbortSignal): AsyncGenerator<string> {
+  yield* chunks;
+  await new Promise((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+// Counts the abort listeners on `signal` that are still attached.
+function countListeners(signal: AbortSignal) {
+  let count = 0;
+  const add = signal.addEventListener.bind(signal);
+  const remove = signal.removeEventListener.bind(signal);
+  signal.addEventListener = ((type: string, listener: EventListener, options?: AddEventListenerOptions) => {
+    count++;
+    add(type, listener, options);
+  }) as typeof signal.addEventListener;
+  signal.removeEventListener = ((type: string, listener: EventListener, options?: EventListenerOptions) => {
+    count--;
+    remove(type, listener, options);
+  }) as typeof signal.removeEventListener;
+  return () => count;
+}
+
+describe('withRetry', () => {
+  it('retries retryable failures', async () => {
+    let attempts = 0;
+    const result = await withRetry(async () => {
+      if (++attempts < 3) throw new NetworkError('Offline.');
+      return 'done';
+    }, { baseDelayMs: 1 });
+
+    expect(result).toBe('done');
+    expect(attempts).toBe(3);
+  });
+
+  it('leaves no listeners on the caller\'s signal', async () => {
+    const caller = new AbortController();
+    const listeners = countListeners(caller.signal);
+    let attempts = 0;
+
+    await withRetry(async () => {
+      if (++attempts < 3) throw new NetworkError('Offline.');
+      return 'done';
+    }, { signal: caller.signal, baseDelayMs: 1 });
+
+    expect(listeners()).toBe(0);
+  });
+});
+
+describe('openStream', () => {
+  it('reads the stream through', async () => {
+    const stream = await openStream(async () => (async function* () {
+      yield* ['a', 'b'];
+    })());
+
+    await expect(collect(stream)).resolves.toEqual(['a', 'b']);
+  });
+
+  it('times out a stream that stalls after opening', async () => {
+    const chunks: string[] = [];
+    const stream = await openStream(async signal => stalling(['a'], signal), { idleTimeoutMs: 20 });
+
+    await expect((async () => {
+      for await (const chunk of stream) chunks.push(chunk);
+    })()).rejects.toBeInstanceOf(TimeoutError);
+    expect(chunks).toEqual(['a']);
+  });
+
+  it('stops reading when the caller aborts', async () => {
+    const caller = new AbortController();
+    const listeners = countListeners(caller.signal);
+    const stream = await openStream(async signal => stalling(['a'], signal), { signal: caller.signal, idleTimeoutMs: 10_000 });
+
+    const reading = collect(stream);
+    setTimeout(() => caller.abort(), 5);
+
+    await expect(reading).rejects.toMatchObject({ name: 'AbortError' });
+    expect(listeners()).toBe(0);
+  });
+});
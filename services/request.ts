@@ -0,0 +1,133 @@
+import { QuotaError, SonicError, TimeoutError, toSonicError } from "./errors";
+
+export interface RequestOptions {
+  /** Cancels the request, including any pending retry. */
+  signal?: AbortSignal;
+  /** Per-attempt time limit. */
+  timeoutMs?: number;
+  /** Attempts after the first one; only retryable errors are retried. */
+  retries?: number;
+  baseDelayMs?: number;
+  /** A server asking us to wait longer than this fails right away instead. */
+  maxDelayMs?: number;
+}
+
+export interface StreamOptions extends RequestOptions {
+  /** How long reading may wait for the next chunk once the stream is open. */
+  idleTimeoutMs?: number;
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The request was cancelled.', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `attempt` with a timeout, retrying retryable failures (rate limits,
+ * 5xx, network errors, timeouts) with exponential backoff and jitter. Each
+ * attempt gets its own AbortSignal that fires on timeout or when the
+ * caller's signal aborts; errors come back as SonicError subclasses.
+ */
+export async function withRetry<T>(attempt: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+  const { signal, timeoutMs = 30_000, retries = 2, baseDelayMs = 500, maxDelayMs = 10_000 } = options;
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) throw abortError(signal);
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(abortError(signal!));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new DOMException('Timed out', 'AbortError'));
+    }, timeoutMs);
+
+    let error: unknown;
+    try {
+      return await attempt(controller.signal);
+    } catch (err) {
+      if (signal?.aborted) throw abortError(signal);
+      error = timedOut
+        ? new TimeoutError(`No response after ${Math.round(timeoutMs / 1000)} seconds.`)
+        : toSonicError(err);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!(error instanceof SonicError) || !error.retryable || attemptIndex >= retries) throw error;
+    const backoff = baseDelayMs * 2 ** attemptIndex * (1 + Math.random() * 0.25);
+    const requested = error instanceof QuotaError && error.retryAfterSeconds ? error.retryAfterSeconds * 1000 : 0;
+    if (requested > maxDelayMs) throw error;
+    await sleep(Math.max(backoff, requested), signal);
+  }
+}
+
+/**
+ * Opens a stream with `withRetry`, then reads it under an idle timeout: if
+ * no chunk arrives for `idleTimeoutMs`, the stream is aborted and reading
+ * fails with a TimeoutError. Only opening is retried; once chunks have been
+ * handed out a retry would repeat them. `open` must tie the stream to the
+ * signal it is given, which stays live until reading ends.
+ */
+export async function openStream<T>(open: (signal: AbortSignal) => Promise<AsyncIterable<T>>, options: StreamOptions = {}): Promise<AsyncIterable<T>> {
+  const { idleTimeoutMs = 30_000, ...request } = options;
+  const { signal } = request;
+  // Outlives withRetry's per-attempt signals, which stop following the
+  // caller's signal once the stream is open.
+  const reading = new AbortController();
+  const onAbort = () => reading.abort(abortError(signal!));
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let stream: AsyncIterable<T>;
+  try {
+    stream = await withRetry(attemptSignal => open(AbortSignal.any([attemptSignal, reading.signal])), request);
+  } catch (err) {
+    signal?.removeEventListener('abort', onAbort);
+    throw err;
+  }
+
+  return (async function* () {
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const arm = () => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reading.abort(new DOMException('Timed out', 'AbortError'));
+      }, idleTimeoutMs);
+    };
+    try {
+      arm();
+      for await (const chunk of stream) {
+        // The consumer's own work on a chunk doesn't count as waiting.
+        clearTimeout(timer);
+        yield chunk;
+        arm();
+      }
+    } catch (err) {
+      if (timedOut && !signal?.aborted) throw new TimeoutError(`The stream stalled for ${Math.round(idleTimeoutMs / 1000)} seconds.`);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  })();
+}
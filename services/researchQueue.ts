@@ -0,0 +1,131 @@
+import { AppStatus, SessionTurn } from "../types";
+import { concatBytes, decodeBase64, encodeBase64 } from "./audio";
+import { isAbortError } from "./errors";
+import { AIProvider } from "./provider";
+import { formatTurn, splitSentences } from "./sentences";
+
+/**
+ * One query of a batch. `status` reuses the app's stages: IDLE while waiting
+ * (or, once `turn` is set, finished), SEARCHING, GENERATING_AUDIO or ERROR.
+ */
+export interface QueueItem {
+  id: string;
+  query: string;
+  status: AppStatus;
+  /** The answer with its audio, once both are ready. */
+  turn?: SessionTurn;
+  error?: unknown;
+}
+
+export function isQueued(item: QueueItem): boolean {
+  return item.status === AppStatus.IDLE && !item.turn;
+}
+
+/**
+ * Researches a list of queries in the background, a few at a time: each is
+ * searched, then voiced sentence by sentence (or turn by turn for podcasts)
+ * like a live search. Finished items keep their place in the list, so the
+ * results play back in the order the queries were added.
+ */
+export class ResearchQueue {
+  private list: QueueItem[] = [];
+  private running = new Map<string, AbortController>();
+  private nextId = 0;
+
+  constructor(
+    private provider: AIProvider,
+    private onChange: (items: QueueItem[]) => void,
+    /** Called with each item as soon as its answer and audio are ready. */
+    private onDone: (item: QueueItem) => void,
+    private maxConcurrent = 2,
+  ) {}
+
+  get items(): QueueItem[] {
+    return this.list;
+  }
+
+  add(queries: string[]) {
+    const added = queries
+      .map(query => query.trim())
+      .filter(Boolean)
+      .map(query => ({ id: `${Date.now()}-${this.nextId++}`, query, status: AppStatus.IDLE }));
+    if (added.length === 0) return;
+    this.setItems([...this.list, ...added]);
+    this.pump();
+  }
+
+  retry(id: string) {
+    this.update(id, { status: AppStatus.IDLE, error: undefined, turn: undefined });
+    this.pump();
+  }
+
+  remove(id: string) {
+    this.running.get(id)?.abort();
+    this.setItems(this.list.filter(item => item.id !== id));
+  }
+
+  /** Whether `signal` belongs to one of the queue's own requests. */
+  owns(signal: AbortSignal): boolean {
+    return [...this.running.values()].some(controller => controller.signal === signal);
+  }
+
+  /** Drops every item, cancelling the ones in progress. */
+  clear() {
+    this.running.forEach(controller => controller.abort());
+    this.setItems([]);
+  }
+
+  private setItems(items: QueueItem[]) {
+    this.list = items;
+    this.onChange(items);
+  }
+
+  private update(id: string, patch: Partial<QueueItem>) {
+    this.setItems(this.list.map(item => item.id === id ? { ...item, ...patch } : item));
+  }
+
+  private pump() {
+    for (const item of this.list) {
+      if (this.running.size >= this.maxConcurrent) return;
+      if (isQueued(item) && !this.running.has(item.id)) this.run(item);
+    }
+  }
+
+  private async run(item: QueueItem) {
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.running.set(item.id, controller);
+    try {
+      this.update(item.id, { status: AppStatus.SEARCHING });
+      const results = await this.provider.searchAndSummarize(item.query, signal);
+
+      this.update(item.id, { status: AppStatus.GENERATING_AUDIO });
+      const segments = results.dialogue ? results.dialogue.map(formatTurn) : splitSentences(results.summary);
+      const chunks: Uint8Array[] = [];
+      for (const segment of segments) {
+        const audioBase64 = results.dialogue
+          ? await this.provider.generateDialogueSpeech(segment, signal)
+          : await this.provider.generateSpeech(segment, undefined, signal);
+        chunks.push(decodeBase64(audioBase64));
+      }
+
+      const turn: SessionTurn = {
+        id: item.id,
+        query: item.query,
+        timestamp: Date.now(),
+        results,
+        audioBase64: encodeBase64(concatBytes(chunks)),
+        audioSegments: chunks.map(chunk => chunk.length / 2),
+      };
+      this.update(item.id, { status: AppStatus.IDLE, turn });
+      this.onDone({ ...item, status: AppStatus.IDLE, turn });
+    } catch (err) {
+      // Removed or cleared meanwhile.
+      if (signal.aborted || isAbortError(err)) return;
+      this.update(item.id, { status: AppStatus.ERROR, error: err });
+    } finally {
+      this.running.delete(item.id);
+      this.pump();
+    }
+  }
+}
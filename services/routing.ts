@@ -0,0 +1,55 @@
+/** What the address bar can point at. */
+export type Route =
+  | { view: 'home' }
+  | { view: 'search'; query: string }
+  | { view: 'compare'; query: string }
+  /** `query` lets the link fall back to searching again where the session isn't saved. */
+  | { view: 'session'; sessionId: string; query?: string }
+  | { view: 'shared'; payload: string };
+
+// Shared answers live in the fragment, which browsers never send to a server.
+const SHARE_PREFIX = '#share=';
+
+export function parseRoute(location: Location = window.location): Route {
+  if (location.hash.startsWith(SHARE_PREFIX)) {
+    return { view: 'shared', payload: location.hash.slice(SHARE_PREFIX.length) };
+  }
+  const params = new URLSearchParams(location.search);
+  const query = params.get('q')?.trim() || undefined;
+  const compared = params.get('compare')?.trim();
+  if (compared) return { view: 'compare', query: compared };
+  const sessionId = params.get('session');
+  if (sessionId) return { view: 'session', sessionId, query };
+  if (query) return { view: 'search', query };
+  return { view: 'home' };
+}
+
+export function routeUrl(route: Route): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  switch (route.view) {
+    case 'search':
+      url.searchParams.set('q', route.query);
+      break;
+    case 'compare':
+      url.searchParams.set('compare', route.query);
+      break;
+    case 'session':
+      url.searchParams.set('session', route.sessionId);
+      if (route.query) url.searchParams.set('q', route.query);
+      break;
+    case 'shared':
+      url.hash = SHARE_PREFIX + route.payload;
+      break;
+  }
+  return url.href;
+}
+
+/** Points the address bar at `route`, adding a history entry unless `replace` is set. */
+export function navigate(route: Route, replace = false) {
+  const url = routeUrl(route);
+  if (url === window.location.href) return;
+  if (replace) window.history.replaceState(null, '', url);
+  else window.history.pushState(null, '', url);
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { AppStatus } from '../types';
+import { IllegalTransitionError, SearchFlow } from './searchFlow';
+
+describe('SearchFlow', () => {
+  it('walks a search through to playback', () => {
+    const flow = new SearchFlow();
+    const seen: AppStatus[] = [];
+    flow.onChange = status => seen.push(status);
+
+    const signal = flow.begin(AppStatus.SEARCHING);
+    expect(flow.busy).toBe(true);
+    expect(flow.advance(signal, AppStatus.SYNTHESIZING)).toBe(true);
+    expect(flow.advance(signal, AppStatus.PLAYING)).toBe(true);
+    flow.playback('paused');
+    flow.playback('ended');
+
+    expect(seen).toEqual([AppStatus.SEARCHING, AppStatus.SYNTHESIZING, AppStatus.PLAYING, AppStatus.PAUSED, AppStatus.IDLE]);
+    expect(flow.busy).toBe(false);
+  });
+
+  it('treats advancing to the current step as a no-op', () => {
+    const flow = new SearchFlow();
+    const signal = flow.begin(AppStatus.SEARCHING);
+    expect(flow.advance(signal, AppStatus.SEARCHING)).toBe(true);
+    expect(flow.status).toBe(AppStatus.SEARCHING);
+  });
+
+  it('throws on an illegal step and stays where it was', () => {
+    const flow = new SearchFlow();
+    const signal = flow.begin(AppStatus.TWEAKING);
+
+    expect(() => flow.advance(signal, AppStatus.PLAYING)).toThrow(IllegalTransitionError);
+    expect(() => flow.advance(signal, AppStatus.TRANSLATING)).toThrow(new IllegalTransitionError(AppStatus.TWEAKING, AppStatus.TRANSLATING));
+    expect(flow.status).toBe(AppStatus.TWEAKING);
+  });
+
+  it('cancels the flow in progress when a new one begins', () => {
+    const flow = new SearchFlow();
+    const first = flow.begin(AppStatus.SEARCHING);
+    const second = flow.begin(AppStatus.INSPIRING);
+
+    expect(first.aborted).toBe(true);
+    expect(second.aborted).toBe(false);
+    expect(flow.status).toBe(AppStatus.INSPIRING);
+  });
+
+  it('ignores steps reported by a replaced, cancelled or failed flow', () => {
+    const flow = new SearchFlow();
+    const replaced = flow.begin(AppStatus.SEARCHING);
+    flow.begin(AppStatus.REFINING);
+    expect(flow.advance(replaced, AppStatus.SYNTHESIZING)).toBe(false);
+    // Not even an illegal step throws once the flow is stale.
+    expect(flow.advance(replaced, AppStatus.PAUSED)).toBe(false);
+    expect(flow.status).toBe(AppStatus.REFINING);
+
+    const cancelled = flow.begin(AppStatus.SEARCHING);
+    flow.cancel();
+    expect(flow.advance(cancelled, AppStatus.SYNTHESIZING)).toBe(false);
+    expect(flow.status).toBe(AppStatus.IDLE);
+
+    const failed = flow.begin(AppStatus.SEARCHING);
+    flow.fail();
+    expect(flow.advance(failed, AppStatus.SYNTHESIZING)).toBe(false);
+    expect(flow.status).toBe(AppStatus.ERROR);
+  });
+
+  it('ignores player events that make no sense from the current status', () => {
+    const flow = new SearchFlow();
+    flow.playback('paused');
+    expect(flow.status).toBe(AppStatus.IDLE);
+
+    flow.begin(AppStatus.SEARCHING);
+    flow.playback('stopped');
+    expect(flow.status).toBe(AppStatus.SEARCHING);
+  });
+
+  it('times each step it leaves, except listening', () => {
+    let now = 0;
+    const flow = new SearchFlow(() => now);
+    const timed: [AppStatus, number][] = [];
+    flow.onStepTimed = (step, seconds) => timed.push([step, seconds]);
+
+    const listening = flow.begin(AppStatus.LISTENING);
+    now = 5000;
+    flow.advance(listening, AppStatus.TRANSCRIBING);
+    now = 5500;
+    flow.advance(listening, AppStatus.SEARCHING);
+    now = 7000;
+    flow.advance(listening, AppStatus.SYNTHESIZING);
+    now = 9500;
+    flow.advance(listening, AppStatus.PLAYING);
+    now = 12000;
+    flow.playback('ended');
+
+    expect(timed).toEqual([
+      [AppStatus.TRANSCRIBING, 0.5],
+      [AppStatus.SEARCHING, 1.5],
+      [AppStatus.SYNTHESIZING, 2.5],
+    ]);
+  });
+
+  it('restarts the clock when a new flow begins', () => {
+    let now = 0;
+    const flow = new SearchFlow(() => now);
+    const timed: [AppStatus, number][] = [];
+    flow.onStepTimed = (step, seconds) => timed.push([step, seconds]);
+
+    flow.begin(AppStatus.SEARCHING);
+    now = 4000;
+    const signal = flow.begin(AppStatus.SEARCHING);
+    now = 5000;
+    flow.advance(signal, AppStatus.SYNTHESIZING);
+
+    expect(timed).toEqual([[AppStatus.SEARCHING, 1]]);
+  });
+});
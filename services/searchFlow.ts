@@ -0,0 +1,131 @@
+import { AppStatus } from "../types";
+import { PlayerState } from "./audioPlayer";
+
+/** Stages where the app is working and a new request would clash. */
+const BUSY = new Set<AppStatus>([
+  AppStatus.LISTENING,
+  AppStatus.TRANSCRIBING,
+  AppStatus.TWEAKING,
+  AppStatus.INSPIRING,
+  AppStatus.REFINING,
+  AppStatus.TRANSLATING,
+  AppStatus.COMPARING,
+  AppStatus.SEARCHING,
+  AppStatus.SYNTHESIZING,
+  AppStatus.GENERATING_AUDIO,
+]);
+
+// Stages whose duration goes to the activity log. Listening lasts as long
+// as the user talks, so it isn't one of them.
+const TIMED = new Set<AppStatus>([...BUSY].filter(stage => stage !== AppStatus.LISTENING));
+
+/**
+ * Where a flow may go from each stage. Starting a new flow, failing and
+ * cancelling are allowed from anywhere and aren't listed.
+ */
+const NEXT: Record<AppStatus, AppStatus[]> = {
+  [AppStatus.IDLE]: [AppStatus.PLAYING],
+  [AppStatus.LISTENING]: [AppStatus.TRANSCRIBING],
+  [AppStatus.TRANSCRIBING]: [AppStatus.SEARCHING],
+  [AppStatus.TWEAKING]: [AppStatus.SEARCHING],
+  [AppStatus.INSPIRING]: [AppStatus.SEARCHING],
+  [AppStatus.REFINING]: [AppStatus.SEARCHING],
+  [AppStatus.TRANSLATING]: [AppStatus.GENERATING_AUDIO],
+  [AppStatus.COMPARING]: [AppStatus.GENERATING_AUDIO],
+  [AppStatus.SEARCHING]: [AppStatus.SYNTHESIZING, AppStatus.GENERATING_AUDIO],
+  [AppStatus.SYNTHESIZING]: [AppStatus.PLAYING, AppStatus.GENERATING_AUDIO],
+  [AppStatus.GENERATING_AUDIO]: [AppStatus.PLAYING],
+  [AppStatus.PLAYING]: [AppStatus.PAUSED, AppStatus.IDLE],
+  [AppStatus.PAUSED]: [AppStatus.PLAYING, AppStatus.IDLE],
+  [AppStatus.ERROR]: [AppStatus.PLAYING],
+};
+
+const PLAYBACK: Record<PlayerState, AppStatus> = {
+  playing: AppStatus.PLAYING,
+  paused: AppStatus.PAUSED,
+  stopped: AppStatus.IDLE,
+  ended: AppStatus.IDLE,
+};
+
+export class IllegalTransitionError extends Error {
+  constructor(readonly from: AppStatus, readonly to: AppStatus) {
+    super(`A search flow can't go from ${from} to ${to}.`);
+  }
+}
+
+/**
+ * The app's status as a state machine. Each user action starts a flow
+ * (search, workshop, voice input...) that owns an AbortSignal; starting
+ * another cancels it, and steps reported by a cancelled flow are ignored,
+ * so a stale request can never move the status again.
+ */
+export class SearchFlow {
+  private current: AppStatus = AppStatus.IDLE;
+  private controller: AbortController | null = null;
+  private stepStartedAt = 0;
+
+  onChange?: (status: AppStatus) => void;
+  /** Called as a flow leaves each timed step. */
+  onStepTimed?: (step: AppStatus, seconds: number) => void;
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  get status(): AppStatus {
+    return this.current;
+  }
+
+  get busy(): boolean {
+    return BUSY.has(this.current);
+  }
+
+  /** Starts a new flow at `stage`, cancelling the one in progress. */
+  begin(stage: AppStatus): AbortSignal {
+    this.controller?.abort();
+    this.controller = new AbortController();
+    this.enter(stage);
+    return this.controller.signal;
+  }
+
+  /**
+   * Moves the flow that owns `signal` on to `stage`. Returns false if that
+   * flow has been cancelled or replaced; throws if the step is illegal.
+   */
+  advance(signal: AbortSignal, stage: AppStatus): boolean {
+    if (signal.aborted || signal !== this.controller?.signal) return false;
+    if (stage === this.current) return true;
+    if (!NEXT[this.current].includes(stage)) throw new IllegalTransitionError(this.current, stage);
+    if (TIMED.has(this.current)) this.onStepTimed?.(this.current, (this.now() - this.stepStartedAt) / 1000);
+    this.enter(stage);
+    return true;
+  }
+
+  /**
+   * Follows the player, whichever flow started it. Out-of-order events,
+   * e.g. from a player that is being replaced, are ignored.
+   */
+  playback(state: PlayerState) {
+    const stage = PLAYBACK[state];
+    if (stage === this.current || !NEXT[this.current].includes(stage)) return;
+    this.enter(stage);
+  }
+
+  fail() {
+    this.controller?.abort();
+    this.controller = null;
+    this.enter(AppStatus.ERROR);
+  }
+
+  /** Aborts the current flow's requests and returns to IDLE. */
+  cancel() {
+    this.controller?.abort();
+    this.controller = null;
+    this.enter(AppStatus.IDLE);
+  }
+
+  private enter(stage: AppStatus) {
+    this.stepStartedAt = this.now();
+    if (stage === this.current) return;
+    this.current = stage;
+    this.onChange?.(stage);
+  }
+}
@@ -0,0 +1,249 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AppStatus, SearchResponse } from '../types';
+import { encodeBase64 } from './audio';
+import { EmptyAudioError, QuotaError } from './errors';
+import type { AIProvider } from './provider';
+import { SearchFlow } from './searchFlow';
+import { SearchHooks, SearchPipeline } from './searchPipeline';
+
+// Two 16-bit samples.
+const PCM = encodeBase64(new Uint8Array(4));
+
+function answer(query: string, summary = 'First sentence. Second sentence.'): SearchResponse {
+  return { summary, sources: [], actualQuery: query };
+}
+
+// Like a real request: rejects with an AbortError once `signal` aborts.
+function pending<T>(signal?: AbortSignal, until: Promise<T> = new Promise(() => {})): Promise<T> {
+  return new Promise((resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    until.then(resolve, reject);
+  });
+}
+
+function fakeProvider(overrides: Partial<AIProvider> = {}): AIProvider {
+  return {
+    updateSettings: () => {},
+    generateRandomPrompt: async () => 'random question',
+    tweakQuery: async query => `${query}, improved`,
+    refineQuery: async query => `${query}, deeper`,
+    transcribeAudio: async () => 'spoken question',
+    searchAndSummarize: async query => answer(query),
+    streamSearchAndSummarize: async (query, onSegment) => {
+      onSegment('First sentence.');
+      onSegment('Second sentence.');
+      return answer(query);
+    },
+    synthesizeComparison: async () => ({ rows: [], verdict: 'Both.', script: 'Both will do.' }),
+    translateSummary: async results => ({ ...results, summary: 'Erster Satz. Zweiter Satz.' }),
+    generateSpeech: async () => PCM,
+    generateDialogueSpeech: async () => PCM,
+    ...overrides,
+  };
+}
+
+function setup(provider: AIProvider) {
+  const pipeline = new SearchPipeline(provider);
+  const statuses: AppStatus[] = [];
+  pipeline.flow.onChange = status => statuses.push(status);
+  const onError = vi.fn();
+  pipeline.onError = onError;
+  return { pipeline, statuses, onError };
+}
+
+function recordingHooks() {
+  const calls: string[] = [];
+  const hooks: SearchHooks = {
+    onQuery: query => calls.push(`query ${query}`),
+    onSearching: query => calls.push(`searching ${query}`),
+    onSegment: segment => calls.push(`segment ${segment}`),
+    onResults: results => calls.push(`results ${results.actualQuery}`),
+    onAudio: pcm => { calls.push(`audio ${pcm.length}`); },
+  };
+  return { calls, hooks };
+}
+
+describe('SearchPipeline', () => {
+  it('searches, streams and voices the answer', async () => {
+    const { pipeline, statuses, onError } = setup(fakeProvider());
+    const { calls, hooks } = recordingHooks();
+
+    const result = await pipeline.search('why is the sky blue', { podcast: false }, hooks);
+
+    expect(result?.results.actualQuery).toBe('why is the sky blue');
+    expect(result?.audio).toEqual({ audioBase64: encodeBase64(new Uint8Array(8)), audioSegments: [2, 2] });
+    // The fake's text is done before any audio is, so the flow waits on synthesis.
+    expect(statuses).toEqual([AppStatus.SEARCHING, AppStatus.SYNTHESIZING, AppStatus.GENERATING_AUDIO, AppStatus.PLAYING]);
+    expect(calls).toEqual([
+      'searching why is the sky blue',
+      'segment First sentence.',
+      'segment Second sentence.',
+      'results why is the sky blue',
+      'audio 4',
+      'audio 4',
+    ]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('searches for the query a workshop step came up with', async () => {
+    const { pipeline, statuses } = setup(fakeProvider());
+    const { calls, hooks } = recordingHooks();
+
+    const result = await pipeline.workshop('sky colour', { podcast: false }, hooks);
+
+    expect(result?.results.actualQuery).toBe('sky colour, improved');
+    expect(statuses.slice(0, 2)).toEqual([AppStatus.TWEAKING, AppStatus.SEARCHING]);
+    expect(calls.slice(0, 2)).toEqual(['query sky colour, improved', 'searching sky colour, improved']);
+  });
+
+  it('voices podcast answers with both hosts', async () => {
+    const provider = fakeProvider();
+    const generateDialogueSpeech = vi.spyOn(provider, 'generateDialogueSpeech');
+    const { pipeline } = setup(provider);
+
+    await pipeline.search('sky', { podcast: true }, recordingHooks().hooks);
+
+    expect(generateDialogueSpeech).toHaveBeenCalledTimes(2);
+  });
+
+  it('translates an answer and voices the translation', async () => {
+    const { pipeline, statuses } = setup(fakeProvider());
+    const onTranslated = vi.fn();
+    const onAudio = vi.fn();
+
+    const result = await pipeline.translate(answer('sky'), 'de', { onTranslated, onAudio });
+
+    expect(result?.results.summary).toBe('Erster Satz. Zweiter Satz.');
+    expect(onTranslated).toHaveBeenCalledWith(result?.results);
+    expect(onAudio).toHaveBeenCalledTimes(2);
+    expect(statuses).toEqual([AppStatus.TRANSLATING, AppStatus.GENERATING_AUDIO, AppStatus.PLAYING]);
+  });
+
+  it('compares the options and voices the verdict', async () => {
+    const { pipeline, statuses } = setup(fakeProvider());
+    const onItem = vi.fn();
+
+    const result = await pipeline.compare('Rust vs Go', ['Rust', 'Go'], { onItem });
+
+    expect(onItem).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ query: 'Rust vs Go', verdict: 'Both.', audioBase64: PCM });
+    expect(statuses).toEqual([AppStatus.COMPARING, AppStatus.GENERATING_AUDIO, AppStatus.PLAYING]);
+  });
+
+  it('cancels the flow in flight when a new one starts', async () => {
+    let firstSignal: AbortSignal | undefined;
+    const provider = fakeProvider();
+    const stream = provider.streamSearchAndSummarize;
+    provider.streamSearchAndSummarize = (query, onSegment, context, signal) => {
+      if (query !== 'first') return stream(query, onSegment, context, signal);
+      firstSignal = signal;
+      return pending(signal);
+    };
+    const { pipeline, onError } = setup(provider);
+    const first = recordingHooks();
+
+    const stale = pipeline.search('first', { podcast: false }, first.hooks);
+    const fresh = await pipeline.search('second', { podcast: false }, recordingHooks().hooks);
+
+    expect(firstSignal?.aborted).toBe(true);
+    await expect(stale).resolves.toBeNull();
+    expect(fresh?.results.actualQuery).toBe('second');
+    expect(first.calls).toEqual(['searching first']);
+    expect(onError).not.toHaveBeenCalled();
+    expect(pipeline.flow.status).toBe(AppStatus.PLAYING);
+  });
+
+  it('ignores what a replaced flow reports once its request comes back anyway', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    // A request that doesn't honour its signal and answers late.
+    const provider = fakeProvider({
+      tweakQuery: async query => {
+        await gate;
+        return `${query}, improved`;
+      },
+      generateRandomPrompt: signal => pending(signal),
+    });
+    const { pipeline, statuses, onError } = setup(provider);
+    const stale = recordingHooks();
+
+    const workshop = pipeline.workshop('sky', { podcast: false }, stale.hooks);
+    pipeline.inspire({ podcast: false }, recordingHooks().hooks);
+    release();
+
+    await expect(workshop).resolves.toBeNull();
+    expect(stale.calls).toEqual([]);
+    expect(statuses).toEqual([AppStatus.TWEAKING, AppStatus.INSPIRING]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed step once, with the step it failed in', async () => {
+    const error = new QuotaError('Out of quota.');
+    const { pipeline, onError } = setup(fakeProvider({
+      streamSearchAndSummarize: async () => { throw error; },
+    }));
+
+    await expect(pipeline.search('sky', { podcast: false }, recordingHooks().hooks)).resolves.toBeNull();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error, AppStatus.SEARCHING);
+    expect(pipeline.flow.status).toBe(AppStatus.ERROR);
+  });
+
+  it('fails the flow as soon as a segment fails to voice', async () => {
+    const error = new QuotaError('Out of quota.');
+    const { pipeline, onError } = setup(fakeProvider({
+      generateSpeech: async () => { throw error; },
+    }));
+    const { calls, hooks } = recordingHooks();
+
+    await expect(pipeline.search('sky', { podcast: false }, hooks)).resolves.toBeNull();
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error, AppStatus.GENERATING_AUDIO);
+    expect(calls.some(call => call.startsWith('audio'))).toBe(false);
+    expect(pipeline.flow.status).toBe(AppStatus.ERROR);
+  });
+
+  it('fails when the answer had nothing to voice', async () => {
+    const { pipeline, onError } = setup(fakeProvider({
+      streamSearchAndSummarize: async query => answer(query, ''),
+    }));
+
+    await expect(pipeline.search('sky', { podcast: false }, recordingHooks().hooks)).resolves.toBeNull();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(EmptyAudioError), AppStatus.GENERATING_AUDIO);
+  });
+
+  it('times each step of a search', async () => {
+    let now = 0;
+    const flow = new SearchFlow(() => now);
+    const timed: [AppStatus, number][] = [];
+    flow.onStepTimed = (step, seconds) => timed.push([step, seconds]);
+    const pipeline = new SearchPipeline(fakeProvider({
+      refineQuery: async query => {
+        now += 1000;
+        return `${query}, deeper`;
+      },
+      streamSearchAndSummarize: async (query, onSegment) => {
+        now += 2000;
+        onSegment('First sentence.');
+        onSegment('Second sentence.');
+        return answer(query);
+      },
+      generateSpeech: async () => {
+        now += 500;
+        return PCM;
+      },
+    }), flow);
+
+    await pipeline.refine('sky', 'It is blue.', { podcast: false }, recordingHooks().hooks);
+
+    expect(timed).toEqual([
+      [AppStatus.REFINING, 1],
+      [AppStatus.SEARCHING, 2],
+      [AppStatus.SYNTHESIZING, 1],
+      [AppStatus.GENERATING_AUDIO, 0],
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import { AppStatus, ComparedItem, ComparisonResponse, SearchResponse, SessionTurn } from "../types";
+import { concatBytes, encodeBase64 } from "./audio";
+import { runComparison } from "./comparison";
+import { EmptyAudioError, isAbortError } from "./errors";
+import type { AIProvider } from "./provider";
+import { SearchFlow } from "./searchFlow";
+import { formatTurn, splitSentences } from "./sentences";
+import { SpeechQueue } from "./speechQueue";
+
+export interface SearchRequest {
+  /** Earlier turns of the session a follow-up is asked in. */
+  context?: SessionTurn[];
+  /** Podcast answers arrive as "Speaker: text" turns and are voiced by both hosts. */
+  podcast: boolean;
+}
+
+/** Callbacks a step uses to update the page; only the current flow calls them. */
+export interface SpeechHooks {
+  /** Each voiced chunk, in order. The flow is already PLAYING when the first arrives. */
+  onAudio: (pcm: Uint8Array) => void | Promise<void>;
+}
+
+export interface SearchHooks extends SpeechHooks {
+  /** A step before the search (workshop, voice input...) came up with the query. */
+  onQuery?: (query: string) => void;
+  onSearching?: (query: string) => void;
+  /** Each sentence, or podcast turn, as it streams in. */
+  onSegment?: (segment: string) => void;
+  /** The complete answer, while its last sentences are still being voiced. */
+  onResults?: (results: SearchResponse) => void;
+}
+
+export interface TranslateHooks extends SpeechHooks {
+  onTranslated?: (results: SearchResponse) => void;
+}
+
+export interface CompareHooks {
+  /** Each option as its own answer arrives. */
+  onItem?: (item: ComparedItem) => void;
+  /** The table and verdict, before the verdict is voiced. */
+  onCompared?: (comparison: ComparisonResponse) => void;
+}
+
+export interface VoicedAudio {
+  audioBase64: string;
+  /** Sample count of each chunk, so replays can highlight the same sentences. */
+  audioSegments: number[];
+}
+
+export interface VoicedAnswer {
+  results: SearchResponse;
+  audio: VoicedAudio;
+}
+
+/**
+ * Runs the app's flows step by step: the provider calls, the transitions
+ * between them and the speech that follows. Every public method resolves to
+ * null if its flow was cancelled or replaced, or failed; failures are
+ * reported once, through `onError`, with the step they happened in.
+ */
+export class SearchPipeline {
+  /** A step failed; the flow is already in ERROR. */
+  onError?: (err: unknown, step: AppStatus) => void;
+  /** Speech synthesis is starting for the flow that owns `signal`. */
+  onSpeaking?: (signal: AbortSignal) => void;
+
+  constructor(private provider: AIProvider, readonly flow: SearchFlow = new SearchFlow()) {}
+
+  /** Searches and speaks the answer, sentence by sentence as it streams in. */
+  search(query: string, request: SearchRequest, hooks: SearchHooks): Promise<VoicedAnswer | null> {
+    return this.searchIn(this.flow.begin(AppStatus.SEARCHING), query, request, hooks);
+  }
+
+  /** Has the provider improve the query, then searches for the improved one. */
+  workshop(query: string, request: SearchRequest, hooks: SearchHooks): Promise<VoicedAnswer | null> {
+    return this.searchAfter(AppStatus.TWEAKING, signal => this.provider.tweakQuery(query, signal), request, hooks);
+  }
+
+  /** Searches for a random question. */
+  inspire(request: SearchRequest, hooks: SearchHooks): Promise<VoicedAnswer | null> {
+    return this.searchAfter(AppStatus.INSPIRING, signal => this.provider.generateRandomPrompt(signal), request, hooks);
+  }
+
+  /** Asks a deeper follow-up to `original`, given what its answer already said. */
+  refine(original: string, summary: string, request: SearchRequest, hooks: SearchHooks): Promise<VoicedAnswer | null> {
+    return this.searchAfter(AppStatus.REFINING, signal => this.provider.refineQuery(original, summary, signal), request, hooks);
+  }
+
+  /** Transcribes a finished recording and searches for what was said. */
+  transcribe(stopRecording: () => Promise<Uint8Array>, request: SearchRequest, hooks: SearchHooks): Promise<VoicedAnswer | null> {
+    return this.searchAfter(AppStatus.TRANSCRIBING, async signal => {
+      const wav = await stopRecording();
+      return this.provider.transcribeAudio(encodeBase64(wav), undefined, signal);
+    }, request, hooks);
+  }
+
+  /** Voices an answer that has no audio yet, e.g. after synthesis failed or was stopped. */
+  async voice(results: SearchResponse, hooks: SpeechHooks): Promise<VoicedAudio | null> {
+    const signal = this.flow.begin(AppStatus.GENERATING_AUDIO);
+    try {
+      return await this.voiceIn(signal, results, hooks);
+    } catch (err) {
+      this.fail(err, signal);
+      return null;
+    }
+  }
+
+  /** Translates an answer and voices the translation. */
+  async translate(results: SearchResponse, language: string, hooks: TranslateHooks): Promise<VoicedAnswer | null> {
+    const signal = this.flow.begin(AppStatus.TRANSLATING);
+    try {
+      const translated = await this.provider.translateSummary(results, language, signal);
+      if (!this.flow.advance(signal, AppStatus.GENERATING_AUDIO)) return null;
+      hooks.onTranslated?.(translated);
+      const audio = await this.voiceIn(signal, translated, hooks);
+      return audio && { results: translated, audio };
+    } catch (err) {
+      this.fail(err, signal);
+      return null;
+    }
+  }
+
+  /** Researches each option in parallel, compares them and voices the verdict. */
+  async compare(question: string, labels: string[], hooks: CompareHooks): Promise<ComparisonResponse | null> {
+    const signal = this.flow.begin(AppStatus.COMPARING);
+    try {
+      const comparison = await runComparison(this.provider, question, labels, item => {
+        if (!signal.aborted) hooks.onItem?.(item);
+      }, signal);
+      if (!this.flow.advance(signal, AppStatus.GENERATING_AUDIO)) return null;
+      hooks.onCompared?.(comparison);
+      const audioBase64 = await this.provider.generateSpeech(comparison.script, undefined, signal);
+      if (!this.flow.advance(signal, AppStatus.PLAYING)) return null;
+      return { ...comparison, audioBase64 };
+    } catch (err) {
+      this.fail(err, signal);
+      return null;
+    }
+  }
+
+  // Runs the step that produces a query, then searches for it in the same flow.
+  private async searchAfter(
+    step: AppStatus,
+    produceQuery: (signal: AbortSignal) => Promise<string>,
+    request: SearchRequest,
+    hooks: SearchHooks,
+  ): Promise<VoicedAnswer | null> {
+    const signal = this.flow.begin(step);
+    let query: string;
+    try {
+      query = await produceQuery(signal);
+    } catch (err) {
+      this.fail(err, signal);
+      return null;
+    }
+    if (signal.aborted) return null;
+    hooks.onQuery?.(query);
+    return this.searchIn(signal, query, request, hooks);
+  }
+
+  private async searchIn(signal: AbortSignal, query: string, request: SearchRequest, hooks: SearchHooks): Promise<VoicedAnswer | null> {
+    try {
+      if (!this.flow.advance(signal, AppStatus.SEARCHING)) return null;
+      hooks.onSearching?.(query);
+      const speech = this.speak(signal, request.podcast, hooks);
+      let streamed = 0;
+      const results = await this.provider.streamSearchAndSummarize(query, segment => {
+        if (signal.aborted) return;
+        if (streamed++ === 0) this.flow.advance(signal, AppStatus.SYNTHESIZING);
+        hooks.onSegment?.(segment);
+        speech.push(segment);
+      }, request.context, signal);
+      if (signal.aborted) return null;
+      hooks.onResults?.(results);
+      const audio = await speech.finish();
+      return audio && { results, audio };
+    } catch (err) {
+      this.fail(err, signal);
+      return null;
+    }
+  }
+
+  private async voiceIn(signal: AbortSignal, results: SearchResponse, hooks: SpeechHooks): Promise<VoicedAudio | null> {
+    const speech = this.speak(signal, !!results.dialogue, hooks);
+    const segments = results.dialogue ? results.dialogue.map(formatTurn) : splitSentences(results.summary);
+    segments.forEach(speech.push);
+    return speech.finish();
+  }
+
+  /**
+   * Voices segments as they are pushed. `finish` resolves to the collected
+   * audio once everything pushed has been voiced, or null if the flow ended
+   * first. A failed segment fails the flow at once, even mid-stream.
+   */
+  private speak(signal: AbortSignal, podcast: boolean, hooks: SpeechHooks) {
+    const chunks: Uint8Array[] = [];
+    const speech = new SpeechQueue(
+      segment => podcast
+        ? this.provider.generateDialogueSpeech(segment, signal)
+        : this.provider.generateSpeech(segment, undefined, signal),
+      async pcm => {
+        // Advance before the player reports 'playing' so the step gets timed.
+        // Later chunks leave the status alone, since the user may have paused.
+        if (chunks.length === 0 ? !this.flow.advance(signal, AppStatus.PLAYING) : signal.aborted) return;
+        chunks.push(pcm);
+        await hooks.onAudio(pcm);
+      },
+    );
+    speech.onError = err => this.fail(err, signal, AppStatus.GENERATING_AUDIO);
+    signal.addEventListener('abort', () => speech.cancel(), { once: true });
+    this.onSpeaking?.(signal);
+
+    return {
+      push: (segment: string) => speech.push(segment),
+      finish: async (): Promise<VoicedAudio | null> => {
+        if (chunks.length === 0) this.flow.advance(signal, AppStatus.GENERATING_AUDIO);
+        await speech.drain();
+        if (signal.aborted) return null;
+        if (chunks.length === 0) throw new EmptyAudioError("No audio was generated for this summary.");
+        return {
+          audioBase64: encodeBase64(concatBytes(chunks)),
+          audioSegments: chunks.map(chunk => chunk.length / 2),
+        };
+      },
+    };
+  }
+
+  // Cancelled and replaced flows end quietly; anything else fails the flow once.
+  private fail(err: unknown, signal: AbortSignal, step: AppStatus = this.flow.status) {
+    if (signal.aborted || isAbortError(err)) return;
+    this.flow.fail();
+    this.onError?.(err, step);
+  }
+}
@@ -0,0 +1,128 @@
+import { DialogueTurn, TextSpan } from "../types";
+
+// A terminator only counts once whitespace follows it, so a stream chunk
+// that ends mid-number ("3.") is never split early. Chinese and Japanese
+// full stops are unambiguous and usually have no space after them.
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+|[。！？]+[」』”’）)\]]*\s*/g;
+
+export function splitSentences(text: string): string[] {
+  const splitter = new SentenceSplitter();
+  return [...splitter.push(text), ...splitter.flush()];
+}
+
+/**
+ * Where each sentence of `text` starts and ends, cut at the same places as
+ * splitSentences, so span i is the text of speech segment i.
+ */
+export function sentenceSpans(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const add = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) spans.push({ start, end });
+  };
+
+  let consumed = 0;
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    add(consumed, end);
+    consumed = end;
+  }
+  add(consumed, text.length);
+  return spans;
+}
+
+/** Incrementally cuts streamed text into complete sentences. */
+export class SentenceSplitter {
+  private buffer = '';
+
+  push(text: string): string[] {
+    this.buffer += text;
+    const sentences: string[] = [];
+    let consumed = 0;
+
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(this.buffer))) {
+      const end = match.index + match[0].length;
+      const sentence = this.buffer.slice(consumed, end).trim();
+      if (sentence) sentences.push(sentence);
+      consumed = end;
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    return sentences;
+  }
+
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+}
+
+// Matches "Alex: ...", "**Alex:** ..." and similar speaker prefixes.
+const TURN_START = /^[*_]*([^:*_]{1,40}?)[*_]*\s*:[*_]*\s*(.*)$/;
+
+export function formatTurn(turn: DialogueTurn): string {
+  return `${turn.speaker}: ${turn.text.trim()}`;
+}
+
+/** Inverse of formatTurn. */
+export function parseTurn(segment: string): DialogueTurn {
+  const split = segment.indexOf(': ');
+  return split < 0
+    ? { speaker: '', text: segment }
+    : { speaker: segment.slice(0, split), text: segment.slice(split + 2) };
+}
+
+export function splitDialogue(text: string, speakers: string[]): DialogueTurn[] {
+  const splitter = new DialogueSplitter(speakers);
+  return [...splitter.push(text), ...splitter.flush()].map(parseTurn);
+}
+
+/**
+ * Incrementally groups a streamed two-host script into "Speaker: text"
+ * turns. A turn is only complete once the next speaker starts, because a
+ * long turn may wrap onto several lines.
+ */
+export class DialogueSplitter {
+  private partial = '';
+  private current: DialogueTurn | null = null;
+
+  constructor(private speakers: string[]) {}
+
+  push(text: string): string[] {
+    this.partial += text;
+    const lines = this.partial.split('\n');
+    this.partial = lines.pop()!;
+    const done: string[] = [];
+    lines.forEach(line => this.addLine(line, done));
+    return done;
+  }
+
+  flush(): string[] {
+    const done: string[] = [];
+    this.addLine(this.partial, done);
+    this.partial = '';
+    if (this.current?.text.trim()) done.push(formatTurn(this.current));
+    this.current = null;
+    return done;
+  }
+
+  private addLine(line: string, done: string[]) {
+    const text = line.trim();
+    if (!text) return;
+
+    const match = text.match(TURN_START);
+    const speaker = match && this.speakers.find(s => s.toLowerCase() === match[1].trim().toLowerCase());
+    if (match && speaker) {
+      if (this.current?.text.trim()) done.push(formatTurn(this.current));
+      this.current = { speaker, text: match[2] };
+    } else if (this.current) {
+      this.current.text = `${this.current.text} ${text}`.trim();
+    } else {
+      this.current = { speaker: this.speakers[0], text };
+    }
+  }
+}
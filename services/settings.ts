@@ -0,0 +1,145 @@
+import { Settings, SummaryLength } from "../types";
+import { isUiLanguage, preferredUiLanguage } from "./i18n";
+
+const STORAGE_KEY = 'gemini-sonic:settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  voiceName: 'Kore',
+  summaryLength: 'standard',
+  mode: 'summary',
+  podcastHosts: [
+    { name: 'Alex', voiceName: 'Puck' },
+    { name: 'Sam', voiceName: 'Kore' },
+  ],
+  speakingStyle: 'Read this search summary clearly and naturally',
+  searchModel: 'gemini-3-flash-preview',
+  ttsModel: 'gemini-2.5-flash-preview-tts',
+  temperatures: {
+    inspire: 1.0,
+    workshop: 0.5,
+    diveDeeper: 0.7,
+    search: 0.2,
+  },
+  cacheTtlMinutes: 30,
+  outputLanguage: 'auto',
+  interfaceLanguage: 'en',
+  sourceFilter: { preset: 'any', allow: [], block: [] },
+};
+
+export const PREBUILT_VOICES: { name: string; style: string }[] = [
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Sulafat', style: 'Warm' },
+];
+
+export const SUMMARY_LENGTHS: Record<SummaryLength, { instruction: string; turns: string }> = {
+  'brief': { instruction: 'in 1 or 2 sentences', turns: '4' },
+  'standard': { instruction: 'in 3 sentences', turns: '6 to 8' },
+  'deep-dive': { instruction: 'in 6 to 8 sentences, covering background, the key facts and what they mean', turns: '12 to 16' },
+};
+
+export const CACHE_TTL_MINUTES = [0, 5, 30, 120, 1440];
+
+/**
+ * Languages offered for summaries. Gemini handles many more; these are the
+ * ones its TTS voices speak well. Names are given in the language itself.
+ */
+export const OUTPUT_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'pt', name: 'Português' },
+  { code: 'nl', name: 'Nederlands' },
+  { code: 'pl', name: 'Polski' },
+  { code: 'tr', name: 'Türkçe' },
+  { code: 'ru', name: 'Русский' },
+  { code: 'ar', name: 'العربية' },
+  { code: 'hi', name: 'हिन्दी' },
+  { code: 'id', name: 'Bahasa Indonesia' },
+  { code: 'ja', name: '日本語' },
+  { code: 'ko', name: '한국어' },
+  { code: 'zh', name: '中文' },
+];
+
+/** The name of a language code as written in `displayLanguage`, e.g. for prompts or labels. */
+export function languageName(code: string, displayLanguage: string = 'en'): string {
+  try {
+    return new Intl.DisplayNames([displayLanguage], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+}
+
+export const KNOWN_MODELS = {
+  search: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  tts: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+};
+
+/**
+ * The proxy (the default provider) only runs the models above, so through it
+ * the models are picked from that list rather than typed in.
+ */
+export const MODELS_FIXED = !process.env.PROVIDER || process.env.PROVIDER === 'proxy';
+
+// A model typed in while calling the API directly would fail every proxied request.
+function knownModel(model: string | undefined, known: string[], fallback: string): string {
+  return model && (!MODELS_FIXED || known.includes(model)) ? model : fallback;
+}
+
+export function loadSettings(): Settings {
+  try {
+    const defaults = { ...DEFAULT_SETTINGS, interfaceLanguage: preferredUiLanguage() };
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const stored = JSON.parse(raw) as Partial<Settings>;
+    // Merge over the defaults so settings saved by older versions pick up new fields.
+    return {
+      ...defaults,
+      ...stored,
+      interfaceLanguage: stored.interfaceLanguage && isUiLanguage(stored.interfaceLanguage) ? stored.interfaceLanguage : defaults.interfaceLanguage,
+      searchModel: knownModel(stored.searchModel, KNOWN_MODELS.search, defaults.searchModel),
+      ttsModel: knownModel(stored.ttsModel, KNOWN_MODELS.tts, defaults.ttsModel),
+      temperatures: { ...DEFAULT_SETTINGS.temperatures, ...stored.temperatures },
+      sourceFilter: { ...DEFAULT_SETTINGS.sourceFilter, ...stored.sourceFilter },
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Failed to save settings', err);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { SearchResponse } from '../types';
+import { InvalidLinkError } from './errors';
+import { decodeSharedAnswer, encodeSharedAnswer } from './shareLink';
+
+const results: SearchResponse = {
+  summary: 'The sky is blue. Sunsets are red.',
+  sources: [
+    { title: 'Rayleigh scattering', uri: 'https://example.com/rayleigh' },
+    { title: 'Sunsets', uri: 'https://example.com/sunsets' },
+  ],
+  actualQuery: 'why is the sky blue',
+  citations: [
+    { start: 0, end: 16, sourceIndices: [0] },
+    { start: 17, end: 33, sourceIndices: [0, 1] },
+  ],
+};
+
+describe('share links', () => {
+  it('round-trips an answer', async () => {
+    const shared = await decodeSharedAnswer(await encodeSharedAnswer('why is the sky blue', results));
+
+    expect(shared.query).toBe('why is the sky blue');
+    expect(shared.results.summary).toBe(results.summary);
+    expect(shared.results.citations).toEqual(results.citations);
+    expect(shared.results.sources.map(source => source.uri)).toEqual(results.sources.map(source => source.uri));
+  });
+
+  it('drops citations that point past the summary or at missing sources', async () => {
+    const edited: SearchResponse = {
+      ...results,
+      citations: [
+        { start: 0, end: 16, sourceIndices: [0] },
+        { start: 17, end: 999, sourceIndices: [1] },
+        { start: -5, end: 3, sourceIndices: [1] },
+        { start: 10, end: 4, sourceIndices: [1] },
+        { start: 17, end: 33, sourceIndices: [1, 7] },
+      ],
+    };
+
+    const shared = await decodeSharedAnswer(await encodeSharedAnswer('why is the sky blue', edited));
+
+    expect(shared.results.citations).toEqual([{ start: 0, end: 16, sourceIndices: [0] }]);
+  });
+
+  it('rejects links it cannot read', async () => {
+    await expect(decodeSharedAnswer('not-a-link')).rejects.toBeInstanceOf(InvalidLinkError);
+  });
+});
@@ -0,0 +1,102 @@
+import { SearchResponse } from "../types";
+import { decodeBase64, encodeBase64 } from "./audio";
+import { InvalidLinkError } from "./errors";
+import { enrichSources } from "./sources";
+
+const FORMAT_VERSION = 1;
+
+/**
+ * What a share link carries: enough to show the answer and voice it again.
+ * Keys are short because the whole thing ends up in a URL.
+ */
+interface SharedPayload {
+  v: number;
+  /** The question. */
+  q: string;
+  s: string;
+  /** Sources as [title, uri]. */
+  r: [string, string][];
+  /** Podcast turns as [speaker, text]. */
+  d?: [string, string][];
+  /** Citations as [start, end, ...source indices]. */
+  c?: number[][];
+  l?: string;
+}
+
+export interface SharedAnswer {
+  query: string;
+  results: SearchResponse;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  return decodeBase64(text.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Packs an answer into a compressed, URL-safe string. */
+export async function encodeSharedAnswer(query: string, results: SearchResponse): Promise<string> {
+  const payload: SharedPayload = {
+    v: FORMAT_VERSION,
+    q: query,
+    s: results.summary,
+    r: results.sources.map(source => [source.title, source.uri]),
+    d: results.dialogue?.map(turn => [turn.speaker, turn.text]),
+    c: results.citations?.map(citation => [citation.start, citation.end, ...citation.sourceIndices]),
+    l: results.language,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isPair = (value: unknown): value is [string, string] =>
+  Array.isArray(value) && value.length === 2 && value.every(isString);
+// Source links are rendered as anchors, so anything but http(s) is refused.
+const isSource = (value: unknown): value is [string, string] =>
+  isPair(value) && /^https?:\/\//i.test(value[1]);
+
+/** Inverse of encodeSharedAnswer. Throws InvalidLinkError for anything it can't read. */
+export async function decodeSharedAnswer(encoded: string): Promise<SharedAnswer> {
+  let payload: SharedPayload;
+  try {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new InvalidLinkError('The share link could not be decoded.');
+  }
+
+  const valid = payload?.v === FORMAT_VERSION
+    && isString(payload.q) && isString(payload.s)
+    && Array.isArray(payload.r) && payload.r.every(isSource)
+    && (payload.d === undefined || (Array.isArray(payload.d) && payload.d.every(isPair)))
+    && (payload.c === undefined || (Array.isArray(payload.c) && payload.c.every(c => Array.isArray(c) && c.length >= 3 && c.every(Number.isInteger))))
+    && (payload.l === undefined || isString(payload.l));
+  if (!valid) throw new InvalidLinkError('The share link is not in a format this version understands.');
+
+  // A hand-edited link can point citations past the summary or at sources
+  // that aren't there; those are dropped rather than highlighted.
+  const citations = payload.c
+    ?.map(([start, end, ...sourceIndices]) => ({ start, end, sourceIndices }))
+    .filter(({ start, end, sourceIndices }) => 0 <= start && start < end && end <= payload.s.length
+      && sourceIndices.every(index => 0 <= index && index < payload.r.length));
+  // Only titles and links travel in the URL; the rest is worked out again.
+  return {
+    query: payload.q,
+    results: {
+      summary: payload.s,
+      sources: enrichSources(payload.r.map(([title, uri]) => ({ title, uri })), payload.s, citations),
+      actualQuery: payload.q,
+      dialogue: payload.d?.map(([speaker, text]) => ({ speaker, text })),
+      citations,
+      language: payload.l,
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { Citation, SearchResponse, SearchResult, SourceFilter, SourcePreset } from "../types";
+import { sourceDomain } from "./sources";
+
+/** How much weight a source's site deserves at a glance; shown as a badge on source cards. */
+export type Credibility = 'trusted' | 'government' | 'academic' | 'reference' | 'social' | 'unrated';
+
+const GOVERNMENT = /(^|\.)(gov|mil|int)(\.[a-z]{2})?$|(^|\.)(europa\.eu|un\.org)$/;
+const ACADEMIC = /(^|\.)edu(\.[a-z]{2})?$|(^|\.)ac\.[a-z]{2}$/;
+
+const ACADEMIC_SITES = [
+  'arxiv.org', 'nature.com', 'science.org', 'sciencedirect.com', 'springer.com', 'wiley.com',
+  'jstor.org', 'pubmed.ncbi.nlm.nih.gov', 'ncbi.nlm.nih.gov', 'plos.org', 'thelancet.com', 'nejm.org',
+];
+const REFERENCE_SITES = ['wikipedia.org', 'britannica.com', 'merriam-webster.com', 'oxfordreference.com'];
+const SOCIAL_SITES = [
+  'facebook.com', 'instagram.com', 'x.com', 'twitter.com', 'tiktok.com', 'reddit.com', 'youtube.com',
+  'linkedin.com', 'pinterest.com', 'quora.com', 'threads.net', 'tumblr.com', 'medium.com', 'substack.com',
+];
+
+// Fewer sources than this left after filtering, or more than half of them
+// dropped, and the answer is flagged as thinly sourced.
+const MIN_SOURCES = 2;
+
+export const SOURCE_PRESETS: SourcePreset[] = ['any', 'no-social', 'academic', 'allowed-only'];
+
+/** "https://www.Example.com/page" and "example.com" both become "example.com". */
+export function normalizeDomain(entry: string): string {
+  return entry.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/[/?#:].*$/, '');
+}
+
+function matches(domain: string, sites: string[]): boolean {
+  return sites.some(site => site && (domain === site || domain.endsWith(`.${site}`)));
+}
+
+function listed(list: string[]): string[] {
+  return list.map(normalizeDomain).filter(Boolean);
+}
+
+export function rateSource(source: SearchResult, filter: SourceFilter): Credibility {
+  const domain = normalizeDomain(sourceDomain(source));
+  if (matches(domain, listed(filter.allow))) return 'trusted';
+  if (GOVERNMENT.test(domain)) return 'government';
+  if (ACADEMIC.test(domain) || matches(domain, ACADEMIC_SITES)) return 'academic';
+  if (matches(domain, REFERENCE_SITES)) return 'reference';
+  if (matches(domain, SOCIAL_SITES)) return 'social';
+  return 'unrated';
+}
+
+/** Whether a source passes the filter. The block list wins over everything, the allow list over the preset. */
+export function isAllowed(source: SearchResult, filter: SourceFilter): boolean {
+  const domain = normalizeDomain(sourceDomain(source));
+  if (matches(domain, listed(filter.block))) return false;
+  const credibility = rateSource(source, filter);
+  switch (filter.preset) {
+    case 'any':
+      return true;
+    case 'no-social':
+      return credibility !== 'social';
+    case 'academic':
+      return credibility === 'trusted' || credibility === 'government' || credibility === 'academic';
+    case 'allowed-only':
+      return credibility === 'trusted';
+  }
+}
+
+export function hasSourceFilter(filter: SourceFilter): boolean {
+  return filter.preset !== 'any' || listed(filter.allow).length > 0 || listed(filter.block).length > 0;
+}
+
+/** Tells the search model which sites to lean on; grounding can't be restricted directly. */
+export function sourceInstruction(filter: SourceFilter): string {
+  const allow = listed(filter.allow);
+  const block = listed(filter.block);
+  const rules: string[] = [];
+  switch (filter.preset) {
+    case 'no-social':
+      rules.push("Don't rely on social media, forums or video sites.");
+      break;
+    case 'academic':
+      rules.push('Use only government and academic sources, such as .gov and .edu sites, universities and peer-reviewed journals.');
+      break;
+    case 'allowed-only':
+      if (allow.length > 0) rules.push(`Use only these sites: ${allow.join(', ')}.`);
+      break;
+  }
+  if (allow.length > 0 && filter.preset !== 'allowed-only') rules.push(`Prefer these sites: ${allow.join(', ')}.`);
+  if (block.length > 0) rules.push(`Never use these sites: ${block.join(', ')}.`);
+  return rules.join(' ');
+}
+
+/**
+ * Drops the sources the filter rejects, keeping them in `excludedSources`,
+ * and renumbers citations; a passage backed only by excluded sources loses
+ * its citation.
+ */
+export function applySourceFilter(response: SearchResponse, filter: SourceFilter): SearchResponse {
+  if (!hasSourceFilter(filter)) return response;
+  const sources: SearchResult[] = [];
+  const excludedSources: SearchResult[] = [];
+  const renumbered: (number | undefined)[] = response.sources.map(source => {
+    if (!isAllowed(source, filter)) {
+      excludedSources.push(source);
+      return undefined;
+    }
+    return sources.push(source) - 1;
+  });
+  if (excludedSources.length === 0) return response;
+
+  const citations = response.citations?.flatMap((citation): Citation[] => {
+    const sourceIndices = citation.sourceIndices
+      .map(i => renumbered[i])
+      .filter((i): i is number => i !== undefined);
+    return sourceIndices.length > 0 ? [{ ...citation, sourceIndices }] : [];
+  });
+  return { ...response, sources, citations, excludedSources };
+}
+
+/** True when filtering left the answer with too little backing to trust it as is. */
+export function isThinlySourced(response: SearchResponse): boolean {
+  const excluded = response.excludedSources?.length ?? 0;
+  if (excluded === 0) return false;
+  return response.sources.length < MIN_SOURCES || excluded > response.sources.length;
+}
@@ -0,0 +1,75 @@
+import { Citation, SearchResult } from "../types";
+
+// Google Search grounding links to its own redirect service rather than to
+// the page, so the host of the URI says nothing about the publisher.
+const REDIRECT_HOSTS = new Set(['vertexaisearch.cloud.google.com']);
+
+const DOMAIN = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+// Dates as news sites put them in paths: /2024/03/15/, /2024-03-15-slug or /2024/03/.
+const PATH_DATE = /\/((?:19|20)\d{2})[/-](0[1-9]|1[0-2])(?:[/-](0[1-9]|[12]\d|3[01]))?(?=[/-]|$)/;
+
+const SNIPPET_MAX_LENGTH = 240;
+
+/** Host of `uri` without a leading "www.", or null if it isn't an http(s) URL. */
+export function hostnameOf(uri: string): string | null {
+  try {
+    const url = new URL(uri);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.hostname.replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/** The publisher to show for a source. Never throws, even for a malformed URI. */
+export function sourceDomain(source: SearchResult): string {
+  return source.domain ?? hostnameOf(source.uri) ?? source.uri;
+}
+
+function publisherDomain(source: SearchResult): string | undefined {
+  if (source.domain) return source.domain.replace(/^www\./, '').toLowerCase();
+  const host = hostnameOf(source.uri);
+  if (host && !REDIRECT_HOSTS.has(host)) return host;
+  // For redirected sources the Gemini API puts the publisher's domain in the title.
+  const title = source.title.trim();
+  return DOMAIN.test(title) ? title.replace(/^www\./, '').toLowerCase() : undefined;
+}
+
+function publishedDate(source: SearchResult): string | undefined {
+  const host = hostnameOf(source.uri);
+  if (!host || REDIRECT_HOSTS.has(host)) return undefined;
+  const match = new URL(source.uri).pathname.match(PATH_DATE);
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  return day ? `${year}-${month}-${day}` : `${year}-${month}`;
+}
+
+export function faviconUrl(domain: string): string {
+  return `https://www.google.com/s2/favicons?domain=${encodeURIComponent(domain)}&sz=32`;
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > SNIPPET_MAX_LENGTH ? `${trimmed.slice(0, SNIPPET_MAX_LENGTH - 1).trimEnd()}…` : trimmed;
+}
+
+/**
+ * Fills in the publisher domain, favicon and publish date of each source
+ * where they can be worked out, and uses the first passage of the summary
+ * citing a source as its snippet. Fields that are already set are kept.
+ */
+export function enrichSources(sources: SearchResult[], summary: string, citations: Citation[] = []): SearchResult[] {
+  return sources.map((source, i) => {
+    const domain = publisherDomain(source);
+    const citation = citations.find(c => c.sourceIndices.includes(i));
+    const snippet = source.snippet ?? (citation ? clip(summary.slice(citation.start, citation.end)) : undefined);
+    return {
+      ...source,
+      domain,
+      favicon: source.favicon ?? (domain ? faviconUrl(domain) : undefined),
+      publishedAt: source.publishedAt ?? publishedDate(source),
+      snippet: snippet || undefined,
+    };
+  });
+}
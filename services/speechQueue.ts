@@ -0,0 +1,75 @@
+import { decodeBase64 } from "./audio";
+
+interface QueuedSpeech {
+  text: string;
+  audio?: Promise<string>;
+}
+
+/**
+ * Synthesizes text segments with limited parallelism and hands the PCM
+ * back strictly in the order the segments were pushed. The first failure
+ * stops the queue and goes to `onError` right away, rather than waiting
+ * for `drain`.
+ */
+export class SpeechQueue {
+  private items: QueuedSpeech[] = [];
+  private started = 0;
+  private delivered = 0;
+  private delivering: Promise<void> = Promise.resolve();
+  private cancelled = false;
+  private failure: { error: unknown } | null = null;
+
+  onError?: (error: unknown) => void;
+
+  constructor(
+    private synthesize: (text: string) => Promise<string>,
+    private onAudio: (pcm: Uint8Array, text: string) => void | Promise<void>,
+    private maxInFlight = 2,
+  ) {}
+
+  push(text: string) {
+    if (this.cancelled || this.failure) return;
+    this.items.push({ text });
+    this.pump();
+  }
+
+  /** Resolves once every pushed segment has been delivered; rejects with the first failure. */
+  async drain(): Promise<void> {
+    while (!this.cancelled && !this.failure && this.delivered < this.items.length) {
+      await this.delivering;
+    }
+    if (this.failure && !this.cancelled) throw this.failure.error;
+  }
+
+  cancel() {
+    this.cancelled = true;
+  }
+
+  private pump() {
+    while (!this.cancelled && !this.failure && this.started < this.items.length && this.started - this.delivered < this.maxInFlight) {
+      const item = this.items[this.started++];
+      item.audio = this.synthesize(item.text);
+      // Failures surface in order through deliver(); silence the early rejection.
+      item.audio.catch(() => {});
+      this.delivering = this.delivering.then(() => this.deliver(item));
+    }
+  }
+
+  // Never rejects, so `delivering` can't hold an unhandled rejection once
+  // the queue is cancelled without being drained.
+  private async deliver(item: QueuedSpeech) {
+    if (this.cancelled || this.failure) return;
+    try {
+      const audioBase64 = await item.audio!;
+      if (this.cancelled) return;
+      await this.onAudio(decodeBase64(audioBase64), item.text);
+    } catch (error) {
+      if (this.cancelled || this.failure) return;
+      this.failure = { error };
+      this.onError?.(error);
+      return;
+    }
+    this.delivered++;
+    this.pump();
+  }
+}
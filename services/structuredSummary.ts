@@ -0,0 +1,165 @@
+/** The JSON object the search prompt asks the model for. */
+export interface StructuredSummary {
+  summary: string;
+  keyPoints: string[];
+  /** The searches the model says it ran. */
+  queries: string[];
+  /** 0 to 1, or undefined if the model gave none. */
+  confidence?: number;
+  followUps: string[];
+  /** BCP 47 code the model reports writing in. */
+  language?: string;
+}
+
+const MAX_KEY_POINTS = 6;
+const MAX_FOLLOW_UPS = 4;
+const MAX_QUERIES = 6;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Prompt text describing the object. Only the short language code precedes
+ * the summary, so the summary can be spoken while the rest still streams.
+ */
+export function schemaInstructions(summaryDescription: string): string {
+  return `Respond with only a JSON object, without markdown code fences, with exactly these fields in this order:
+      "language": the BCP 47 code of the language the summary is written in, e.g. "en" or "pt-BR",
+      "summary": ${summaryDescription},
+      "keyPoints": an array of 3 to 5 short strings, the main takeaways,
+      "queries": an array of the Google Search queries you ran,
+      "confidence": a number from 0 to 1 for how well the search results support the answer,
+      "followUps": an array of 3 short follow-up questions the user might ask next.`;
+}
+
+function stringList(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .slice(0, max);
+}
+
+export function toLanguage(value: unknown): string | undefined {
+  return typeof value === 'string' && /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(value.trim()) ? value.trim() : undefined;
+}
+
+function toConfidence(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return undefined;
+  // Some answers come back as a percentage.
+  return Math.min(1, number > 1 ? number / 100 : number);
+}
+
+/**
+ * Validates the model's answer against StructuredSummary. Anything that
+ * isn't usable JSON is kept as a plain summary, so a model that ignores the
+ * format still produces an answer rather than an error.
+ */
+export function parseStructuredSummary(text: string): StructuredSummary {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  let parsed: unknown = null;
+  if (start >= 0 && end > start) {
+    try {
+      parsed = JSON.parse(text.slice(start, end + 1));
+    } catch {
+      // Handled below.
+    }
+  }
+  const fields: Record<string, unknown> = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? { ...parsed } : {};
+
+  if (typeof fields.summary !== 'string') {
+    // A cut-off object still has a readable summary at its start.
+    const extractor = new SummaryExtractor();
+    const recovered = extractor.push(text);
+    return { summary: (extractor.isJson && recovered.trim() ? recovered : text).trim(), keyPoints: [], queries: [], followUps: [] };
+  }
+
+  return {
+    summary: fields.summary.trim(),
+    keyPoints: stringList(fields.keyPoints, MAX_KEY_POINTS),
+    queries: stringList(fields.queries, MAX_QUERIES),
+    confidence: toConfidence(fields.confidence),
+    followUps: stringList(fields.followUps, MAX_FOLLOW_UPS),
+    language: toLanguage(fields.language),
+  };
+}
+
+/**
+ * Reads the "summary" string out of the JSON object while it streams in, so
+ * it can be split and spoken before the object is complete. If the answer
+ * turns out not to be JSON at all, the text is passed through unchanged.
+ */
+export class SummaryExtractor {
+  private raw = '';
+  private mode: 'pending' | 'json' | 'plain' = 'pending';
+  /** Position in `raw` of the next unread summary character, once found. */
+  private cursor = -1;
+  private done = false;
+
+  get isJson(): boolean {
+    return this.mode === 'json';
+  }
+
+  /** Adds streamed text and returns the summary text it completes. */
+  push(text: string): string {
+    this.raw += text;
+    if (this.mode === 'pending') {
+      const head = this.raw.trimStart();
+      if (!head) return '';
+      // A code fence is only ever wrapped around the object.
+      this.mode = head[0] === '{' || head[0] === '`' ? 'json' : 'plain';
+      if (this.mode === 'plain') this.cursor = 0;
+    }
+    if (this.mode === 'plain') {
+      const out = this.raw.slice(this.cursor);
+      this.cursor = this.raw.length;
+      return out;
+    }
+
+    if (this.cursor < 0) {
+      const match = /"summary"\s*:\s*"/.exec(this.raw);
+      if (!match) return '';
+      this.cursor = match.index + match[0].length;
+    }
+
+    let out = '';
+    while (!this.done && this.cursor < this.raw.length) {
+      const char = this.raw[this.cursor];
+      if (char === '"') {
+        this.done = true;
+      } else if (char !== '\\') {
+        out += char;
+        this.cursor++;
+      } else {
+        // Wait for the whole escape sequence before decoding it.
+        const next = this.raw[this.cursor + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = this.raw.slice(this.cursor + 2, this.cursor + 6);
+          if (hex.length < 4) break;
+          out += String.fromCharCode(parseInt(hex, 16));
+          this.cursor += 6;
+        } else {
+          out += ESCAPES[next] ?? next;
+          this.cursor += 2;
+        }
+      }
+    }
+    return out;
+  }
+}
+
+/**
+ * Grounding supports quote the raw response, which for a JSON answer may
+ * include the key, quotes and escapes around the summary text.
+ */
+export function unwrapJsonFragment(fragment: string): string {
+  return fragment
+    .replace(/^[\s{,]*"summary"\s*:\s*"/, '')
+    .replace(/"[\s,}]*$/, '')
+    .replace(/\\(["\\/])/g, '$1')
+    .replace(/\\n/g, '\n')
+    .trim();
+}
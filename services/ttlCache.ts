@@ -0,0 +1,36 @@
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * A size-bounded map whose entries expire after `ttlMs`. When full, the
+ * least recently read entry is dropped first.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, Entry<T>>();
+
+  constructor(private maxEntries: number, private ttlMs: number) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    // Re-inserting moves the key to the end of the Map's iteration order.
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: T, ttlMs: number = this.ttlMs): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
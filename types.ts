@@ -1,23 +1,196 @@
 
 export interface SearchResult {
   title: string;
+  /** Often a Google Search redirect rather than the page itself; see `domain`. */
   uri: string;
+  /** A passage of the answer that cites this source. */
   snippet?: string;
+  /** The publisher's domain, without "www.". */
+  domain?: string;
+  favicon?: string;
+  /** ISO 8601 date, or just year and month, when the source's URL gives it away. */
+  publishedAt?: string;
+}
+
+export interface DialogueTurn {
+  speaker: string;
+  text: string;
+}
+
+/** Character offsets into a piece of text, end exclusive. */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/** A span of the summary backed by one or more grounding sources. */
+export interface Citation {
+  /** Character offsets into `summary`, end exclusive. */
+  start: number;
+  end: number;
+  /** Indices into `sources`. */
+  sourceIndices: number[];
 }
 
 export interface SearchResponse {
   summary: string;
   sources: SearchResult[];
   actualQuery: string;
+  /** Present when the summary was written as a two-host podcast script. */
+  dialogue?: DialogueTurn[];
+  citations?: Citation[];
+  // The fields below are missing from results saved before summaries were structured.
+  /** The main takeaways as short standalone points. */
+  keyPoints?: string[];
+  /** Every search query run for the answer; `actualQuery` is the first. */
+  searchQueries?: string[];
+  /** 0 to 1: how well the model judged the search results support the answer. */
+  confidence?: number;
+  /** Questions the user might ask next. */
+  followUps?: string[];
+  /** BCP 47 code of the language the summary is written in. */
+  language?: string;
+  /** Sources the user's source filter removed from `sources`. */
+  excludedSources?: SearchResult[];
+}
+
+/** One of the options in a comparison, researched on its own. */
+export interface ComparedItem {
+  /** The option as the user named it, e.g. "Rust". */
+  label: string;
+  /** The question searched for this option. */
+  query: string;
+  results: SearchResponse;
+}
+
+export interface ComparisonRow {
+  dimension: string;
+  /** One cell per compared item, in the order of the items. */
+  values: string[];
+}
+
+/** The model's side-by-side reading of the compared answers. */
+export interface ComparisonSynthesis {
+  rows: ComparisonRow[];
+  /** The bottom line, in a sentence or two. */
+  verdict: string;
+  /** Written to be listened to rather than read: walks through the differences and ends on the verdict. */
+  script: string;
+  language?: string;
+}
+
+export interface ComparisonResponse extends ComparisonSynthesis {
+  /** The question as asked, e.g. "Rust vs Go for CLIs". */
+  query: string;
+  items: ComparedItem[];
+  /** Base64 24 kHz mono 16-bit PCM of `script`. */
+  audioBase64?: string;
 }
 
 export enum AppStatus {
   IDLE = 'IDLE',
+  LISTENING = 'LISTENING',
+  TRANSCRIBING = 'TRANSCRIBING',
   TWEAKING = 'TWEAKING',
-  ANALYZING = 'ANALYZING',
+  INSPIRING = 'INSPIRING',
+  REFINING = 'REFINING',
+  TRANSLATING = 'TRANSLATING',
+  COMPARING = 'COMPARING',
   SEARCHING = 'SEARCHING',
   SYNTHESIZING = 'SYNTHESIZING',
   GENERATING_AUDIO = 'GENERATING_AUDIO',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
   ERROR = 'ERROR'
 }
+
+/** One question and its grounded answer within a session. */
+export interface SessionTurn {
+  id: string;
+  query: string;
+  timestamp: number;
+  results: SearchResponse;
+  /** Base64 24 kHz mono 16-bit PCM, as returned by generateSpeech. */
+  audioBase64?: string;
+  /** Sample count of each synthesized segment (sentence or dialogue turn), in order. */
+  audioSegments?: number[];
+}
+
+/** A conversation of follow-up searches; later turns are answered in the context of earlier ones. */
+export interface Session {
+  id: string;
+  /** The question that started the session. */
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  turns: SessionTurn[];
+}
+
+/** One saved topic's part of a briefing. */
+export interface BriefingSegment {
+  topic: string;
+  results: SearchResponse;
+}
+
+/** A voiced briefing on the saved topics, generated once per day. */
+export interface BriefingEpisode {
+  id: string;
+  /** Local calendar day the briefing covers, as YYYY-MM-DD. */
+  date: string;
+  createdAt: number;
+  segments: BriefingSegment[];
+  /** Topics whose search failed and were left out. */
+  skippedTopics: string[];
+  /** The spoken script: an intro, one part per segment and a sign-off. */
+  script: string[];
+  /** Base64 24 kHz mono 16-bit PCM of the whole script. */
+  audioBase64: string;
+  /** Sample count of each script part, in order. */
+  audioSegments: number[];
+}
+
+export type SummaryLength = 'brief' | 'standard' | 'deep-dive';
+
+export type SummaryMode = 'summary' | 'podcast';
+
+/** Languages the interface is translated into; see locales/. */
+export type UiLanguage = 'en' | 'es' | 'fr' | 'de';
+
+/** Built-in source profiles; "allowed-only" keeps nothing but the allow list. */
+export type SourcePreset = 'any' | 'no-social' | 'academic' | 'allowed-only';
+
+export interface SourceFilter {
+  preset: SourcePreset;
+  /** Domains that always pass, subdomains included. */
+  allow: string[];
+  /** Domains that never pass, whatever the preset or allow list says. */
+  block: string[];
+}
+
+export interface PodcastHost {
+  name: string;
+  voiceName: string;
+}
+
+export interface Settings {
+  voiceName: string;
+  summaryLength: SummaryLength;
+  mode: SummaryMode;
+  podcastHosts: [PodcastHost, PodcastHost];
+  /** Instruction prepended to the text sent to the TTS model. */
+  speakingStyle: string;
+  searchModel: string;
+  ttsModel: string;
+  temperatures: {
+    inspire: number;
+    workshop: number;
+    diveDeeper: number;
+    search: number;
+  };
+  /** Language code for summaries and speech, or 'auto' to answer in the language of the question. */
+  outputLanguage: string;
+  interfaceLanguage: UiLanguage;
+  /** How long search results and speech are reused for identical requests; 0 disables caching. */
+  cacheTtlMinutes: number;
+  sourceFilter: SourceFilter;
+}
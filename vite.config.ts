@@ -2,17 +2,27 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    const provider = env.PROVIDER || 'proxy';
+    // Direct mode inlines the API key into the bundle, so only the dev server may use it.
+    if (provider === 'gemini' && command !== 'serve') {
+      throw new Error('PROVIDER=gemini exposes GEMINI_API_KEY in the bundle and is only allowed with `npm run dev`. Build with the proxy instead.');
+    }
+    const apiKey = provider === 'gemini' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.PROVIDER': JSON.stringify(provider)
       },
       resolve: {
         alias: {